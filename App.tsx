@@ -11,7 +11,11 @@ import { styled } from 'nativewind';
 import { AuthProvider, useAuth } from './src/contexts/AuthContext';
 import { BookingNotificationProvider } from './src/contexts/BookingNotificationContext';
 import { ChatsProvider } from './src/contexts/ChatsContext';
+import { PresenceProvider } from './src/contexts/PresenceContext';
 import BookingRequestPopup from './src/components/BookingRequestPopup';
+import NotificationManager from './src/components/NotificationManager';
+import IdleActivityMonitor from './src/components/IdleActivityMonitor';
+import AvailabilityScheduleWatcher from './src/components/AvailabilityScheduleWatcher';
 import { profileService } from './src/services/api';
 import api from './src/services/api';
 
@@ -43,6 +47,16 @@ let LoginScreen: React.ComponentType<any>,
     VideoCallScreen: React.ComponentType<any>,
     BookingRequestsScreen: React.ComponentType<any>,
     ConsultationsScreen: React.ComponentType<any>,
+    EarningsScreen: React.ComponentType<any>,
+    CallHistoryScreen: React.ComponentType<any>,
+    AvailabilityScreen: React.ComponentType<any>,
+    NotificationSettingsScreen: React.ComponentType<any>,
+    MessageTemplatesScreen: React.ComponentType<any>,
+    ChatSearchScreen: React.ComponentType<any>,
+    ClientsScreen: React.ComponentType<any>,
+    ClientDetailScreen: React.ComponentType<any>,
+    FollowUpsScreen: React.ComponentType<any>,
+    ConsultationCalendarScreen: React.ComponentType<any>,
     DebugScreen: React.ComponentType<any>;
 
 try {
@@ -56,6 +70,16 @@ try {
   BookingsScreen = require('./src/screens/BookingsScreen').default;
   BookingRequestsScreen = require('./src/screens/BookingRequestsScreen').default;
   ConsultationsScreen = require('./src/screens/ConsultationsScreen').default;
+  EarningsScreen = require('./src/screens/EarningsScreen').default;
+  CallHistoryScreen = require('./src/screens/CallHistoryScreen').default;
+  AvailabilityScreen = require('./src/screens/AvailabilityScreen').default;
+  NotificationSettingsScreen = require('./src/screens/NotificationSettingsScreen').default;
+  MessageTemplatesScreen = require('./src/screens/MessageTemplatesScreen').default;
+  ChatSearchScreen = require('./src/screens/ChatSearchScreen').default;
+  ClientsScreen = require('./src/screens/ClientsScreen').default;
+  ClientDetailScreen = require('./src/screens/ClientDetailScreen').default;
+  FollowUpsScreen = require('./src/screens/FollowUpsScreen').default;
+  ConsultationCalendarScreen = require('./src/screens/ConsultationCalendarScreen').default;
   DebugScreen = require('./src/screens/DebugScreen').default;
   
   // Chat screens
@@ -86,6 +110,16 @@ try {
   VideoCallScreen = () => <PlaceholderScreen screenName="Video Call Screen" />;
   BookingRequestsScreen = () => <PlaceholderScreen screenName="Booking Requests Screen" />;
   ConsultationsScreen = () => <PlaceholderScreen screenName="Consultations Screen" />;
+  EarningsScreen = () => <PlaceholderScreen screenName="Earnings Screen" />;
+  CallHistoryScreen = () => <PlaceholderScreen screenName="Call History Screen" />;
+  AvailabilityScreen = () => <PlaceholderScreen screenName="Availability Screen" />;
+  NotificationSettingsScreen = () => <PlaceholderScreen screenName="Notification Settings Screen" />;
+  MessageTemplatesScreen = () => <PlaceholderScreen screenName="Message Templates Screen" />;
+  ChatSearchScreen = () => <PlaceholderScreen screenName="Chat Search Screen" />;
+  ClientsScreen = () => <PlaceholderScreen screenName="Clients Screen" />;
+  ClientDetailScreen = () => <PlaceholderScreen screenName="Client Detail Screen" />;
+  FollowUpsScreen = () => <PlaceholderScreen screenName="Follow Ups Screen" />;
+  ConsultationCalendarScreen = () => <PlaceholderScreen screenName="Consultation Calendar Screen" />;
   DebugScreen = () => <PlaceholderScreen screenName="Debug Screen" />;
 }
 
@@ -303,10 +337,60 @@ const AppContent = () => {
           name="Consultations" 
           component={ConsultationsScreen}
         />
+        <Stack.Screen 
+          name="Earnings" 
+          component={EarningsScreen}
+        />
+        <Stack.Screen 
+          name="CallHistory" 
+          component={CallHistoryScreen}
+          options={{ title: 'Call History' }}
+        />
+        <Stack.Screen 
+          name="Availability" 
+          component={AvailabilityScreen}
+          options={{ title: 'Availability' }}
+        />
+        <Stack.Screen 
+          name="NotificationSettings" 
+          component={NotificationSettingsScreen}
+          options={{ title: 'Notification Settings' }}
+        />
+        <Stack.Screen 
+          name="MessageTemplates" 
+          component={MessageTemplatesScreen}
+          options={{ title: 'Message Templates' }}
+        />
+        <Stack.Screen 
+          name="ChatSearch" 
+          component={ChatSearchScreen}
+          options={{ title: 'Search Chats' }}
+        />
+        <Stack.Screen 
+          name="Clients" 
+          component={ClientsScreen}
+          options={{ title: 'Clients' }}
+        />
+        <Stack.Screen 
+          name="ClientDetail" 
+          component={ClientDetailScreen}
+          options={{ title: 'Client' }}
+        />
+        <Stack.Screen 
+          name="FollowUps" 
+          component={FollowUpsScreen}
+          options={{ title: 'Follow-ups' }}
+        />
+        <Stack.Screen 
+          name="ConsultationCalendar" 
+          component={ConsultationCalendarScreen}
+          options={{ title: 'Calendar' }}
+        />
       </Stack.Navigator>
       
       {/* Render the booking request popup when authenticated */}
       {isSignedIn && <BookingRequestPopup />}
+      {isSignedIn && <NotificationManager />}
     </NavigationContainer>
   );
 };
@@ -316,9 +400,14 @@ export default function App() {
   return (
     <BookingNotificationProvider>
       <AuthProvider>
-        <ChatsProvider>
-          <AppContent />
-        </ChatsProvider>
+        <PresenceProvider>
+          <AvailabilityScheduleWatcher />
+          <IdleActivityMonitor>
+            <ChatsProvider>
+              <AppContent />
+            </ChatsProvider>
+          </IdleActivityMonitor>
+        </PresenceProvider>
       </AuthProvider>
     </BookingNotificationProvider>
   );
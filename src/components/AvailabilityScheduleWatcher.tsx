@@ -0,0 +1,121 @@
+import React, { useEffect, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { usePresence } from '../contexts/PresenceContext';
+import {
+  AvailabilitySchedule,
+  getCachedSchedule,
+  getSchedule,
+  isWithinSchedule,
+  subscribeToSchedule
+} from '../services/availabilityService';
+
+// Only log in development mode
+const isDev = __DEV__;
+
+// How often to check whether a slot has started or ended
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Switches the astrologer online when a scheduled slot starts and offline when it ends,
+ * if they opted in. Only slot boundaries act, so manual changes inside a slot are kept.
+ */
+const AvailabilityScheduleWatcher: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const { status, setStatus } = usePresence();
+  const statusRef = useRef(status);
+  const scheduleRef = useRef<AvailabilitySchedule | null>(null);
+  // Whether we were inside a slot at the last check, null before the first check
+  const inSlotRef = useRef<boolean | null>(null);
+  // Status a slot boundary asked for that has not been applied yet
+  const pendingStatusRef = useRef<'online' | 'offline' | null>(null);
+
+  const applyPendingStatus = async () => {
+    const pending = pendingStatusRef.current;
+    // Never interrupt a chat or call; the change is applied once it ends
+    if (!pending || statusRef.current === 'busy') return;
+
+    pendingStatusRef.current = null;
+    if (statusRef.current === pending) return;
+
+    if (isDev) console.log(`[Schedule] Slot boundary reached, switching to ${pending}`);
+    try {
+      await setStatus(pending);
+    } catch (error) {
+      console.error('Error applying scheduled status:', error);
+    }
+  };
+
+  const checkSchedule = () => {
+    const schedule = scheduleRef.current;
+    if (!schedule || !schedule.autoToggle) {
+      inSlotRef.current = null;
+      pendingStatusRef.current = null;
+      return;
+    }
+
+    let inSlot: boolean;
+    try {
+      inSlot = isWithinSchedule(schedule);
+    } catch (error) {
+      console.error('Error evaluating availability schedule:', error);
+      return;
+    }
+
+    if (inSlotRef.current !== null && inSlotRef.current !== inSlot) {
+      pendingStatusRef.current = inSlot ? 'online' : 'offline';
+    }
+    inSlotRef.current = inSlot;
+
+    applyPendingStatus();
+  };
+
+  useEffect(() => {
+    statusRef.current = status;
+    applyPendingStatus();
+  }, [status]);
+
+  // Keep the schedule current, including edits saved from the availability screen
+  useEffect(() => {
+    if (!isAuthenticated) {
+      scheduleRef.current = null;
+      checkSchedule();
+      return;
+    }
+
+    const unsubscribe = subscribeToSchedule(schedule => {
+      scheduleRef.current = schedule;
+      checkSchedule();
+    });
+
+    const loadSchedule = async () => {
+      scheduleRef.current = await getCachedSchedule();
+      checkSchedule();
+      // Refresh from the profile in the background; the listener picks it up
+      getSchedule().catch(error => console.error('Error refreshing availability schedule:', error));
+    };
+
+    loadSchedule();
+    return unsubscribe;
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    const intervalId = setInterval(checkSchedule, SCHEDULE_CHECK_INTERVAL_MS);
+
+    // Timers do not run in the background, so check as soon as we're back
+    const subscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        checkSchedule();
+      }
+    });
+
+    return () => {
+      clearInterval(intervalId);
+      subscription.remove();
+    };
+  }, []);
+
+  return null;
+};
+
+export default AvailabilityScheduleWatcher;
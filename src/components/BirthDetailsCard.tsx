@@ -0,0 +1,161 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  BIRTH_DETAILS_REQUEST_TYPE,
+  BirthDetails,
+  formatBirthDate,
+  formatBirthPlace,
+  validateBirthDetails
+} from '../services/birthDetailsService';
+
+interface BirthDetailsCardProps {
+  messageType: string;
+  // The client's answer; not used for request cards
+  details?: Partial<BirthDetails> | null;
+  // Whether the request has been answered further down the chat
+  answered?: boolean;
+  // Whether these details are already saved on the client
+  saved?: boolean;
+  saving?: boolean;
+  onSave?: () => void;
+}
+
+/**
+ * Summary card for a birth details request or the client's answer to one
+ */
+const BirthDetailsCard: React.FC<BirthDetailsCardProps> = ({
+  messageType,
+  details,
+  answered,
+  saved,
+  saving,
+  onSave
+}) => {
+  if (messageType === BIRTH_DETAILS_REQUEST_TYPE) {
+    return (
+      <View style={styles.card}>
+        <View style={styles.header}>
+          <Ionicons name="planet-outline" size={18} color="#6366f1" />
+          <Text style={styles.title}>Birth details requested</Text>
+        </View>
+        <Text style={styles.hint}>
+          {answered ? 'The client has shared their details below.' : 'Waiting for the client to fill in the form.'}
+        </Text>
+      </View>
+    );
+  }
+
+  const errors = validateBirthDetails(details || {});
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Ionicons name="planet-outline" size={18} color="#6366f1" />
+        <Text style={styles.title}>Birth details</Text>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Date</Text>
+        <Text style={styles.value}>{details?.date ? formatBirthDate(details.date) : '—'}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Time</Text>
+        <Text style={styles.value}>{details?.time || '—'}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Place</Text>
+        <Text style={styles.value}>{formatBirthPlace(details?.place) || '—'}</Text>
+      </View>
+
+      {errors.length > 0 ? (
+        <View style={styles.errors}>
+          {errors.map(error => (
+            <Text key={error} style={styles.errorText}>{error}</Text>
+          ))}
+        </View>
+      ) : saved ? (
+        <View style={styles.status}>
+          <Ionicons name="checkmark-circle" size={16} color="#10b981" />
+          <Text style={styles.savedText}>Saved to client profile</Text>
+        </View>
+      ) : onSave ? (
+        <TouchableOpacity style={styles.status} onPress={onSave} disabled={saving}>
+          {saving ? (
+            <ActivityIndicator size="small" color="#6366f1" />
+          ) : (
+            <Ionicons name="save-outline" size={16} color="#6366f1" />
+          )}
+          <Text style={styles.linkText}>Save to client profile</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    minWidth: 220,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginBottom: 4,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  title: {
+    marginLeft: 6,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 3,
+  },
+  label: {
+    width: 52,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  value: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1f2937',
+    fontWeight: '500',
+  },
+  errors: {
+    marginTop: 6,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#ef4444',
+  },
+  status: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  savedText: {
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#10b981',
+  },
+  linkText: {
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+});
+
+export default BirthDetailsCard;
@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   View, 
   Text, 
@@ -12,13 +12,16 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useBookingNotification } from '../contexts/BookingNotificationContext';
-import { BookingRequest } from '../services/bookingRequestService';
+import { BookingRequest, getResponseDeadline } from '../services/bookingRequestService';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types/navigation';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { chatService } from '../services/chatService';
 import * as socketService from '../services/socketService';
+import RequestCountdown from './RequestCountdown';
+import IncomingCallRequest from './IncomingCallRequest';
+import { AlertProfile, DEFAULT_ALERT_PROFILE, getAlertProfile, usesCallPresentation } from '../services/bookingAlertService';
 
 const { width } = Dimensions.get('window');
 
@@ -29,8 +32,10 @@ const BookingRequestPopup: React.FC = () => {
     acceptBooking, 
     rejectBooking,
     socketConnected,
-    dismissNotification
+    dismissNotification,
+    silenceAlert
   } = useBookingNotification();
+  const [alertProfile, setAlertProfile] = useState<AlertProfile>(DEFAULT_ALERT_PROFILE);
   
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
 
@@ -42,6 +47,13 @@ const BookingRequestPopup: React.FC = () => {
     }
   }, [activeBookingRequest]);
 
+  // Pick up changes made in the alert settings since the last request
+  useEffect(() => {
+    if (activeBookingRequest) {
+      getAlertProfile().then(setAlertProfile);
+    }
+  }, [activeBookingRequest?._id]);
+
   // Return null if there's no active booking request
   if (!activeBookingRequest) {
     console.log('BookingRequestPopup: No active booking request to display');
@@ -231,16 +243,16 @@ const BookingRequestPopup: React.FC = () => {
             break;
             
           case 'call':
-            // For voice call - use the 'Call' route from RootStackParamList
-            navigation.navigate('Call', { 
-              bookingId: activeBookingRequest._id 
+            navigation.navigate('VoiceCallSession', {
+              bookingId: activeBookingRequest._id,
+              userData: { name: getUserName(), id: userId }
             });
             break;
             
           case 'video':
-            // For video call - use the 'VideoCall' route from RootStackParamList
-            navigation.navigate('VideoCall', { 
-              bookingId: activeBookingRequest._id 
+            navigation.navigate('VideoCallSession', {
+              bookingId: activeBookingRequest._id,
+              userData: { name: getUserName(), id: userId }
             });
             break;
             
@@ -280,6 +292,21 @@ const BookingRequestPopup: React.FC = () => {
     return !!activeBookingRequest.notes;
   };
 
+  // Voice and video users are waiting live, so present those like an incoming call
+  if (usesCallPresentation(alertProfile, activeBookingRequest.consultationType)) {
+    return (
+      <IncomingCallRequest
+        bookingRequest={activeBookingRequest}
+        userName={getUserName()}
+        isLoading={isLoading}
+        onAccept={handleAcceptBooking}
+        onReject={() => rejectBooking(activeBookingRequest._id)}
+        onSilence={silenceAlert}
+        onDismiss={handleDismiss}
+      />
+    );
+  }
+
   return (
     <Modal
       transparent={true}
@@ -345,6 +372,11 @@ const BookingRequestPopup: React.FC = () => {
             </View>
           </View>
 
+          {/* Time left before the request expires */}
+          <View style={styles.countdownContainer}>
+            <RequestCountdown deadline={getResponseDeadline(activeBookingRequest)} />
+          </View>
+
           {/* Amount */}
           <View style={styles.amountContainer}>
             <Text style={styles.amountLabel}>Consultation Amount</Text>
@@ -489,6 +521,13 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6b7280',
   },
+  countdownContainer: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    alignItems: 'center',
+  },
   amountContainer: {
     padding: 16,
     borderBottomWidth: 1,
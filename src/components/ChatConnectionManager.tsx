@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
-import * as enhancedSocketService from '../services/enhancedSocketService';
+import { connectSocket, enhancedJoinChatRoom } from '../services/socketService';
+import { socketManager } from '../services/socketManager';
 import { useAuth } from '../contexts/AuthContext';
 
 interface ChatConnectionManagerProps {
@@ -32,7 +33,6 @@ const ChatConnectionManager: React.FC<ChatConnectionManagerProps> = ({
   const [connectionStatus, setConnectionStatus] = useState<string>('Initializing...');
   const [isConnected, setIsConnected] = useState<boolean>(false);
   const [isJoining, setIsJoining] = useState<boolean>(false);
-  const [joinAttempts, setJoinAttempts] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
   
   // Update connection status and notify parent component
@@ -57,7 +57,7 @@ const ChatConnectionManager: React.FC<ChatConnectionManagerProps> = ({
       
       // Connect to socket
       updateConnectionStatus('Connecting to chat server...', false);
-      const socket = await enhancedSocketService.connectSocket();
+      const socket = await connectSocket();
       
       if (!socket) {
         setError('Failed to connect to chat server');
@@ -69,9 +69,8 @@ const ChatConnectionManager: React.FC<ChatConnectionManagerProps> = ({
       
       // Join chat room
       setIsJoining(true);
-      setJoinAttempts(prev => prev + 1);
       
-      const joinResult = await enhancedSocketService.enhancedJoinChatRoom(
+      const joinResult = await enhancedJoinChatRoom(
         chatId || '',
         bookingId || '',
         {
@@ -103,36 +102,39 @@ const ChatConnectionManager: React.FC<ChatConnectionManagerProps> = ({
     }
   }, [chatId, bookingId, updateConnectionStatus, onJoinSuccess, onJoinError]);
   
-  // Reconnect on connection loss
-  const handleReconnect = useCallback(() => {
-    if (joinAttempts < 5) {
-      updateConnectionStatus('Reconnecting...', false);
-      connectAndJoin();
-    } else {
-      updateConnectionStatus('Max reconnection attempts reached', false);
-      setError('Failed to connect after multiple attempts');
-    }
-  }, [connectAndJoin, joinAttempts, updateConnectionStatus]);
-  
   // Connect on component mount if autoConnect is true
   useEffect(() => {
     if (autoConnect) {
       connectAndJoin();
     }
+  }, [autoConnect, connectAndJoin]);
+  
+  // Follow the shared connection; the socket manager reconnects and rejoins the room itself
+  useEffect(() => {
+    let wasInterrupted = false;
     
-    // Check socket connection status periodically
-    const interval = setInterval(() => {
-      const connected = enhancedSocketService.isSocketConnected();
-      if (isConnected && !connected) {
-        updateConnectionStatus('Connection lost, reconnecting...', false);
-        handleReconnect();
+    const removeStateListener = socketManager.onStateChange(state => {
+      switch (state) {
+        case 'reconnecting':
+          wasInterrupted = true;
+          updateConnectionStatus('Connection lost, reconnecting...', false);
+          break;
+        case 'connected':
+          if (!wasInterrupted) break;
+          wasInterrupted = false;
+          setError(null);
+          updateConnectionStatus('Connected to chat room', true);
+          break;
+        case 'failed':
+          wasInterrupted = true;
+          updateConnectionStatus('Max reconnection attempts reached', false);
+          setError('Failed to connect after multiple attempts');
+          break;
       }
-    }, 10000);
+    });
     
-    return () => {
-      clearInterval(interval);
-    };
-  }, [autoConnect, connectAndJoin, handleReconnect, isConnected, updateConnectionStatus]);
+    return removeStateListener;
+  }, [updateConnectionStatus]);
   
   // Cleanup on unmount
   useEffect(() => {
@@ -1,7 +1,10 @@
 import React, { useState, useCallback } from 'react';
 import { View, TextInput, TouchableOpacity, ActivityIndicator, StyleSheet, Text, Platform } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import * as enhancedSocketService from '../services/enhancedSocketService';
+import { sendChatMessage } from '../services/socketService';
+import { chatService } from '../services/chatService';
+import { TemplateContext, buildTemplateContext } from '../services/templateService';
+import MessageTemplatePicker from './MessageTemplatePicker';
 
 interface ChatMessageSenderProps {
   chatId?: string;
@@ -10,6 +13,9 @@ interface ChatMessageSenderProps {
   onError?: (error: string) => void;
   placeholder?: string;
   disabled?: boolean;
+  // Values for template placeholders; loaded from the chat when not given
+  templateContext?: TemplateContext;
+  onManageTemplates?: () => void;
 }
 
 /**
@@ -22,11 +28,30 @@ const ChatMessageSender: React.FC<ChatMessageSenderProps> = ({
   onMessageSent,
   onError,
   placeholder = 'Type a message...',
-  disabled = false
+  disabled = false,
+  templateContext,
+  onManageTemplates
 }) => {
   const [message, setMessage] = useState<string>('');
   const [isSending, setIsSending] = useState<boolean>(false);
   const [sendError, setSendError] = useState<string | null>(null);
+  const [showTemplates, setShowTemplates] = useState<boolean>(false);
+  const [loadedContext, setLoadedContext] = useState<TemplateContext>({});
+  
+  // Look up the client and booking once, the first time templates are opened
+  const openTemplates = useCallback(async () => {
+    setShowTemplates(true);
+    if (templateContext || loadedContext.userName || (!chatId && !bookingId)) return;
+    
+    try {
+      const chat = chatId
+        ? await chatService.getChatById(chatId)
+        : await chatService.getChatByBookingId(bookingId || '');
+      setLoadedContext(buildTemplateContext(chat?.data || chat));
+    } catch (error) {
+      console.error('Error loading chat for templates:', error);
+    }
+  }, [templateContext, loadedContext, chatId, bookingId]);
   
   // Send message with enhanced reliability
   const sendMessage = useCallback(async () => {
@@ -47,8 +72,8 @@ const ChatMessageSender: React.FC<ChatMessageSenderProps> = ({
     setIsSending(true);
     
     try {
-      // Send message using enhanced socket service
-      const result = await enhancedSocketService.sendChatMessage(
+      // Send message over HTTP, falling back to the socket
+      const result = await sendChatMessage(
         chatId || '',
         bookingId || '',
         messageText
@@ -85,6 +110,13 @@ const ChatMessageSender: React.FC<ChatMessageSenderProps> = ({
       )}
       
       <View style={styles.inputContainer}>
+        <TouchableOpacity
+          style={styles.templateButton}
+          onPress={openTemplates}
+          disabled={disabled || isSending}
+        >
+          <Ionicons name="chatbox-ellipses-outline" size={22} color="#666" />
+        </TouchableOpacity>
         <TextInput
           style={styles.input}
           value={message}
@@ -113,6 +145,14 @@ const ChatMessageSender: React.FC<ChatMessageSenderProps> = ({
           )}
         </TouchableOpacity>
       </View>
+      
+      <MessageTemplatePicker
+        visible={showTemplates}
+        context={templateContext || loadedContext}
+        onSelect={setMessage}
+        onClose={() => setShowTemplates(false)}
+        onManageTemplates={onManageTemplates}
+      />
     </View>
   );
 };
@@ -139,6 +179,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'flex-end'
   },
+  templateButton: {
+    height: 40,
+    justifyContent: 'center',
+    paddingRight: 8
+  },
   input: {
     flex: 1,
     minHeight: 40,
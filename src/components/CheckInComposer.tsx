@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { FollowUp, getCheckInMessage, sendCheckIn } from '../services/followUpService';
+import { getUnfilledPlaceholders } from '../services/templateService';
+
+interface CheckInComposerProps {
+  visible: boolean;
+  followUp: FollowUp;
+  onClose: () => void;
+}
+
+/**
+ * Bottom sheet for reviewing and editing a check-in message before it is sent
+ * The template can have placeholders the follow-up has no value for, so it is never sent unseen
+ */
+const CheckInComposer: React.FC<CheckInComposerProps> = ({ visible, followUp, onClose }) => {
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setLoading(true);
+    getCheckInMessage(followUp)
+      .then(setMessage)
+      .finally(() => setLoading(false));
+  }, [visible, followUp]);
+
+  const unfilled = getUnfilledPlaceholders(message);
+  const canSend = !loading && !sending && message.trim().length > 0 && unfilled.length === 0;
+
+  const handleSend = async () => {
+    try {
+      setSending(true);
+      await sendCheckIn(followUp, message.trim());
+      onClose();
+    } catch (error: any) {
+      Alert.alert('Could not send check-in', error.message || 'Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Check in with {followUp.userName}</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Ionicons name="close" size={22} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.body}>
+          {loading ? (
+            <ActivityIndicator color="#6366f1" />
+          ) : (
+            <TextInput
+              style={styles.input}
+              value={message}
+              onChangeText={setMessage}
+              multiline
+              autoFocus
+            />
+          )}
+
+          {unfilled.length > 0 && (
+            <Text style={styles.warningText}>
+              Replace or remove {unfilled.join(', ')} before sending.
+            </Text>
+          )}
+
+          <TouchableOpacity
+            style={[styles.sendButton, !canSend && styles.sendButtonDisabled]}
+            onPress={handleSend}
+            disabled={!canSend}
+          >
+            {sending ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.sendText}>Send check-in</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  body: {
+    padding: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1f2937',
+    backgroundColor: '#f9fafb',
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#b45309',
+    marginTop: 6,
+  },
+  sendButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  sendButtonDisabled: {
+    backgroundColor: '#a5b4fc',
+  },
+  sendText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
+
+export default CheckInComposer;
@@ -0,0 +1,343 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import {
+  ClientNote,
+  ClientNoteCategory,
+  NOTE_CATEGORIES,
+  addNote,
+  deleteNote,
+  getCachedNotes,
+  subscribeToClientNotes,
+  syncClientNotes,
+  updateNote
+} from '../services/clientNotesService';
+
+interface ClientNotesPanelProps {
+  visible: boolean;
+  userId?: string;
+  userName?: string;
+  // New notes are tagged with this consultation
+  bookingId?: string;
+  onClose: () => void;
+}
+
+const getCategory = (key: ClientNoteCategory) =>
+  NOTE_CATEGORIES.find(category => category.key === key) || NOTE_CATEGORIES[NOTE_CATEGORIES.length - 1];
+
+/**
+ * Bottom sheet with the astrologer's private notes on a client, newest first
+ */
+const ClientNotesPanel: React.FC<ClientNotesPanelProps> = ({ visible, userId, userName, bookingId, onClose }) => {
+  const [notes, setNotes] = useState<ClientNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [text, setText] = useState('');
+  const [category, setCategory] = useState<ClientNoteCategory>('general');
+  // Note being edited in the input, if any
+  const [editingNote, setEditingNote] = useState<ClientNote | null>(null);
+
+  useEffect(() => {
+    if (!visible || !userId) return;
+
+    // Show the device's copy straight away, then merge in the server's
+    getCachedNotes(userId).then(cached => {
+      setNotes(cached);
+      setLoading(false);
+    });
+    syncClientNotes(userId).then(setNotes);
+
+    return subscribeToClientNotes((changedUserId, changed) => {
+      if (changedUserId === userId) setNotes(changed);
+    });
+  }, [visible, userId]);
+
+  const resetInput = () => {
+    setText('');
+    setCategory('general');
+    setEditingNote(null);
+  };
+
+  const handleSave = async () => {
+    if (!userId) return;
+
+    try {
+      if (editingNote) {
+        await updateNote(userId, editingNote.id, { text, category });
+      } else {
+        await addNote(userId, text, category, bookingId);
+      }
+      resetInput();
+    } catch (error: any) {
+      Alert.alert('Cannot save note', error.message || 'Please try again.');
+    }
+  };
+
+  const startEditing = (note: ClientNote) => {
+    setEditingNote(note);
+    setText(note.text);
+    setCategory(note.category);
+  };
+
+  const confirmDelete = (note: ClientNote) => {
+    if (!userId) return;
+
+    Alert.alert('Delete note', 'This note will be removed from all your devices.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          if (editingNote?.id === note.id) resetInput();
+          deleteNote(userId, note.id);
+        }
+      }
+    ]);
+  };
+
+  const renderNote = ({ item }: { item: ClientNote }) => {
+    const noteCategory = getCategory(item.category);
+    const wasEdited = item.updatedAt !== item.createdAt;
+
+    return (
+      <View style={styles.noteRow}>
+        <View style={styles.noteHeader}>
+          <Ionicons name={noteCategory.icon as any} size={14} color="#6366f1" />
+          <Text style={styles.noteCategory}>{noteCategory.label}</Text>
+          <Text style={styles.noteTime}>
+            {format(new Date(item.createdAt), 'd MMM yyyy, HH:mm')}
+            {wasEdited ? ' · edited' : ''}
+          </Text>
+          {item.pending && <Ionicons name="cloud-offline-outline" size={14} color="#9ca3af" />}
+        </View>
+        <Text style={styles.noteText}>{item.text}</Text>
+        <View style={styles.noteActions}>
+          {!!bookingId && item.bookingId === bookingId && <Text style={styles.thisSession}>This session</Text>}
+          <TouchableOpacity onPress={() => startEditing(item)}>
+            <Text style={styles.linkText}>Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => confirmDelete(item)}>
+            <Text style={styles.deleteText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={styles.sheet}>
+        <View style={styles.header}>
+          <View>
+            <Text style={styles.headerTitle}>Private notes</Text>
+            {!!userName && <Text style={styles.headerSubtitle}>{userName} · only visible to you</Text>}
+          </View>
+          <TouchableOpacity onPress={onClose}>
+            <Ionicons name="close" size={22} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        {!userId ? (
+          <Text style={styles.emptyText}>Client details are still loading</Text>
+        ) : loading ? (
+          <ActivityIndicator style={styles.loading} color="#6366f1" />
+        ) : (
+          <FlatList
+            data={notes}
+            keyExtractor={item => item.id}
+            renderItem={renderNote}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={<Text style={styles.emptyText}>No notes on this client yet</Text>}
+          />
+        )}
+
+        {!!userId && (
+          <View style={styles.composer}>
+            <View style={styles.categoryRow}>
+              {NOTE_CATEGORIES.map(option => (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[styles.categoryChip, category === option.key && styles.categoryChipSelected]}
+                  onPress={() => setCategory(option.key)}
+                >
+                  <Text style={[styles.categoryText, category === option.key && styles.categoryTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.input}
+                value={text}
+                onChangeText={setText}
+                placeholder={editingNote ? 'Edit note' : 'Add a note'}
+                multiline
+              />
+              {editingNote && (
+                <TouchableOpacity style={styles.iconButton} onPress={resetInput}>
+                  <Ionicons name="close-circle-outline" size={24} color="#6b7280" />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.iconButton} onPress={handleSave} disabled={!text.trim()}>
+                <Ionicons name="checkmark-circle" size={28} color={text.trim() ? '#6366f1' : '#d1d5db'} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  sheet: {
+    maxHeight: '75%',
+    backgroundColor: 'white',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#6b7280',
+    paddingVertical: 24,
+  },
+  noteRow: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  noteHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  noteCategory: {
+    marginLeft: 4,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  noteTime: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  noteText: {
+    fontSize: 14,
+    color: '#1f2937',
+    marginTop: 4,
+  },
+  noteActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  thisSession: {
+    flex: 1,
+    fontSize: 11,
+    color: '#10b981',
+  },
+  linkText: {
+    color: '#6366f1',
+    fontSize: 13,
+    marginLeft: 16,
+  },
+  deleteText: {
+    color: '#ef4444',
+    fontSize: 13,
+    marginLeft: 16,
+  },
+  composer: {
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  categoryChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  categoryChipSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  categoryText: {
+    fontSize: 12,
+    color: '#4b5563',
+  },
+  categoryTextSelected: {
+    color: 'white',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    maxHeight: 100,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1f2937',
+    backgroundColor: '#f9fafb',
+  },
+  iconButton: {
+    marginLeft: 8,
+  },
+});
+
+export default ClientNotesPanel;
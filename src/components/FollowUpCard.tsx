@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { format, isPast, isToday } from 'date-fns';
+import { FollowUp, completeFollowUp, deleteFollowUp } from '../services/followUpService';
+import CheckInComposer from './CheckInComposer';
+
+interface FollowUpCardProps {
+  followUp: FollowUp;
+  // Show a remove button, e.g. on the full follow-up list
+  removable?: boolean;
+}
+
+/**
+ * A follow-up with shortcuts to the client's chat and a templated check-in
+ */
+const FollowUpCard: React.FC<FollowUpCardProps> = ({ followUp, removable }) => {
+  const navigation = useNavigation<any>();
+  const [composerVisible, setComposerVisible] = useState(false);
+
+  const dueAt = new Date(followUp.dueAt);
+  const overdue = isPast(dueAt) && !isToday(dueAt);
+
+  const openChat = () => {
+    navigation.navigate('Chat', { chatId: followUp.chatId, bookingId: followUp.bookingId });
+  };
+
+  const confirmRemove = () => {
+    Alert.alert('Remove follow-up', `Stop reminding you about ${followUp.userName}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => deleteFollowUp(followUp.id) }
+    ]);
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Ionicons name="alarm-outline" size={18} color={overdue ? '#ef4444' : '#6366f1'} />
+        <Text style={styles.userName}>{followUp.userName}</Text>
+        <Text style={[styles.dueText, overdue && styles.overdueText]}>
+          {isToday(dueAt) ? 'Today' : format(dueAt, 'd MMM')}
+          {overdue ? ' · overdue' : ''}
+        </Text>
+        {removable && (
+          <TouchableOpacity onPress={confirmRemove} style={styles.removeButton}>
+            <Ionicons name="close" size={18} color="#9ca3af" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {!!followUp.note && <Text style={styles.note}>{followUp.note}</Text>}
+      {!!followUp.bookingDate && (
+        <Text style={styles.meta}>
+          From the {followUp.consultationType || ''} consultation on {format(new Date(followUp.bookingDate), 'd MMM yyyy')}
+        </Text>
+      )}
+
+      <View style={styles.actions}>
+        {followUp.chatId ? (
+          <>
+            <TouchableOpacity style={styles.actionButton} onPress={openChat}>
+              <Ionicons name="chatbubble-outline" size={16} color="#6366f1" />
+              <Text style={styles.actionText}>Open chat</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => setComposerVisible(true)}>
+              <Ionicons name="send-outline" size={16} color="#6366f1" />
+              <Text style={styles.actionText}>Send check-in</Text>
+            </TouchableOpacity>
+          </>
+        ) : null}
+        <TouchableOpacity style={styles.actionButton} onPress={() => completeFollowUp(followUp.id)}>
+          <Ionicons name="checkmark-done-outline" size={16} color="#10b981" />
+          <Text style={[styles.actionText, styles.doneText]}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      {!!followUp.chatId && (
+        <CheckInComposer
+          visible={composerVisible}
+          followUp={followUp}
+          onClose={() => setComposerVisible(false)}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: '#f3f4f6',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  userName: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  dueText: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  overdueText: {
+    color: '#ef4444',
+  },
+  removeButton: {
+    marginLeft: 8,
+  },
+  note: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 6,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  actionText: {
+    marginLeft: 4,
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6366f1',
+  },
+  doneText: {
+    color: '#10b981',
+  },
+});
+
+export default FollowUpCard;
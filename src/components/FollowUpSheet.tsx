@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import {
+  FOLLOW_UP_PRESETS,
+  FOLLOW_UP_REMINDER_HOUR,
+  NewFollowUp,
+  getFollowUpDueDate,
+  scheduleFollowUp,
+  validateFollowUp
+} from '../services/followUpService';
+
+interface FollowUpSheetProps {
+  visible: boolean;
+  // Client and consultation the follow-up is for; everything except the due time and note
+  followUp: Omit<NewFollowUp, 'dueAt' | 'note'> | null;
+  onClose: () => void;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A YYYY-MM-DD date at the reminder hour
+const parseDateInput = (value: string): Date | null => {
+  if (!DATE_PATTERN.test(value.trim())) return null;
+  const date = new Date(`${value.trim()}T00:00:00`);
+  if (isNaN(date.getTime())) return null;
+  date.setHours(FOLLOW_UP_REMINDER_HOUR, 0, 0, 0);
+  return date;
+};
+
+/**
+ * Bottom sheet for promising a client a follow-up
+ */
+const FollowUpSheet: React.FC<FollowUpSheetProps> = ({ visible, followUp, onClose }) => {
+  const [presetDays, setPresetDays] = useState<number | null>(FOLLOW_UP_PRESETS[2].days);
+  const [customDate, setCustomDate] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setPresetDays(FOLLOW_UP_PRESETS[2].days);
+    setCustomDate('');
+    setNote('');
+  }, [visible]);
+
+  const dueDate = presetDays !== null ? getFollowUpDueDate(presetDays) : parseDateInput(customDate);
+
+  const handleSave = async () => {
+    if (!followUp) return;
+
+    const input: NewFollowUp = { ...followUp, dueAt: dueDate ? dueDate.toISOString() : '', note };
+    const error = validateFollowUp(input);
+    if (error) {
+      Alert.alert('Cannot schedule follow-up', error);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await scheduleFollowUp(input);
+      onClose();
+      if (!saved.notificationId) {
+        Alert.alert(
+          'Follow-up saved',
+          'Notifications are off, so it will only show on your home screen when it is due.'
+        );
+      }
+    } catch (err: any) {
+      Alert.alert('Cannot schedule follow-up', err.message || 'Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>
+            Follow up{followUp?.userName ? ` with ${followUp.userName}` : ''}
+          </Text>
+          <TouchableOpacity onPress={onClose}>
+            <Ionicons name="close" size={22} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.body}>
+          <View style={styles.chipRow}>
+            {FOLLOW_UP_PRESETS.map(preset => (
+              <TouchableOpacity
+                key={preset.days}
+                style={[styles.chip, presetDays === preset.days && styles.chipSelected]}
+                onPress={() => setPresetDays(preset.days)}
+              >
+                <Text style={[styles.chipText, presetDays === preset.days && styles.chipTextSelected]}>
+                  {preset.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={[styles.chip, presetDays === null && styles.chipSelected]}
+              onPress={() => setPresetDays(null)}
+            >
+              <Text style={[styles.chipText, presetDays === null && styles.chipTextSelected]}>Pick a date</Text>
+            </TouchableOpacity>
+          </View>
+
+          {presetDays === null && (
+            <TextInput
+              style={styles.input}
+              value={customDate}
+              onChangeText={setCustomDate}
+              placeholder="YYYY-MM-DD"
+              keyboardType="numbers-and-punctuation"
+            />
+          )}
+
+          <Text style={styles.dueText}>
+            {dueDate ? `Reminder on ${format(dueDate, 'EEE d MMM yyyy, HH:mm')}` : 'Enter the date as YYYY-MM-DD'}
+          </Text>
+
+          <TextInput
+            style={[styles.input, styles.noteInput]}
+            value={note}
+            onChangeText={setNote}
+            placeholder="What to check on (optional)"
+            multiline
+          />
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving || !dueDate}>
+            {saving ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.saveText}>Schedule follow-up</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  body: {
+    padding: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#4b5563',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1f2937',
+    backgroundColor: '#f9fafb',
+    marginTop: 6,
+  },
+  noteInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  dueText: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 6,
+  },
+  saveButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  saveText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
+
+export default FollowUpSheet;
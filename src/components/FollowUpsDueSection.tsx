@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import {
+  FollowUp,
+  getFollowUps,
+  getFollowUpsDueToday,
+  subscribeToFollowUps
+} from '../services/followUpService';
+import FollowUpCard from './FollowUpCard';
+
+// Cards shown on the home screen; the rest are on the follow-ups screen
+const MAX_VISIBLE = 3;
+
+/**
+ * Home screen list of follow-ups due today, including overdue ones
+ */
+const FollowUpsDueSection: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const [dueToday, setDueToday] = useState<FollowUp[]>([]);
+
+  useEffect(() => {
+    getFollowUps().then(list => setDueToday(getFollowUpsDueToday(list)));
+    return subscribeToFollowUps(list => setDueToday(getFollowUpsDueToday(list)));
+  }, []);
+
+  if (dueToday.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.titleContainer}>
+          <Ionicons name="alarm" size={20} color="#6366f1" />
+          <Text style={styles.title}>Follow-ups due today</Text>
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>{dueToday.length}</Text>
+          </View>
+        </View>
+        <TouchableOpacity onPress={() => navigation.navigate('FollowUps')}>
+          <Text style={styles.viewAll}>View All</Text>
+        </TouchableOpacity>
+      </View>
+
+      {dueToday.slice(0, MAX_VISIBLE).map(followUp => (
+        <FollowUpCard key={followUp.id} followUp={followUp} />
+      ))}
+
+      {dueToday.length > MAX_VISIBLE && (
+        <TouchableOpacity style={styles.viewMoreButton} onPress={() => navigation.navigate('FollowUps')}>
+          <Text style={styles.viewMoreText}>View {dueToday.length - MAX_VISIBLE} more follow-ups</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+    paddingHorizontal: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginLeft: 8,
+  },
+  badge: {
+    backgroundColor: '#6366f1',
+    borderRadius: 10,
+    minWidth: 20,
+    height: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 6,
+    marginLeft: 8,
+  },
+  badgeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  viewAll: {
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  viewMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  viewMoreText: {
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+});
+
+export default FollowUpsDueSection;
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef } from 'react';
+import { View, StyleSheet, AppState, AppStateStatus } from 'react-native';
+import { usePresence } from '../contexts/PresenceContext';
+import { AVAILABILITY } from '../config/index';
+import { cancelAwayTimeout, scheduleAwayTimeout } from '../services/presenceService';
+
+// Only log in development mode
+const isDev = __DEV__;
+
+const IDLE_TIMEOUT_MS = AVAILABILITY.IDLE_TIMEOUT_MINUTES * 60 * 1000;
+// How often to check whether the idle timeout has passed
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000;
+
+interface IdleActivityMonitorProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Takes an online astrologer offline after a period without touches or while the
+ * app sits in the background, and puts them back online as soon as they touch the app again.
+ * While in the background the backend takes them offline, since our timers don't run there.
+ */
+const IdleActivityMonitor: React.FC<IdleActivityMonitorProps> = ({ children }) => {
+  const { status, setStatus } = usePresence();
+  const statusRef = useRef(status);
+  const lastActivityRef = useRef(Date.now());
+  // When the app last went to the background, until it comes back
+  const backgroundedAtRef = useRef<number | null>(null);
+  // Whether the current offline status was set by us rather than the astrologer
+  const autoAwayRef = useRef(false);
+
+  useEffect(() => {
+    statusRef.current = status;
+
+    // Any status other than offline means we're no longer responsible for it
+    if (status !== 'offline') {
+      autoAwayRef.current = false;
+    }
+  }, [status]);
+
+  const goAway = async () => {
+    autoAwayRef.current = true;
+    if (isDev) console.log('[Idle] No activity, switching to offline');
+
+    try {
+      await setStatus('offline');
+    } catch (error) {
+      console.error('Error switching to offline after inactivity:', error);
+      autoAwayRef.current = false;
+    }
+  };
+
+  const restore = async () => {
+    autoAwayRef.current = false;
+    if (isDev) console.log('[Idle] Activity detected, restoring online status');
+
+    try {
+      await setStatus('online');
+    } catch (error) {
+      console.error('Error restoring online status:', error);
+    }
+  };
+
+  const recordActivity = () => {
+    lastActivityRef.current = Date.now();
+
+    if (autoAwayRef.current) {
+      restore();
+    }
+  };
+
+  const checkIdle = (idleSince: number = lastActivityRef.current) => {
+    // Busy astrologers are in a consultation and offline ones are already away
+    if (statusRef.current !== 'online' || autoAwayRef.current) return;
+
+    if (Date.now() - idleSince >= IDLE_TIMEOUT_MS) {
+      goAway();
+    }
+  };
+
+  // Periodically check for inactivity
+  useEffect(() => {
+    const intervalId = setInterval(() => checkIdle(), IDLE_CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  // Time in the background counts as idle; coming back only counts as activity once they touch the app
+  useEffect(() => {
+    const handleAppStateChange = (nextState: AppStateStatus) => {
+      if (nextState === 'background' && backgroundedAtRef.current === null) {
+        backgroundedAtRef.current = Date.now();
+        scheduleAwayTimeout(IDLE_TIMEOUT_MS);
+      } else if (nextState === 'active' && backgroundedAtRef.current !== null) {
+        const backgroundedAt = backgroundedAtRef.current;
+        backgroundedAtRef.current = null;
+        cancelAwayTimeout();
+        // Catches up with the backend if it already took them offline
+        checkIdle(backgroundedAt);
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription.remove();
+  }, []);
+
+  return (
+    <View
+      style={styles.container}
+      onStartShouldSetResponderCapture={() => {
+        // Observe touches without stealing them from the app
+        recordActivity();
+        return false;
+      }}
+    >
+      {children}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
+
+export default IdleActivityMonitor;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Modal, View, Image, TouchableOpacity, StyleSheet, StatusBar } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface ImageViewerModalProps {
+  visible: boolean;
+  imageUrl: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen viewer for images sent in chat
+ */
+const ImageViewerModal: React.FC<ImageViewerModalProps> = ({ visible, imageUrl, onClose }) => (
+  <Modal visible={visible && !!imageUrl} transparent animationType="fade" onRequestClose={onClose}>
+    <StatusBar barStyle="light-content" backgroundColor="black" />
+    <View style={styles.container}>
+      {imageUrl && <Image source={{ uri: imageUrl }} style={styles.image} resizeMode="contain" />}
+      <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+        <Ionicons name="close" size={28} color="white" />
+      </TouchableOpacity>
+    </View>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'black',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 48,
+    right: 16,
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+});
+
+export default ImageViewerModal;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BookingRequest, getResponseDeadline } from '../services/bookingRequestService';
+import RequestCountdown from './RequestCountdown';
+
+interface IncomingCallRequestProps {
+  bookingRequest: BookingRequest;
+  userName: string;
+  isLoading: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+  onSilence: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Full-screen, call-style presentation for voice and video booking requests,
+ * since the user is waiting live on the other end
+ */
+const IncomingCallRequest: React.FC<IncomingCallRequestProps> = ({
+  bookingRequest,
+  userName,
+  isLoading,
+  onAccept,
+  onReject,
+  onSilence,
+  onDismiss
+}) => {
+  const [isSilenced, setIsSilenced] = useState(false);
+  const isVideo = bookingRequest.consultationType === 'video';
+
+  const handleSilence = () => {
+    setIsSilenced(true);
+    onSilence();
+  };
+
+  return (
+    <Modal
+      visible={true}
+      animationType="slide"
+      statusBarTranslucent={true}
+      onRequestClose={onDismiss}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.label}>
+            Incoming {isVideo ? 'video' : 'voice'} call request
+          </Text>
+          <RequestCountdown deadline={getResponseDeadline(bookingRequest)} />
+        </View>
+
+        <View style={styles.callerInfo}>
+          <View style={styles.avatar}>
+            <Ionicons name={isVideo ? 'videocam' : 'call'} size={48} color="white" />
+          </View>
+          <Text style={styles.callerName}>{userName}</Text>
+          <Text style={styles.amount}>₹{bookingRequest.amount}</Text>
+        </View>
+
+        <TouchableOpacity
+          style={styles.silenceButton}
+          onPress={handleSilence}
+          disabled={isSilenced}
+        >
+          <Ionicons name={isSilenced ? 'volume-mute' : 'volume-high'} size={18} color="#d1d5db" />
+          <Text style={styles.silenceText}>{isSilenced ? 'Silenced' : 'Silence'}</Text>
+        </TouchableOpacity>
+
+        <View style={styles.actions}>
+          {isLoading ? (
+            <ActivityIndicator size="large" color="white" />
+          ) : (
+            <>
+              <View style={styles.actionItem}>
+                <TouchableOpacity style={[styles.actionButton, styles.rejectButton]} onPress={onReject}>
+                  <Ionicons name="call" size={32} color="white" style={styles.hangupIcon} />
+                </TouchableOpacity>
+                <Text style={styles.actionLabel}>Decline</Text>
+              </View>
+              <View style={styles.actionItem}>
+                <TouchableOpacity style={[styles.actionButton, styles.acceptButton]} onPress={onAccept}>
+                  <Ionicons name={isVideo ? 'videocam' : 'call'} size={32} color="white" />
+                </TouchableOpacity>
+                <Text style={styles.actionLabel}>Accept</Text>
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1f2937',
+    justifyContent: 'space-between',
+    paddingTop: 80,
+    paddingBottom: 60,
+  },
+  header: {
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 16,
+    color: '#d1d5db',
+    marginBottom: 12,
+  },
+  callerInfo: {
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  callerName: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  amount: {
+    fontSize: 18,
+    color: '#10b981',
+    marginTop: 8,
+  },
+  silenceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#374151',
+  },
+  silenceText: {
+    marginLeft: 6,
+    color: '#d1d5db',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingHorizontal: 40,
+  },
+  actionItem: {
+    alignItems: 'center',
+  },
+  actionButton: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  acceptButton: {
+    backgroundColor: '#10b981',
+  },
+  rejectButton: {
+    backgroundColor: '#ef4444',
+  },
+  hangupIcon: {
+    transform: [{ rotate: '135deg' }],
+  },
+  actionLabel: {
+    marginTop: 8,
+    color: '#d1d5db',
+  },
+});
+
+export default IncomingCallRequest;
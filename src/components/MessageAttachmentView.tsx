@@ -0,0 +1,118 @@
+import React from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet, Linking, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import VoiceNotePlayer from './VoiceNotePlayer';
+
+interface Attachment {
+  type: string;
+  url: string;
+  // Not every sender includes it, so rely on type first
+  mimetype?: string;
+  name?: string;
+  size?: number;
+  duration?: number;
+}
+
+interface MessageAttachmentViewProps {
+  attachment: Attachment;
+  // Fraction uploaded while the message is still being sent
+  uploadProgress?: number;
+  onImagePress?: (url: string) => void;
+}
+
+const formatFileSize = (bytes?: number) => {
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Shows an image thumbnail, a voice note player or a document row inside a chat bubble
+ */
+const MessageAttachmentView: React.FC<MessageAttachmentViewProps> = ({ attachment, uploadProgress, onImagePress }) => {
+  const isUploading = uploadProgress !== undefined && uploadProgress < 1;
+  const isImage = attachment.type === 'image' || attachment.mimetype?.startsWith('image/');
+  const isAudio = attachment.type === 'audio' || attachment.mimetype?.startsWith('audio/');
+
+  const openDocument = async () => {
+    try {
+      await Linking.openURL(attachment.url);
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      Alert.alert('Error', 'Could not open this file.');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {isAudio ? (
+        <VoiceNotePlayer url={attachment.url} duration={attachment.duration} />
+      ) : isImage ? (
+        <TouchableOpacity onPress={() => onImagePress?.(attachment.url)} disabled={isUploading}>
+          <Image source={{ uri: attachment.url }} style={styles.thumbnail} resizeMode="cover" />
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity style={styles.fileRow} onPress={openDocument} disabled={isUploading}>
+          <Ionicons name="document-text-outline" size={28} color="#6366f1" />
+          <View style={styles.fileInfo}>
+            <Text style={styles.fileName} numberOfLines={1}>{attachment.name || 'Document'}</Text>
+            <Text style={styles.fileSize}>{formatFileSize(attachment.size) || 'PDF'}</Text>
+          </View>
+        </TouchableOpacity>
+      )}
+
+      {isUploading && (
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${Math.round(uploadProgress * 100)}%` }]} />
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 4,
+  },
+  thumbnail: {
+    width: 200,
+    height: 200,
+    borderRadius: 8,
+    backgroundColor: '#e5e7eb',
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    minWidth: 180,
+  },
+  fileInfo: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  fileName: {
+    fontSize: 14,
+    color: '#1f2937',
+    fontWeight: '500',
+  },
+  fileSize: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e5e7eb',
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: '#6366f1',
+  },
+});
+
+export default MessageAttachmentView;
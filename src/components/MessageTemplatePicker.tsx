@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, View, Text, TouchableOpacity, FlatList, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  MessageTemplate,
+  TemplateContext,
+  fillTemplate,
+  getCachedTemplates,
+  getTemplates,
+  subscribeToTemplates
+} from '../services/templateService';
+
+interface MessageTemplatePickerProps {
+  visible: boolean;
+  context: TemplateContext;
+  // Called with the template text, placeholders already filled in
+  onSelect: (text: string) => void;
+  onClose: () => void;
+  onManageTemplates?: () => void;
+}
+
+/**
+ * Bottom sheet listing the astrologer's canned replies
+ */
+const MessageTemplatePicker: React.FC<MessageTemplatePickerProps> = ({
+  visible,
+  context,
+  onSelect,
+  onClose,
+  onManageTemplates
+}) => {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    // Show the local copy straight away, then refresh from the profile
+    getCachedTemplates().then(cached => {
+      setTemplates(cached);
+      setLoading(false);
+    });
+    getTemplates().then(setTemplates);
+
+    return subscribeToTemplates(setTemplates);
+  }, [visible]);
+
+  const renderTemplate = ({ item }: { item: MessageTemplate }) => (
+    <TouchableOpacity
+      style={styles.templateRow}
+      onPress={() => {
+        onSelect(fillTemplate(item.body, context));
+        onClose();
+      }}
+    >
+      <Text style={styles.templateTitle}>{item.title}</Text>
+      <Text style={styles.templateBody} numberOfLines={2}>{fillTemplate(item.body, context)}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+      <View style={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Quick replies</Text>
+          {onManageTemplates && (
+            <TouchableOpacity
+              onPress={() => {
+                onClose();
+                onManageTemplates();
+              }}
+            >
+              <Text style={styles.manageText}>Manage</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} color="#6366f1" />
+        ) : (
+          <FlatList
+            data={templates}
+            keyExtractor={item => item.id}
+            renderItem={renderTemplate}
+            ListEmptyComponent={
+              <View style={styles.empty}>
+                <Ionicons name="document-text-outline" size={32} color="#9ca3af" />
+                <Text style={styles.emptyText}>No templates yet</Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  sheet: {
+    maxHeight: '60%',
+    backgroundColor: 'white',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  manageText: {
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  templateRow: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  templateTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  templateBody: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  emptyText: {
+    marginTop: 8,
+    color: '#6b7280',
+  },
+});
+
+export default MessageTemplatePicker;
@@ -1,7 +1,8 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { BookingRequest } from '../services/bookingRequestService';
+import { BookingRequest, getResponseDeadline } from '../services/bookingRequestService';
+import RequestCountdown from './RequestCountdown';
 
 interface NewBookingRequestCardProps {
   bookingRequest: BookingRequest;
@@ -65,6 +66,11 @@ const NewBookingRequestCard: React.FC<NewBookingRequestCardProps> = ({
         </View>
       </View>
       
+      <View style={styles.detailRow}>
+        <Text style={styles.detailLabel}>Respond within:</Text>
+        <RequestCountdown deadline={getResponseDeadline(bookingRequest)} compact />
+      </View>
+      
       <View style={styles.detailRow}>
         <Text style={styles.detailLabel}>Amount:</Text>
         <Text style={styles.amount}>₹{bookingRequest.amount}</Text>
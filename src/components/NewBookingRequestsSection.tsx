@@ -12,7 +12,9 @@ const NewBookingRequestsSection: React.FC = () => {
     acceptBooking, 
     rejectBooking,
     refreshBookingRequests,
-    socketConnected
+    socketConnected,
+    missedRequestCount,
+    clearMissedRequests
   } = useBookingNotification();
   const navigation = useNavigation<any>();
 
@@ -30,8 +32,8 @@ const NewBookingRequestsSection: React.FC = () => {
     navigation.navigate('BookingRequestsTab');
   };
 
-  // Only show section if there are pending requests
-  if (pendingCount === 0) return null;
+  // Only show section if there are pending or missed requests
+  if (pendingCount === 0 && missedRequestCount === 0) return null;
 
   return (
     <View style={styles.container}>
@@ -61,6 +63,16 @@ const NewBookingRequestsSection: React.FC = () => {
         </View>
       </View>
 
+      {missedRequestCount > 0 && (
+        <TouchableOpacity style={styles.missedBanner} onPress={clearMissedRequests}>
+          <Ionicons name="alert-circle" size={18} color="#d97706" />
+          <Text style={styles.missedText}>
+            You missed {missedRequestCount} {missedRequestCount === 1 ? 'request' : 'requests'} that expired without a response
+          </Text>
+          <Ionicons name="close" size={16} color="#d97706" />
+        </TouchableOpacity>
+      )}
+
       <FlatList
         data={recentBookingRequests.slice(0, 3)} // Limit to 3 most recent
         keyExtractor={(item) => item._id}
@@ -158,6 +170,20 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  missedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fef3c7',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  missedText: {
+    flex: 1,
+    marginHorizontal: 8,
+    fontSize: 13,
+    color: '#92400e',
+  },
   emptyContainer: {
     padding: 20,
     alignItems: 'center',
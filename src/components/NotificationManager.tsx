@@ -0,0 +1,71 @@
+import { useEffect } from 'react';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { onNewBookingRequest, onNewChatMessage } from '../services/socketService';
+import {
+  NotificationTarget,
+  getLaunchNotificationTarget,
+  notifyBookingRequest,
+  notifyChatMessage,
+  onNotificationTap
+} from '../services/notificationService';
+import { RootStackParamList } from '../types/navigation';
+
+// Only log in development mode
+const isDev = __DEV__;
+
+// The launch notification stays readable for the whole process, so only act on it once
+let launchTargetHandled = false;
+
+/**
+ * Turns socket events into local notifications while the app is in the background,
+ * and opens the right screen when one is tapped. Must be rendered inside the navigator.
+ */
+const NotificationManager = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const openTarget = (target: NotificationTarget) => {
+    if (isDev) console.log('[Notifications] Opening notification target:', target);
+
+    switch (target.screen) {
+      case 'BookingRequests':
+        // The root stack registers the booking requests screen under this name
+        navigation.navigate('BookingRequestsTab');
+        break;
+      case 'FollowUps':
+        navigation.navigate('FollowUps');
+        break;
+      case 'Chat':
+        navigation.navigate('Chat', target.params);
+        break;
+    }
+  };
+
+  useEffect(() => {
+    const removeBookingListener = onNewBookingRequest(bookingData => {
+      notifyBookingRequest(bookingData);
+    });
+    const removeChatListener = onNewChatMessage(messageData => {
+      notifyChatMessage(messageData);
+    });
+    const removeTapListener = onNotificationTap(openTarget);
+
+    // The app may have been launched by tapping a notification
+    if (!launchTargetHandled) {
+      launchTargetHandled = true;
+      getLaunchNotificationTarget().then(target => {
+        if (target) openTarget(target);
+      });
+    }
+
+    return () => {
+      removeBookingListener();
+      removeChatListener();
+      removeTapListener();
+    };
+  }, []);
+
+  return null;
+};
+
+export default NotificationManager;
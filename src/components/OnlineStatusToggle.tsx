@@ -1,108 +1,46 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { View, Text, StyleSheet, Switch, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import axios from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_URL } from '../config';
+import { usePresence } from '../contexts/PresenceContext';
+import { PresenceStatus } from '../services/presenceService';
 
 interface OnlineStatusToggleProps {
-  // Optional initial status - if not provided, will be fetched from backend
-  initialStatus?: boolean;
   // Optional callback for when status changes
-  onStatusChange?: (isOnline: boolean) => void;
+  onStatusChange?: (status: PresenceStatus) => void;
   // Display variant - 'switch' for simple toggle or 'button' for a more prominent button
   variant?: 'switch' | 'button';
 }
 
+const STATUS_LABELS: Record<PresenceStatus, string> = {
+  online: 'Online',
+  busy: 'Busy',
+  offline: 'Offline'
+};
+
 const OnlineStatusToggle: React.FC<OnlineStatusToggleProps> = ({ 
-  initialStatus, 
   onStatusChange,
   variant = 'switch'
 }) => {
-  const [isOnline, setIsOnline] = useState<boolean>(initialStatus ?? false);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const { status, isLoading, setStatus } = usePresence();
   const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    // If no initial status is provided, get current status from backend
-    if (initialStatus === undefined) {
-      fetchCurrentStatus();
-    }
-  }, []);
-
-  const fetchCurrentStatus = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      // Get auth token from storage
-      const token = await AsyncStorage.getItem('authToken');
-      
-      if (!token) {
-        setError('Authentication required');
-        return;
-      }
-      
-      // Get current astrologer profile (to check isOnline status)
-      const response = await axios.get(`${API_URL}/astrologers/profile`, {
-        headers: { Authorization: `Bearer ${token}` }
-      });
-      
-      if (response.data && response.data.success) {
-        setIsOnline(response.data.data.isOnline);
-      } else {
-        setError('Could not fetch current status');
-      }
-    } catch (err) {
-      console.error('Error fetching astrologer status:', err);
-      setError('Failed to get current status');
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  // Busy still counts as online - the astrologer is just in a consultation
+  const isOnline = status !== 'offline';
+  const isBusy = status === 'busy';
 
   const toggleOnlineStatus = async () => {
     try {
-      setIsLoading(true);
       setError(null);
       
-      // Get auth token from storage
-      const token = await AsyncStorage.getItem('authToken');
+      const newStatus = await setStatus(isOnline ? 'offline' : 'online');
       
-      if (!token) {
-        setError('Authentication required');
-        return;
-      }
-      
-      // Call the API to toggle status
-      const response = await axios.post(
-        `${API_URL}/astrologers/toggle-online-status`,
-        {},  // Empty body, since toggle is handled on the server
-        {
-          headers: { Authorization: `Bearer ${token}` }
-        }
-      );
-      
-      if (response.data && response.data.success) {
-        // Update local state
-        setIsOnline(response.data.isOnline);
-        
-        // Call callback if provided
-        if (onStatusChange) {
-          onStatusChange(response.data.isOnline);
-        }
-        
-        // Show brief toast/alert
-        console.log(response.data.message);
-      } else {
-        setError('Failed to update status');
+      // Call callback if provided
+      if (onStatusChange) {
+        onStatusChange(newStatus);
       }
     } catch (err) {
       console.error('Error toggling online status:', err);
       setError('Failed to update status');
       Alert.alert('Error', 'Could not update your online status. Please try again.');
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -110,8 +48,11 @@ const OnlineStatusToggle: React.FC<OnlineStatusToggleProps> = ({
   if (variant === 'switch') {
     return (
       <View style={styles.switchContainer}>
-        <Text style={[styles.statusText, isOnline ? styles.onlineText : styles.offlineText]}>
-          {isOnline ? 'Online' : 'Offline'}
+        <Text style={[
+          styles.statusText,
+          isBusy ? styles.busyText : isOnline ? styles.onlineText : styles.offlineText
+        ]}>
+          {STATUS_LABELS[status]}
         </Text>
         
         {isLoading ? (
@@ -119,7 +60,7 @@ const OnlineStatusToggle: React.FC<OnlineStatusToggleProps> = ({
         ) : (
           <Switch
             trackColor={{ false: '#D1D5DB', true: '#C7D2FE' }}
-            thumbColor={isOnline ? '#6366f1' : '#9CA3AF'}
+            thumbColor={isBusy ? '#D97706' : isOnline ? '#6366f1' : '#9CA3AF'}
             ios_backgroundColor="#D1D5DB"
             onValueChange={toggleOnlineStatus}
             value={isOnline}
@@ -135,7 +76,7 @@ const OnlineStatusToggle: React.FC<OnlineStatusToggleProps> = ({
     <TouchableOpacity
       style={[
         styles.buttonContainer,
-        isOnline ? styles.onlineButton : styles.offlineButton,
+        isBusy ? styles.busyButton : isOnline ? styles.onlineButton : styles.offlineButton,
         isLoading && styles.disabledButton
       ]}
       onPress={toggleOnlineStatus}
@@ -147,7 +88,7 @@ const OnlineStatusToggle: React.FC<OnlineStatusToggleProps> = ({
         <>
           <View style={[styles.statusDot, isOnline ? styles.onlineDot : styles.offlineDot]} />
           <Text style={styles.buttonText}>
-            {isOnline ? 'Online' : 'Offline'}
+            {STATUS_LABELS[status]}
           </Text>
           <Ionicons
             name={isOnline ? 'radio' : 'radio-outline'}
@@ -178,6 +119,9 @@ const styles = StyleSheet.create({
   offlineText: {
     color: '#6B7280',
   },
+  busyText: {
+    color: '#D97706',
+  },
   buttonContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -193,6 +137,9 @@ const styles = StyleSheet.create({
   offlineButton: {
     backgroundColor: '#6B7280',
   },
+  busyButton: {
+    backgroundColor: '#D97706',
+  },
   disabledButton: {
     opacity: 0.7,
   },
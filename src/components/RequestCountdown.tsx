@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+// Below this many seconds the countdown turns red
+const URGENT_THRESHOLD_SECONDS = 30;
+
+interface RequestCountdownProps {
+  deadline: number; // Timestamp in milliseconds
+  compact?: boolean;
+}
+
+const getSecondsLeft = (deadline: number) => Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+
+/**
+ * Shows the time left to respond to a booking request
+ */
+const RequestCountdown: React.FC<RequestCountdownProps> = ({ deadline, compact = false }) => {
+  const [secondsLeft, setSecondsLeft] = useState(getSecondsLeft(deadline));
+
+  useEffect(() => {
+    setSecondsLeft(getSecondsLeft(deadline));
+
+    const intervalId = setInterval(() => {
+      const remaining = getSecondsLeft(deadline);
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        clearInterval(intervalId);
+      }
+    }, 1000);
+
+    return () => clearInterval(intervalId);
+  }, [deadline]);
+
+  const mins = Math.floor(secondsLeft / 60);
+  const secs = secondsLeft % 60;
+  const isUrgent = secondsLeft <= URGENT_THRESHOLD_SECONDS;
+  const color = isUrgent ? '#ef4444' : '#d97706';
+
+  return (
+    <View style={[styles.container, compact && styles.compact, { backgroundColor: isUrgent ? '#fee2e2' : '#fef3c7' }]}>
+      <Ionicons name="hourglass-outline" size={compact ? 12 : 14} color={color} />
+      <Text style={[styles.text, compact && styles.compactText, { color }]}>
+        {secondsLeft > 0
+          ? `${mins}:${secs.toString().padStart(2, '0')}${compact ? '' : ' left to respond'}`
+          : 'Expired'}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  compact: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  text: {
+    marginLeft: 4,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  compactText: {
+    fontSize: 11,
+  },
+});
+
+export default RequestCountdown;
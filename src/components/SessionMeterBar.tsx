@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, AppState, AppStateStatus } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  SessionBooking,
+  formatSessionTime,
+  getDueWarning,
+  getSessionMeter
+} from '../services/sessionMeterService';
+
+// Below this much time left the meter turns red
+const URGENT_THRESHOLD_MS = 60 * 1000;
+
+interface SessionMeterBarProps {
+  booking: SessionBooking;
+  starting?: boolean;
+  onStart: () => void;
+  // Called once per threshold as the session nears its end
+  onWarning: (minutesLeft: number) => void;
+  onTimeUp: () => void;
+}
+
+/**
+ * Elapsed versus purchased time and the amount billed so far for a paid chat session
+ */
+const SessionMeterBar: React.FC<SessionMeterBarProps> = ({ booking, starting, onStart, onWarning, onTimeUp }) => {
+  const [now, setNow] = useState(Date.now());
+  const warnedRef = useRef<number[]>([]);
+  const timeUpRef = useRef(false);
+  const meter = getSessionMeter(booking, now);
+
+  const isActive = booking.status === 'active';
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+
+    // Timers do not run in the background, so catch up as soon as we're back
+    const subscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        setNow(Date.now());
+      }
+    });
+
+    return () => {
+      clearInterval(intervalId);
+      subscription.remove();
+    };
+  }, [isActive]);
+
+  useEffect(() => {
+    if (!meter || booking.status === 'completed') return;
+
+    if (meter.isOver) {
+      if (!timeUpRef.current) {
+        timeUpRef.current = true;
+        onTimeUp();
+      }
+      return;
+    }
+
+    const due = getDueWarning(meter.remainingMs, warnedRef.current);
+    if (due !== null) {
+      warnedRef.current = [...warnedRef.current, due];
+      onWarning(due);
+    }
+  }, [meter?.remainingMs, booking.status]);
+
+  if (booking.status === 'completed' || booking.status === 'cancelled') {
+    return null;
+  }
+
+  if (!meter) {
+    // Without a purchased duration there's nothing to meter
+    if (!booking.duration) return null;
+
+    return (
+      <View style={styles.container}>
+        <Ionicons name="timer-outline" size={16} color="#6b7280" />
+        <Text style={styles.label}>{booking.duration} min session</Text>
+        <TouchableOpacity style={styles.startButton} onPress={onStart} disabled={starting}>
+          {starting ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.startButtonText}>Start session</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const isUrgent = meter.remainingMs <= URGENT_THRESHOLD_MS;
+  const color = isUrgent ? '#ef4444' : '#6366f1';
+
+  return (
+    <View style={styles.meter}>
+      <View style={styles.row}>
+        <Ionicons name="timer-outline" size={16} color={color} />
+        <Text style={[styles.time, { color }]}>
+          {formatSessionTime(meter.elapsedMs)} / {formatSessionTime(meter.totalMs)}
+        </Text>
+        <Text style={styles.remaining}>
+          {meter.isOver ? 'Time up' : `${formatSessionTime(meter.remainingMs)} left`}
+        </Text>
+        <Text style={styles.billed}>₹{meter.billedAmount}</Text>
+      </View>
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${Math.round(meter.progress * 100)}%`, backgroundColor: color }]} />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#f9fafb',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  meter: {
+    paddingHorizontal: 12,
+    paddingTop: 6,
+    paddingBottom: 8,
+    backgroundColor: '#f9fafb',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  label: {
+    flex: 1,
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#4b5563',
+  },
+  startButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  startButtonText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  time: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  remaining: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  billed: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e5e7eb',
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+  },
+});
+
+export default SessionMeterBar;
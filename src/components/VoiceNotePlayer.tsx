@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { formatDuration } from '../services/voiceNoteService';
+
+interface VoiceNotePlayerProps {
+  url: string;
+  // Known length in milliseconds, shown before the note has loaded
+  duration?: number;
+}
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+// Only one voice note plays at a time across the chat
+let activeSound: Audio.Sound | null = null;
+
+/**
+ * Play/pause control with a progress bar and speed toggle for a voice note
+ */
+const VoiceNotePlayer: React.FC<VoiceNotePlayerProps> = ({ url, duration }) => {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMillis, setPositionMillis] = useState(0);
+  const [durationMillis, setDurationMillis] = useState(duration || 0);
+  const [rate, setRate] = useState(PLAYBACK_RATES[0]);
+
+  useEffect(() => {
+    return () => {
+      const sound = soundRef.current;
+      if (sound) {
+        if (activeSound === sound) activeSound = null;
+        sound.unloadAsync().catch(error => console.error('Error unloading voice note:', error));
+      }
+    };
+  }, []);
+
+  const handleStatus = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+
+    setIsPlaying(status.isPlaying);
+    setPositionMillis(status.positionMillis);
+    if (status.durationMillis) setDurationMillis(status.durationMillis);
+
+    // Rewind so the next tap plays from the start
+    if (status.didJustFinish) {
+      soundRef.current?.setPositionAsync(0);
+      setPositionMillis(0);
+    }
+  };
+
+  const togglePlayback = async () => {
+    try {
+      if (!soundRef.current) {
+        setIsLoading(true);
+        const { sound } = await Audio.Sound.createAsync(
+          { uri: url },
+          { progressUpdateIntervalMillis: 200, rate, shouldCorrectPitch: true },
+          handleStatus
+        );
+        soundRef.current = sound;
+        setIsLoading(false);
+      }
+
+      const sound = soundRef.current;
+      if (isPlaying) {
+        await sound.pauseAsync();
+        return;
+      }
+
+      if (activeSound && activeSound !== sound) {
+        await activeSound.pauseAsync().catch(() => undefined);
+      }
+      activeSound = sound;
+      await Audio.setAudioModeAsync({ playsInSilentModeIOS: true });
+      await sound.playAsync();
+    } catch (error) {
+      console.error('Error playing voice note:', error);
+      setIsLoading(false);
+      Alert.alert('Error', 'Could not play this voice note.');
+    }
+  };
+
+  const cycleRate = async () => {
+    const nextRate = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length];
+    setRate(nextRate);
+
+    try {
+      // Keep the pitch natural at higher speeds
+      await soundRef.current?.setRateAsync(nextRate, true);
+    } catch (error) {
+      console.error('Error changing playback speed:', error);
+    }
+  };
+
+  const progress = durationMillis > 0 ? Math.min(1, positionMillis / durationMillis) : 0;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.playButton} onPress={togglePlayback} disabled={isLoading}>
+        <Ionicons name={isPlaying ? 'pause' : 'play'} size={18} color="white" />
+      </TouchableOpacity>
+
+      <View style={styles.body}>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+        </View>
+        <Text style={styles.time}>
+          {formatDuration(isPlaying || positionMillis > 0 ? positionMillis : durationMillis)}
+        </Text>
+      </View>
+
+      <TouchableOpacity style={styles.rateButton} onPress={cycleRate}>
+        <Text style={styles.rateText}>{rate}x</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 200,
+  },
+  playButton: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  body: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e5e7eb',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: '#6366f1',
+  },
+  time: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  rateButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: '#f3f4f6',
+  },
+  rateText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+});
+
+export default VoiceNotePlayer;
@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { LocalAttachment } from '../services/attachmentService';
+import {
+  MAX_VOICE_NOTE_DURATION_MS,
+  cancelVoiceRecording,
+  formatDuration,
+  startVoiceRecording,
+  stopVoiceRecording
+} from '../services/voiceNoteService';
+
+interface VoiceNoteRecorderProps {
+  onRecorded: (attachment: LocalAttachment) => void;
+  onClose: () => void;
+}
+
+// Number of level bars shown in the live waveform
+const WAVEFORM_BARS = 32;
+
+// Notes shorter than this are treated as accidental taps
+const MIN_DURATION_MS = 1000;
+
+/**
+ * Records a voice note as soon as it's shown, replacing the message input while recording
+ */
+const VoiceNoteRecorder: React.FC<VoiceNoteRecorderProps> = ({ onRecorded, onClose }) => {
+  const [durationMillis, setDurationMillis] = useState(0);
+  const [levels, setLevels] = useState<number[]>([]);
+  const [isStopping, setIsStopping] = useState(false);
+  const finished = useRef(false);
+
+  const finish = async () => {
+    if (finished.current) return;
+    finished.current = true;
+    setIsStopping(true);
+
+    try {
+      const attachment = await stopVoiceRecording();
+      if (attachment && (attachment.duration ?? 0) >= MIN_DURATION_MS) {
+        onRecorded(attachment);
+      }
+    } catch (error) {
+      console.error('Error finishing voice recording:', error);
+      Alert.alert('Error', 'Failed to save the voice note. Please try again.');
+    }
+    onClose();
+  };
+
+  const cancel = async () => {
+    finished.current = true;
+    await cancelVoiceRecording();
+    onClose();
+  };
+
+  useEffect(() => {
+    startVoiceRecording(
+      status => {
+        setDurationMillis(status.durationMillis);
+        setLevels(prev => [...prev, status.level].slice(-WAVEFORM_BARS));
+      },
+      // Send what was recorded once the length cap is reached
+      () => finish()
+    ).catch(error => {
+      console.error('Error starting voice recording:', error);
+      Alert.alert('Cannot record', error instanceof Error ? error.message : 'Could not start recording.');
+      finished.current = true;
+      onClose();
+    });
+
+    // Leaving the screen mid-recording discards the note
+    return () => {
+      if (!finished.current) {
+        cancelVoiceRecording();
+      }
+    };
+  }, []);
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.iconButton} onPress={cancel} disabled={isStopping}>
+        <Ionicons name="trash-outline" size={22} color="#ef4444" />
+      </TouchableOpacity>
+
+      <View style={styles.recordingDot} />
+      <Text style={styles.duration}>
+        {formatDuration(durationMillis)} / {formatDuration(MAX_VOICE_NOTE_DURATION_MS)}
+      </Text>
+
+      <View style={styles.waveform}>
+        {levels.map((level, index) => (
+          <View key={index} style={[styles.waveformBar, { height: 4 + level * 24 }]} />
+        ))}
+      </View>
+
+      <TouchableOpacity style={styles.sendButton} onPress={finish} disabled={isStopping}>
+        <Ionicons name="send" size={18} color="white" />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 44,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  recordingDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#ef4444',
+    marginLeft: 6,
+  },
+  duration: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#1f2937',
+    fontVariant: ['tabular-nums'],
+  },
+  waveform: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    height: 32,
+    marginHorizontal: 10,
+    overflow: 'hidden',
+  },
+  waveformBar: {
+    width: 3,
+    marginHorizontal: 1,
+    borderRadius: 2,
+    backgroundColor: '#6366f1',
+  },
+  sendButton: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#6366f1',
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+});
+
+export default VoiceNoteRecorder;
@@ -4,6 +4,7 @@
  */
 
 import { Platform } from 'react-native';
+import { AGORA } from './config/index';
 
 // Update this to your computer's IP address on your local network
 export const LOCAL_IP = '192.168.29.231';
@@ -31,11 +32,8 @@ console.log('🔴 MOBILE DEVICE CONFIG: Using API URL:', API_URL);
 // App identifier - consistent across the app
 export const APP_IDENTIFIER = 'astrologer-app';
 
-// Agora settings
-export const AGORA = {
-  APP_ID: '25b98d94bee34f4eaac05a5e46a733ba',
-  APP_CERTIFICATE: ''
-};
+// Agora settings are shared by every config, see config/index.ts
+export { AGORA };
 
 // API endpoints for consultation-related functionality
 export const API_ENDPOINTS = {
@@ -55,6 +53,12 @@ export const API_ENDPOINTS = {
     '/bookings/consultations'
   ],
   
+  // Agora endpoints - tokens are issued per booking
+  AGORA: {
+    TOKEN: '/agora/token',
+    CALL_LOGS: '/agora/call-logs'
+  },
+  
   // Bookings endpoints - try these in order
   BOOKINGS: [
     '/bookings/astrologer/me',
@@ -1,4 +1,5 @@
 import { Platform } from 'react-native';
+import { AGORA } from './config/index';
 
 // Define API URLs for different environments - Update your server IP here
 export const LOCAL_IP = '192.168.29.231'; // Your computer's IP on your local network
@@ -105,11 +106,8 @@ export const SOCKET_URL = (() => {
 // For local network testing with actual devices
 export const LOCAL_NETWORK_SOCKET_URL = `http://${LOCAL_IP}:${API_PORT}`;
 
-// Agora settings
-export const AGORA = {
-  APP_ID: '25b98d94bee34f4eaac05a5e46a733ba',
-  APP_CERTIFICATE: ''
-};
+// Agora settings are shared by every config, see config/index.ts
+export { AGORA };
 
 // API endpoints for consultation-related functionality
 export const API_ENDPOINTS = {
@@ -159,6 +157,12 @@ export const API_ENDPOINTS = {
     '/bookings/me'
   ],
   
+  // Agora endpoints - tokens are issued per booking
+  AGORA: {
+    TOKEN: '/agora/token',
+    CALL_LOGS: '/agora/call-logs'
+  },
+  
   // Bookings endpoints - try these in order
   BOOKINGS: [
     '/bookings/astrologer/me',
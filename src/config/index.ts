@@ -6,8 +6,9 @@ const config = {
   
   // Agora settings
   AGORA: {
-    APP_ID: '25b98d94bee34f4eaac05a5e46a733ba', // Use the default ID from your agora.routes.js file
-    APP_CERTIFICATE: '' // Leave blank for now
+    APP_ID: process.env.EXPO_PUBLIC_AGORA_APP_ID || '25b98d94bee34f4eaac05a5e46a733ba', // Fallback when the token server does not issue one
+    APP_CERTIFICATE: '', // Tokens are issued by the backend
+    TOKEN_SERVER_URL: process.env.EXPO_PUBLIC_AGORA_TOKEN_SERVER_URL || '' // Optional override, e.g. a local fake token server
   },
   
   // General app settings
@@ -26,7 +27,12 @@ const config = {
     DEFAULT_STATUS: 'online',
     IDLE_TIMEOUT_MINUTES: 15, // Auto status change to away after inactivity
   },
+  
+  // Booking request settings
+  BOOKING_REQUESTS: {
+    RESPONSE_TIMEOUT_SECONDS: 120, // Unanswered requests are auto-declined after this
+  },
 };
 
-export const { API_URL, LOCAL_NETWORK_API_URL, AGORA, APP_NAME, VERSION, FEATURES, AVAILABILITY } = config;
+export const { API_URL, LOCAL_NETWORK_API_URL, AGORA, APP_NAME, VERSION, FEATURES, AVAILABILITY, BOOKING_REQUESTS } = config;
 export default config; 
\ No newline at end of file
@@ -1,5 +1,10 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { clearOutbox } from '../services/messageOutbox';
+import { clearMessageCache } from '../services/messageCache';
+import { clearCachedTemplates } from '../services/templateService';
+import { clearClientNotes } from '../services/clientNotesService';
+import { clearFollowUps } from '../services/followUpService';
 
 type AuthContextType = {
   isAuthenticated: boolean;
@@ -99,6 +104,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       // Clear auth data
       await AsyncStorage.removeItem('token');
       await AsyncStorage.removeItem('user');
+      // Unsent and cached messages belong to the account that wrote them
+      await clearOutbox();
+      await clearMessageCache();
+      await clearCachedTemplates();
+      await clearClientNotes();
+      await clearFollowUps();
       
       // Update state
       setToken(null);
@@ -1,12 +1,20 @@
 import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { onNewBookingRequest, connectSocket, disconnectSocket, isSocketConnected } from '../services/socketService';
-import bookingRequestService, { BookingRequest } from '../services/bookingRequestService';
-import { Platform } from 'react-native';
+import { socketManager } from '../services/socketManager';
+import bookingRequestService, { BookingRequest, isBookingRequestExpired } from '../services/bookingRequestService';
+import { startBookingAlert, stopBookingAlert } from '../services/bookingAlertService';
 
 // Only log in development mode
 const isDev = __DEV__;
 
+// AsyncStorage key for the number of requests that expired unanswered
+const MISSED_COUNT_STORAGE_KEY = 'missedBookingRequestCount';
+// Reason sent to the backend when a request is declined for lack of a response
+const EXPIRED_DECLINE_REASON = 'Astrologer did not respond in time';
+// How often to look for requests past their response deadline
+const EXPIRY_CHECK_INTERVAL_MS = 1000;
+
 type BookingNotificationContextType = {
   activeBookingRequest: BookingRequest | null;
   recentBookingRequests: BookingRequest[];
@@ -14,10 +22,13 @@ type BookingNotificationContextType = {
   acceptBooking: (bookingId: string) => Promise<BookingRequest>;
   rejectBooking: (bookingId: string, reason?: string) => Promise<BookingRequest>;
   dismissNotification: () => void;
+  silenceAlert: () => void;
   refreshBookingRequests: () => Promise<BookingRequest[]>;
   socketConnected: boolean;
   handleLogout: () => void;
   lastUpdated: Date | null;
+  missedRequestCount: number;
+  clearMissedRequests: () => void;
 };
 
 const BookingNotificationContext = createContext<BookingNotificationContextType | undefined>(undefined);
@@ -32,10 +43,14 @@ export const BookingNotificationProvider: React.FC<{ children: React.ReactNode }
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [socketConnected, setSocketConnected] = useState<boolean>(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [missedRequestCount, setMissedRequestCount] = useState<number>(0);
   // Flag to prevent multiple initial fetches
   const hasInitiallyFetched = useRef<boolean>(false);
   // Track socket notification handler
   const listenerRef = useRef<(() => void) | null>(null);
+  // Requests already expired, so each one is only declined once
+  const expiredIdsRef = useRef<Set<string>>(new Set());
+  const missedCountRef = useRef<number>(0);
 
   // Check authentication status directly
   useEffect(() => {
@@ -52,9 +67,51 @@ export const BookingNotificationProvider: React.FC<{ children: React.ReactNode }
     checkAuth();
   }, []);
 
+  // Restore the missed request counter
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    AsyncStorage.getItem(MISSED_COUNT_STORAGE_KEY)
+      .then(stored => {
+        const count = stored ? parseInt(stored, 10) || 0 : 0;
+        missedCountRef.current = count;
+        setMissedRequestCount(count);
+      })
+      .catch(error => {
+        if (isDev) console.error('Error loading missed request count:', error);
+      });
+  }, [isAuthenticated]);
+
+  // Expire requests that have passed their response deadline
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const checkExpiry = () => {
+      const now = Date.now();
+      const candidates = [...recentBookingRequests];
+      if (activeBookingRequest && !candidates.some(req => req._id === activeBookingRequest._id)) {
+        candidates.push(activeBookingRequest);
+      }
+
+      const expired = candidates.filter(req =>
+        isBookingRequestExpired(req, now) && !expiredIdsRef.current.has(req._id)
+      );
+      if (expired.length > 0) {
+        expireBookingRequests(expired);
+      }
+    };
+
+    checkExpiry();
+    const intervalId = setInterval(checkExpiry, EXPIRY_CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isAuthenticated, recentBookingRequests, activeBookingRequest]);
+
   // Connect to socket when authenticated
   useEffect(() => {
-    let socketCheckInterval: NodeJS.Timeout | null = null;
+    // The socket manager handles reconnection; just mirror its state
+    const removeStateListener = socketManager.onStateChange(state => {
+      setSocketConnected(state === 'connected');
+    });
     
     const setupSocket = async () => {
       if (isAuthenticated && token) {
@@ -71,21 +128,6 @@ export const BookingNotificationProvider: React.FC<{ children: React.ReactNode }
               refreshBookingRequests();
               hasInitiallyFetched.current = true;
             }
-            
-            // Set up interval to check socket connection status
-            socketCheckInterval = setInterval(() => {
-              const connected = isSocketConnected();
-              
-              // Only update state if connection status has changed
-              if (socketConnected !== connected) {
-                setSocketConnected(connected);
-                
-                if (!connected && isDev) {
-                  console.log('Socket disconnected, attempting to reconnect...');
-                  connectSocket();
-                }
-              }
-            }, 30000); // Check every 30 seconds
           }
         } catch (error) {
           if (isDev) console.error('Error setting up socket:', error);
@@ -102,9 +144,7 @@ export const BookingNotificationProvider: React.FC<{ children: React.ReactNode }
 
     // Cleanup on unmount
     return () => {
-      if (socketCheckInterval) {
-        clearInterval(socketCheckInterval);
-      }
+      removeStateListener();
       disconnectSocket();
       setSocketConnected(false);
     };
@@ -136,11 +176,8 @@ export const BookingNotificationProvider: React.FC<{ children: React.ReactNode }
           
           // Force UI update
           if (bookingData && bookingData._id) {
-            // Fetch complete booking data
+            // Fetch complete booking data; the alert starts once it is shown
             fetchBookingDetails(bookingData._id);
-            
-            // Play sound if on mobile
-            playNotificationSound();
           } else {
             console.error('Received invalid booking data:', bookingData);
           }
@@ -172,18 +209,22 @@ export const BookingNotificationProvider: React.FC<{ children: React.ReactNode }
     };
   }, [isAuthenticated]);
 
-  // Simple function to play a notification sound
-  const playNotificationSound = () => {
-    try {
-      // Only attempt on native platforms
-      if (Platform.OS !== 'web') {
-        // This would need a proper sound implementation
-        // For a real implementation, use something like expo-av
-        if (isDev) console.log('Would play notification sound here');
-      }
-    } catch (error) {
-      if (isDev) console.error('Error playing sound:', error);
-    }
+  // Ring while a request is on screen, until it is accepted, rejected, dismissed or expires
+  useEffect(() => {
+    if (!activeBookingRequest) return;
+
+    startBookingAlert().catch(error => {
+      if (isDev) console.error('Error starting booking alert:', error);
+    });
+
+    return () => {
+      stopBookingAlert();
+    };
+  }, [activeBookingRequest?._id]);
+
+  // Stop ringing without dismissing the request
+  const silenceAlert = () => {
+    stopBookingAlert();
   };
 
   // Fetch booking requests (called on initial load and manual refresh)
@@ -197,6 +238,11 @@ export const BookingNotificationProvider: React.FC<{ children: React.ReactNode }
       
       if (isDev) console.log(`Received ${requests.length} booking requests from API`);
       
+      // Keep only requests still waiting for a response
+      setRecentBookingRequests(requests.filter(req =>
+        req.status === 'pending' && !expiredIdsRef.current.has(req._id)
+      ));
+      
       // Update the last updated timestamp
       const newUpdateTime = new Date();
       if (isDev) console.log(`Setting lastUpdated to: ${newUpdateTime.toISOString()}`);
@@ -211,6 +257,40 @@ export const BookingNotificationProvider: React.FC<{ children: React.ReactNode }
     }
   };
 
+  // Remove expired requests, count them as missed and decline them with a reason
+  const expireBookingRequests = (expired: BookingRequest[]) => {
+    const expiredIds = new Set(expired.map(req => req._id));
+    expired.forEach(req => expiredIdsRef.current.add(req._id));
+
+    if (isDev) console.log(`${expired.length} booking request(s) expired without a response`);
+
+    setRecentBookingRequests(prev => prev.filter(req => !expiredIds.has(req._id)));
+    setActiveBookingRequest(prev => (prev && expiredIds.has(prev._id) ? null : prev));
+
+    // The expiry timer holds an older render's state, so count from the ref
+    const missedCount = missedCountRef.current + expired.length;
+    missedCountRef.current = missedCount;
+    setMissedRequestCount(missedCount);
+    AsyncStorage.setItem(MISSED_COUNT_STORAGE_KEY, String(missedCount)).catch(error => {
+      if (isDev) console.error('Error saving missed request count:', error);
+    });
+
+    expired.forEach(req => {
+      bookingRequestService.declineBookingRequest(req._id, EXPIRED_DECLINE_REASON).catch(error => {
+        console.error(`Error auto-declining expired booking request ${req._id}:`, error);
+      });
+    });
+  };
+
+  // Reset the missed request counter once the astrologer has seen it
+  const clearMissedRequests = () => {
+    missedCountRef.current = 0;
+    setMissedRequestCount(0);
+    AsyncStorage.removeItem(MISSED_COUNT_STORAGE_KEY).catch(error => {
+      if (isDev) console.error('Error clearing missed request count:', error);
+    });
+  };
+
   // Fetch full booking details when we receive a notification
   const fetchBookingDetails = async (bookingId: string) => {
     try {
@@ -227,8 +307,10 @@ export const BookingNotificationProvider: React.FC<{ children: React.ReactNode }
           existingRequest = updatedRequests.find(req => req._id === bookingId);
           
           if (existingRequest) {
-            // Update the recent requests list with all requests
-            setRecentBookingRequests(updatedRequests);
+            // Update the recent requests list with all pending requests
+            setRecentBookingRequests(updatedRequests.filter(req =>
+              req.status === 'pending' && !expiredIdsRef.current.has(req._id)
+            ));
           }
         } catch (error) {
           console.error('Error fetching booking by ID:', error);
@@ -304,6 +386,10 @@ export const BookingNotificationProvider: React.FC<{ children: React.ReactNode }
     // Clear booking data
     setActiveBookingRequest(null);
     setRecentBookingRequests([]);
+    setMissedRequestCount(0);
+    missedCountRef.current = 0;
+    expiredIdsRef.current.clear();
+    AsyncStorage.removeItem(MISSED_COUNT_STORAGE_KEY).catch(() => {});
     
     // Update state
     setSocketConnected(false);
@@ -325,10 +411,13 @@ export const BookingNotificationProvider: React.FC<{ children: React.ReactNode }
         acceptBooking,
         rejectBooking,
         dismissNotification,
+        silenceAlert,
         refreshBookingRequests,
         socketConnected,
         handleLogout,
-        lastUpdated
+        lastUpdated,
+        missedRequestCount,
+        clearMissedRequests
       }}
     >
       {children}
@@ -1,6 +1,9 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { chatService } from '../services/chatService';
 import * as socketService from '../services/socketService';
+import { socketManager } from '../services/socketManager';
+import { SOCKET_EVENTS } from '../services/socketEvents';
+import { startOutbox } from '../services/messageOutbox';
 
 // Define chat types
 export type Message = {
@@ -72,35 +75,30 @@ export const ChatsProvider = ({ children }: { children: ReactNode }) => {
   
   // Set up socket connection and listeners
   useEffect(() => {
-    let socket: any = null;
+    // Refresh the chat list whenever a chat changes
+    const removeListeners = [
+      socketManager.on(SOCKET_EVENTS.CHAT_MESSAGE, () => {
+        console.log('New chat message received, refreshing chats');
+        refreshChats();
+      }),
+      socketManager.on(SOCKET_EVENTS.CHAT_STATUS_CHANGE, () => {
+        console.log('Chat status changed, refreshing chats');
+        refreshChats();
+      }),
+      socketManager.on(SOCKET_EVENTS.CHAT_ASTROLOGER_JOINED, () => {
+        console.log('Astrologer joined chat, refreshing chats');
+        refreshChats();
+      })
+    ];
+    const removeStateListener = socketManager.onStateChange(state => {
+      setSocketConnected(state === 'connected');
+    });
     
     const connectToSocket = async () => {
       try {
         console.log('Connecting to socket from ChatsProvider...');
-        socket = await socketService.connectSocket();
-        
-        if (socket) {
-          console.log('Socket connected successfully in ChatsProvider');
-          setSocketConnected(true);
-          
-          // Set up message listener to refresh chats when a new message arrives
-          socket.on('chat:message', (data: any) => {
-            console.log('New chat message received, refreshing chats');
-            refreshChats();
-          });
-          
-          // Set up listener for chat status changes
-          socket.on('chat:status_change', (data: any) => {
-            console.log('Chat status changed, refreshing chats');
-            refreshChats();
-          });
-          
-          // Set up listener for astrologer joined event
-          socket.on('chat:astrologer_joined', (data: any) => {
-            console.log('Astrologer joined chat, refreshing chats');
-            refreshChats();
-          });
-        }
+        const socket = await socketService.connectSocket();
+        setSocketConnected(!!socket);
       } catch (error) {
         console.error('Error connecting to socket in ChatsProvider:', error);
         setSocketConnected(false);
@@ -110,15 +108,16 @@ export const ChatsProvider = ({ children }: { children: ReactNode }) => {
     // Connect to socket
     connectToSocket();
     
+    // Resume sending any messages queued before the app was closed
+    startOutbox();
+    
     // Load initial chats
     refreshChats();
     
-    // Clean up socket connection on unmount
+    // Only remove our listeners; the connection is shared with the rest of the app
     return () => {
-      if (socket) {
-        console.log('Disconnecting socket in ChatsProvider cleanup');
-        socketService.disconnectSocket();
-      }
+      removeListeners.forEach(removeListener => removeListener());
+      removeStateListener();
     };
   }, []);
   
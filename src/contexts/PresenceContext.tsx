@@ -0,0 +1,79 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  PresenceStatus,
+  getPresenceStatus,
+  subscribeToPresence,
+  loadPresenceStatus,
+  setPresenceStatus,
+  resetPresence
+} from '../services/presenceService';
+
+type PresenceContextType = {
+  status: PresenceStatus;
+  isLoading: boolean;
+  setStatus: (status: PresenceStatus) => Promise<PresenceStatus>;
+  refreshStatus: () => Promise<PresenceStatus>;
+};
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+export const PresenceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const [status, setStatusState] = useState<PresenceStatus>(getPresenceStatus());
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  // Mirror the presence store so every screen re-renders on changes
+  useEffect(() => {
+    const unsubscribe = subscribeToPresence(setStatusState);
+    return unsubscribe;
+  }, []);
+
+  // Load the status once logged in, and reset it on logout
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshStatus();
+    } else {
+      resetPresence();
+    }
+  }, [isAuthenticated]);
+
+  const refreshStatus = async () => {
+    try {
+      setIsLoading(true);
+      return await loadPresenceStatus();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const setStatus = async (newStatus: PresenceStatus) => {
+    try {
+      setIsLoading(true);
+      return await setPresenceStatus(newStatus);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <PresenceContext.Provider
+      value={{
+        status,
+        isLoading,
+        setStatus,
+        refreshStatus
+      }}
+    >
+      {children}
+    </PresenceContext.Provider>
+  );
+};
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+};
@@ -12,20 +12,40 @@ export type TabNavigatorParamList = {
   ProfileTab: undefined;
 };
 
+// Screens on the root stack in App.tsx, for screens typed against it
 export type MainStackParamList = {
   TabHome: undefined;
   Home: undefined;
   Profile: undefined;
   Consultations: undefined;
   Earnings: undefined;
+  CallHistory: undefined;
+  Availability: undefined;
+  NotificationSettings: undefined;
+  MessageTemplates: undefined;
+  ChatSearch: undefined;
+  Clients: undefined;
+  FollowUps: undefined;
+  ConsultationCalendar: undefined;
+  ClientDetail: {
+    userId: string;
+    userName?: string;
+  };
   Settings: undefined;
   BookingRequests: undefined;
   Chat: {
     bookingId: string;
     chatId?: string;
+    // Message to scroll to, e.g. from a search result
+    messageId?: string;
+  };
+  VoiceCallSession: {
+    bookingId: string;
+    userData?: { name: string; id?: string };
   };
-  Consultation: {
+  VideoCallSession: {
     bookingId: string;
+    userData?: { name: string; id?: string };
   };
 };
 
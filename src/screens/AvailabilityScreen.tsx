@@ -0,0 +1,439 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Switch,
+  Alert,
+  ActivityIndicator
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  AvailabilitySchedule,
+  TimeSlot,
+  Weekday,
+  WEEKDAYS,
+  createEmptySchedule,
+  getDeviceTimezone,
+  getSchedule,
+  saveSchedule,
+  validateSchedule
+} from '../services/availabilityService';
+
+const DAY_LABELS: Record<Weekday, string> = {
+  monday: 'Monday',
+  tuesday: 'Tuesday',
+  wednesday: 'Wednesday',
+  thursday: 'Thursday',
+  friday: 'Friday',
+  saturday: 'Saturday',
+  sunday: 'Sunday'
+};
+
+// Slot added when tapping "Add slot" on a day
+const DEFAULT_SLOT: TimeSlot = { start: '09:00', end: '17:00' };
+
+const AvailabilityScreen = () => {
+  const [schedule, setSchedule] = useState<AvailabilitySchedule>(createEmptySchedule());
+  const [newExceptionDate, setNewExceptionDate] = useState('');
+  const [newExceptionNote, setNewExceptionNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  useEffect(() => {
+    const loadSchedule = async () => {
+      try {
+        setSchedule(await getSchedule());
+      } catch (error) {
+        console.error('Error loading availability schedule:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSchedule();
+  }, []);
+
+  const updateSchedule = (changes: Partial<AvailabilitySchedule>) => {
+    setSchedule(prev => ({ ...prev, ...changes }));
+    setHasChanges(true);
+  };
+
+  const updateDaySlots = (day: Weekday, slots: TimeSlot[]) => {
+    updateSchedule({ slots: { ...schedule.slots, [day]: slots } });
+  };
+
+  const addSlot = (day: Weekday) => {
+    const slots = schedule.slots[day];
+    // Start the new slot where the last one ended
+    const last = slots[slots.length - 1];
+    const slot = last ? { start: last.end, end: '23:59' } : DEFAULT_SLOT;
+    updateDaySlots(day, [...slots, slot]);
+  };
+
+  const updateSlot = (day: Weekday, index: number, field: keyof TimeSlot, value: string) => {
+    updateDaySlots(day, schedule.slots[day].map((slot, i) => (i === index ? { ...slot, [field]: value } : slot)));
+  };
+
+  const removeSlot = (day: Weekday, index: number) => {
+    updateDaySlots(day, schedule.slots[day].filter((_, i) => i !== index));
+  };
+
+  const copyToWeekdays = (day: Weekday) => {
+    const slots = schedule.slots[day];
+    const updated = { ...schedule.slots };
+    WEEKDAYS.filter(d => d !== 'saturday' && d !== 'sunday').forEach(d => {
+      updated[d] = slots.map(slot => ({ ...slot }));
+    });
+    updateSchedule({ slots: updated });
+  };
+
+  const addException = () => {
+    const date = newExceptionDate.trim();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      Alert.alert('Invalid date', 'Enter the date as YYYY-MM-DD');
+      return;
+    }
+    if (schedule.exceptions.some(exception => exception.date === date)) {
+      Alert.alert('Already added', 'You are already unavailable on this date');
+      return;
+    }
+
+    const exceptions = [...schedule.exceptions, { date, note: newExceptionNote.trim() || undefined }]
+      .sort((a, b) => a.date.localeCompare(b.date));
+    updateSchedule({ exceptions });
+    setNewExceptionDate('');
+    setNewExceptionNote('');
+  };
+
+  const removeException = (date: string) => {
+    updateSchedule({ exceptions: schedule.exceptions.filter(exception => exception.date !== date) });
+  };
+
+  const handleSave = async () => {
+    const errors = validateSchedule(schedule);
+    if (errors.length > 0) {
+      Alert.alert('Please fix your schedule', errors.join('\n'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await saveSchedule(schedule);
+      setSchedule(saved);
+      setHasChanges(false);
+      Alert.alert('Saved', 'Your availability has been updated');
+    } catch (error: any) {
+      console.error('Error saving availability schedule:', error);
+      Alert.alert('Error', error.message || 'Failed to save your availability. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.card}>
+          <View style={styles.toggleRow}>
+            <View style={styles.toggleText}>
+              <Text style={styles.cardTitle}>Go online automatically</Text>
+              <Text style={styles.hint}>
+                Switch online when a slot starts and offline when it ends
+              </Text>
+            </View>
+            <Switch
+              value={schedule.autoToggle}
+              onValueChange={value => updateSchedule({ autoToggle: value })}
+              trackColor={{ false: '#d1d5db', true: '#a5b4fc' }}
+              thumbColor={schedule.autoToggle ? '#6366f1' : '#f4f3f4'}
+            />
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Timezone</Text>
+          <View style={styles.timezoneRow}>
+            <TextInput
+              style={[styles.input, styles.timezoneInput]}
+              value={schedule.timezone}
+              onChangeText={value => updateSchedule({ timezone: value })}
+              autoCapitalize="none"
+              autoCorrect={false}
+              placeholder="e.g. Asia/Kolkata"
+            />
+            <TouchableOpacity onPress={() => updateSchedule({ timezone: getDeviceTimezone() })}>
+              <Text style={styles.linkText}>Use device</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>Weekly hours</Text>
+        {WEEKDAYS.map(day => (
+          <View key={day} style={styles.card}>
+            <View style={styles.dayHeader}>
+              <Text style={styles.dayTitle}>{DAY_LABELS[day]}</Text>
+              <View style={styles.dayActions}>
+                {schedule.slots[day].length > 0 && (
+                  <TouchableOpacity onPress={() => copyToWeekdays(day)} style={styles.dayAction}>
+                    <Text style={styles.linkText}>Copy to weekdays</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={() => addSlot(day)} style={styles.dayAction}>
+                  <Ionicons name="add-circle-outline" size={22} color="#6366f1" />
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {schedule.slots[day].length === 0 ? (
+              <Text style={styles.hint}>Unavailable</Text>
+            ) : (
+              schedule.slots[day].map((slot, index) => (
+                <View key={index} style={styles.slotRow}>
+                  <TextInput
+                    style={[styles.input, styles.timeInput]}
+                    value={slot.start}
+                    onChangeText={value => updateSlot(day, index, 'start', value)}
+                    placeholder="09:00"
+                    maxLength={5}
+                  />
+                  <Text style={styles.slotSeparator}>to</Text>
+                  <TextInput
+                    style={[styles.input, styles.timeInput]}
+                    value={slot.end}
+                    onChangeText={value => updateSlot(day, index, 'end', value)}
+                    placeholder="17:00"
+                    maxLength={5}
+                  />
+                  <TouchableOpacity onPress={() => removeSlot(day, index)} style={styles.removeButton}>
+                    <Ionicons name="close-circle" size={22} color="#ef4444" />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </View>
+        ))}
+
+        <Text style={styles.sectionTitle}>Days off</Text>
+        <View style={styles.card}>
+          {schedule.exceptions.length === 0 && (
+            <Text style={styles.hint}>No days off planned</Text>
+          )}
+          {schedule.exceptions.map(exception => (
+            <View key={exception.date} style={styles.exceptionRow}>
+              <Ionicons name="calendar-outline" size={18} color="#6b7280" />
+              <View style={styles.exceptionDetails}>
+                <Text style={styles.exceptionDate}>{exception.date}</Text>
+                {exception.note ? <Text style={styles.hint}>{exception.note}</Text> : null}
+              </View>
+              <TouchableOpacity onPress={() => removeException(exception.date)}>
+                <Ionicons name="trash-outline" size={20} color="#ef4444" />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <View style={styles.addExceptionRow}>
+            <TextInput
+              style={[styles.input, styles.dateInput]}
+              value={newExceptionDate}
+              onChangeText={setNewExceptionDate}
+              placeholder="YYYY-MM-DD"
+              maxLength={10}
+            />
+            <TextInput
+              style={[styles.input, styles.noteInput]}
+              value={newExceptionNote}
+              onChangeText={setNewExceptionNote}
+              placeholder="Note (optional)"
+            />
+            <TouchableOpacity onPress={addException} style={styles.removeButton}>
+              <Ionicons name="add-circle" size={26} color="#6366f1" />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.saveButton, (!hasChanges || saving) && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={!hasChanges || saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save Availability</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f9fafb',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f3f4f6',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  toggleText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  timezoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  timezoneInput: {
+    flex: 1,
+    marginRight: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1f2937',
+    backgroundColor: '#f9fafb',
+  },
+  linkText: {
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  dayTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  dayActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dayAction: {
+    marginLeft: 12,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  timeInput: {
+    width: 72,
+    textAlign: 'center',
+  },
+  slotSeparator: {
+    marginHorizontal: 8,
+    color: '#6b7280',
+  },
+  removeButton: {
+    marginLeft: 8,
+  },
+  exceptionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  exceptionDetails: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  exceptionDate: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  addExceptionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  dateInput: {
+    width: 110,
+  },
+  noteInput: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  footer: {
+    padding: 16,
+    backgroundColor: 'white',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  saveButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default AvailabilityScreen;
@@ -386,7 +386,10 @@ const BookingRequestsScreen = () => {
             {(item.consultationType === 'call' || item.consultationType === 'video') && (
               <TouchableOpacity 
                 style={styles.startConsultationButton}
-                onPress={() => navigation.navigate('Consultation', { bookingId: item._id })}
+                onPress={() => navigation.navigate(
+                  item.consultationType === 'call' ? 'VoiceCallSession' : 'VideoCallSession',
+                  { bookingId: item._id, userData: { name: userName, id: userId } }
+                )}
               >
                 <Ionicons 
                   name={item.consultationType === 'call' ? "call-outline" : "videocam-outline"} 
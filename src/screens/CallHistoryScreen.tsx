@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, SectionList, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { agoraService, CallLog, CallLogStatus } from '../services/agoraService';
+import { getMyBookings, getBookingUserName, Booking } from '../services/bookingService';
+import { formatDate } from '../utils/dateUtils';
+
+interface CallHistoryItem {
+  log: CallLog;
+  booking?: Booking;
+}
+
+interface ClientSection {
+  clientId: string;
+  title: string;
+  totalDuration: number;
+  data: CallHistoryItem[];
+}
+
+const STATUS_DETAILS: Record<CallLogStatus, { label: string; color: string; background: string }> = {
+  completed: { label: 'Completed', color: '#16a34a', background: '#dcfce7' },
+  missed: { label: 'Missed', color: '#d97706', background: '#fef3c7' },
+  failed: { label: 'Failed', color: '#ef4444', background: '#fee2e2' }
+};
+
+// Logs come from the server, which may record statuses this version of the app doesn't know
+const UNKNOWN_STATUS_DETAILS = { label: 'Unknown', color: '#6b7280', background: '#f3f4f6' };
+
+// Format a duration in seconds as mm:ss
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Group call logs by client, using the matching booking for the client name
+const groupLogsByClient = (logs: CallLog[], bookings: Booking[]): ClientSection[] => {
+  const bookingsById = new Map(bookings.map(booking => [booking._id, booking]));
+  const sections = new Map<string, ClientSection>();
+
+  logs.forEach(log => {
+    const booking = log.bookingId ? bookingsById.get(log.bookingId) : undefined;
+    const clientId = log.userId || 'unknown';
+
+    if (!sections.has(clientId)) {
+      sections.set(clientId, {
+        clientId,
+        title: booking ? getBookingUserName(booking) : log.userId ? `User ${log.userId.substring(0, 4)}` : 'Unknown client',
+        totalDuration: 0,
+        data: []
+      });
+    }
+
+    const section = sections.get(clientId)!;
+    section.data.push({ log, booking });
+    section.totalDuration += log.duration;
+  });
+
+  return Array.from(sections.values());
+};
+
+const CallHistoryScreen = () => {
+  const [logs, setLogs] = useState<CallLog[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = async () => {
+    try {
+      setError(null);
+      const [callLogs, myBookings] = await Promise.all([
+        agoraService.getCallLogs(),
+        getMyBookings()
+      ]);
+      setLogs(callLogs);
+      setBookings(myBookings);
+    } catch (err) {
+      console.error('Error fetching call history:', err);
+      setError('Failed to load call history. Please try again later.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, []);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    fetchHistory();
+  };
+
+  const sections = useMemo(() => groupLogsByClient(logs, bookings), [logs, bookings]);
+
+  const renderSectionHeader = ({ section }: { section: ClientSection }) => (
+    <View style={styles.sectionHeader}>
+      <Text style={styles.sectionTitle}>{section.title}</Text>
+      <Text style={styles.sectionMeta}>
+        {section.data.length} {section.data.length === 1 ? 'call' : 'calls'} · {formatDuration(section.totalDuration)}
+      </Text>
+    </View>
+  );
+
+  const renderItem = ({ item }: { item: CallHistoryItem }) => {
+    const status = STATUS_DETAILS[item.log.status] ?? UNKNOWN_STATUS_DETAILS;
+
+    return (
+      <View style={styles.logCard}>
+        <View style={styles.logIcon}>
+          <Ionicons name={item.log.callType === 'video' ? 'videocam' : 'call'} size={18} color="#6366f1" />
+        </View>
+        <View style={styles.logDetails}>
+          <Text style={styles.logDate}>{formatDate(item.log.createdAt)}</Text>
+          <Text style={styles.logMeta}>
+            {item.booking
+              ? `₹${item.booking.amount} · booking ${item.booking.status}`
+              : 'No matching booking'}
+          </Text>
+        </View>
+        <View style={styles.logOutcome}>
+          <Text style={styles.logDuration}>{formatDuration(item.log.duration)}</Text>
+          <View style={[styles.statusBadge, { backgroundColor: status.background }]}>
+            <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {error && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={fetchHistory}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <SectionList
+        sections={sections}
+        keyExtractor={item => item.log._id || item.log.localId}
+        renderItem={renderItem}
+        renderSectionHeader={renderSectionHeader}
+        contentContainerStyle={styles.content}
+        stickySectionHeadersEnabled={false}
+        refreshing={refreshing}
+        onRefresh={handleRefresh}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="call-outline" size={48} color="#d1d5db" />
+            <Text style={styles.emptyText}>No calls yet</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f9fafb',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  sectionMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  logCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#f3f4f6',
+  },
+  logIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#e0e7ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  logDetails: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  logDate: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  logMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  logOutcome: {
+    alignItems: 'flex-end',
+  },
+  logDuration: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  errorContainer: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 16,
+    backgroundColor: '#fee2e2',
+    borderRadius: 8,
+  },
+  errorText: {
+    color: '#ef4444',
+  },
+  retryText: {
+    marginTop: 8,
+    alignSelf: 'flex-end',
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#9ca3af',
+  },
+});
+
+export default CallHistoryScreen;
@@ -1,29 +1,292 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Platform, PermissionsAndroid, StatusBar } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useRoute } from '@react-navigation/native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import RtcEngine, { ChannelProfileType, ClientRoleType } from '../utils/AgoraRtcBridge';
+import { agoraService, getChannelName } from '../services/agoraService';
+import { startBooking, completeBooking } from '../services/bookingService';
+import { beginBusySession, endBusySession } from '../services/presenceService';
+
+type CallStatus = 'connecting' | 'ringing' | 'connected' | 'ended';
+type EndReason = 'local' | 'remote' | 'error';
 
 const CallScreen = () => {
   const navigation = useNavigation();
   const route = useRoute();
-  
-  // Handle end call
-  const handleEndCall = () => {
-    navigation.goBack();
+  const { bookingId, userData } = route.params as { bookingId: string; userData?: any };
+
+  const [callStatus, setCallStatus] = useState<CallStatus>('connecting');
+  const [callDuration, setCallDuration] = useState(0);
+  const [isMuted, setIsMuted] = useState(false);
+  const [isSpeakerOn, setIsSpeakerOn] = useState(false);
+  const userInfo = userData || { name: 'User' };
+
+  const engineRef = useRef<RtcEngine | null>(null);
+  const channelNameRef = useRef(getChannelName(bookingId));
+  // Timestamp of when the call connected, used to derive the running timer
+  const connectedAtRef = useRef<number | null>(null);
+  const remoteJoinedRef = useRef(false);
+  const bookingStartedRef = useRef(false);
+  const endedRef = useRef(false);
+
+  // Timer for call duration
+  useEffect(() => {
+    let intervalId: NodeJS.Timeout;
+
+    if (callStatus === 'connected') {
+      intervalId = setInterval(() => {
+        if (connectedAtRef.current) {
+          setCallDuration(Math.floor((Date.now() - connectedAtRef.current) / 1000));
+        }
+      }, 1000);
+    }
+
+    return () => {
+      if (intervalId) clearInterval(intervalId);
+    };
+  }, [callStatus]);
+
+  // Format call duration time
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  // Request permissions and initialize Agora engine
+  useEffect(() => {
+    const init = async () => {
+      if (Platform.OS === 'android') {
+        const granted = await requestAudioPermission();
+        if (!granted) return;
+      }
+
+      let detachTokenRenewal: (() => void) | null = null;
+
+      try {
+        // Tokens are issued per booking by the backend
+        const credentials = await agoraService.getCallCredentials(bookingId);
+        channelNameRef.current = credentials.channelName;
+
+        const rtcEngine = await RtcEngine.create(credentials.appId);
+        engineRef.current = rtcEngine;
+        detachTokenRenewal = agoraService.attachTokenRenewal(rtcEngine, bookingId);
+
+        await rtcEngine.disableVideo();
+        await rtcEngine.enableAudio();
+
+        rtcEngine.addListener('JoinChannelSuccess', (channel: string, uid: number, elapsed: number) => {
+          console.log('JoinChannelSuccess', channel, uid, elapsed);
+          setCallStatus(remoteJoinedRef.current ? 'connected' : 'ringing');
+          if (remoteJoinedRef.current) {
+            handleCallConnected();
+          }
+        });
+
+        rtcEngine.addListener('UserJoined', (uid: number, elapsed: number) => {
+          console.log('UserJoined', uid, elapsed);
+          remoteJoinedRef.current = true;
+          setCallStatus('connected');
+          handleCallConnected();
+        });
+
+        // The remote user hanging up shows up as them going offline
+        rtcEngine.addListener('UserOffline', (uid: number, reason: number) => {
+          console.log('UserOffline', uid, reason);
+          handleEndCall('remote');
+        });
+
+        rtcEngine.addListener('Error', (err: any) => {
+          console.log('Error', err);
+          Alert.alert('Error', `An error occurred: ${err}`);
+        });
+
+        await rtcEngine.setChannelProfile(ChannelProfileType.Communication);
+        await rtcEngine.setClientRole(ClientRoleType.Broadcaster);
+        await rtcEngine.setEnableSpeakerphone(false);
+        await rtcEngine.joinChannel(credentials.token, credentials.channelName, null, credentials.uid);
+      } catch (error) {
+        if (detachTokenRenewal) detachTokenRenewal();
+        console.error('Failed to initialize Agora engine', error);
+        Alert.alert('Error', 'Failed to start voice call');
+        handleEndCall('error');
+      }
+    };
+
+    init();
+
+    // Clean up on unmount
+    return () => {
+      endBusySession(`call:${bookingId}`);
+      const engine = engineRef.current;
+      engineRef.current = null;
+      if (engine) engine.removeAllListeners();
+
+      // handleEndCall has already left the channel
+      if (endedRef.current) {
+        if (engine) engine.destroy();
+        return;
+      }
+
+      // Leaving with the back button or gesture still has to close out a call that connected
+      const finished = bookingStartedRef.current
+        ? finishCall('local', engine)
+        : agoraService.leaveChannel(engine);
+      finished.finally(() => {
+        if (engine) engine.destroy();
+      });
+    };
+  }, [bookingId]);
+
+  // Request microphone permission for Android
+  const requestAudioPermission = async () => {
+    try {
+      const granted = await PermissionsAndroid.request(PermissionsAndroid.PERMISSIONS.RECORD_AUDIO);
+
+      if (granted !== PermissionsAndroid.RESULTS.GRANTED) {
+        Alert.alert('Permission Error', 'Microphone permission is required for voice calls');
+        navigation.goBack();
+        return false;
+      }
+      return true;
+    } catch (err) {
+      console.warn(err);
+      Alert.alert('Permission Error', 'Failed to request permissions');
+      navigation.goBack();
+      return false;
+    }
+  };
+
+  // Mark the booking as started once both sides are on the call
+  const handleCallConnected = async () => {
+    if (connectedAtRef.current === null) {
+      connectedAtRef.current = Date.now();
+    }
+
+    if (bookingStartedRef.current) return;
+    bookingStartedRef.current = true;
+    beginBusySession(`call:${bookingId}`);
+
+    try {
+      await startBooking(bookingId);
+    } catch (error) {
+      console.error('Error marking booking as started:', error);
+    }
+  };
+
+  // Toggle microphone
+  const toggleMicrophone = async () => {
+    if (engineRef.current) {
+      await engineRef.current.enableLocalAudio(isMuted);
+      setIsMuted(!isMuted);
+    }
+  };
+
+  // Toggle speakerphone
+  const toggleSpeaker = async () => {
+    if (engineRef.current) {
+      await engineRef.current.setEnableSpeakerphone(!isSpeakerOn);
+      setIsSpeakerOn(!isSpeakerOn);
+    }
+  };
+
+  // Leave the channel, complete the booking and save the call log
+  const finishCall = async (reason: EndReason, engine: RtcEngine | null): Promise<number> => {
+    endedRef.current = true;
+
+    const duration = connectedAtRef.current
+      ? Math.floor((Date.now() - connectedAtRef.current) / 1000)
+      : 0;
+
+    endBusySession(`call:${bookingId}`);
+
+    if (engine) {
+      await agoraService.leaveChannel(engine);
+    }
+
+    // Only a call that actually connected completes the booking
+    if (bookingStartedRef.current) {
+      try {
+        await completeBooking(bookingId);
+      } catch (error) {
+        console.error('Error completing booking:', error);
+      }
+    }
+
+    const astrologerId = await AsyncStorage.getItem('astrologerId');
+    await agoraService.saveCallLog({
+      bookingId,
+      channelName: channelNameRef.current,
+      duration,
+      callType: 'audio',
+      astrologerId: astrologerId || '',
+      userId: userInfo.id || userInfo._id || '',
+      status: reason === 'error' ? 'failed' : bookingStartedRef.current ? 'completed' : 'missed'
+    });
+
+    return duration;
+  };
+
+  // End call, either from the hang-up button or because the other side left
+  const handleEndCall = async (reason: EndReason = 'local') => {
+    if (endedRef.current) return;
+
+    setCallStatus('ended');
+    const duration = await finishCall(reason, engineRef.current);
+
+    const message = bookingStartedRef.current
+      ? `Your call with ${userInfo.name || 'User'} lasted ${formatTime(duration)}`
+      : `The call with ${userInfo.name || 'User'} did not connect`;
+
+    Alert.alert(
+      reason === 'remote' ? 'Call Ended by User' : 'Call Ended',
+      message,
+      [{ text: 'OK', onPress: () => navigation.goBack() }]
+    );
   };
-  
+
+  const statusText = callStatus === 'connecting' ? 'Connecting...' :
+    callStatus === 'ringing' ? 'Waiting for user to join...' :
+    callStatus === 'connected' ? formatTime(callDuration) :
+    'Call ended';
+
   return (
     <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+
       <View style={styles.content}>
-        <Text style={styles.title}>Voice Call</Text>
-        <Text style={styles.description}>Voice call functionality will be implemented here.</Text>
-        
-        <TouchableOpacity 
-          style={styles.endCallButton} 
-          onPress={handleEndCall}
-        >
-          <Ionicons name="call" size={30} color="white" />
+        <View style={styles.avatar}>
+          <Text style={styles.avatarText}>
+            {(userInfo.name || 'U').charAt(0).toUpperCase()}
+          </Text>
+        </View>
+        <Text style={styles.title}>{userInfo.name || 'User'}</Text>
+        <Text style={styles.description}>{statusText}</Text>
+      </View>
+
+      {/* Call Controls */}
+      <View style={styles.controls}>
+        <TouchableOpacity style={styles.controlItem} onPress={toggleMicrophone}>
+          <View style={[styles.controlButton, isMuted && styles.controlButtonActive]}>
+            <Ionicons name={isMuted ? 'mic-off' : 'mic'} size={24} color="white" />
+          </View>
+          <Text style={styles.controlLabel}>{isMuted ? 'Unmute' : 'Mute'}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.controlItem} onPress={() => handleEndCall('local')}>
+          <View style={styles.endCallButton}>
+            <Ionicons name="call" size={30} color="white" />
+          </View>
+          <Text style={styles.controlLabel}>End</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.controlItem} onPress={toggleSpeaker}>
+          <View style={[styles.controlButton, isSpeakerOn && styles.controlButtonOn]}>
+            <Ionicons name={isSpeakerOn ? 'volume-high' : 'volume-medium'} size={24} color="white" />
+          </View>
+          <Text style={styles.controlLabel}>Speaker</Text>
         </TouchableOpacity>
       </View>
     </SafeAreaView>
@@ -41,6 +304,20 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: 20,
   },
+  avatar: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  avatarText: {
+    fontSize: 40,
+    fontWeight: 'bold',
+    color: 'white',
+  },
   title: {
     fontSize: 28,
     fontWeight: 'bold',
@@ -51,7 +328,34 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#d1d5db',
     textAlign: 'center',
-    marginBottom: 40,
+  },
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'space-evenly',
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  controlItem: {
+    alignItems: 'center',
+  },
+  controlButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#374151',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  controlButtonActive: {
+    backgroundColor: '#ef4444',
+  },
+  controlButtonOn: {
+    backgroundColor: '#6366f1',
+  },
+  controlLabel: {
+    fontSize: 12,
+    color: '#d1d5db',
   },
   endCallButton: {
     backgroundColor: '#ef4444',
@@ -60,8 +364,8 @@ const styles = StyleSheet.create({
     borderRadius: 35,
     justifyContent: 'center',
     alignItems: 'center',
-    marginTop: 30,
+    marginBottom: 8,
   },
 });
 
-export default CallScreen; 
\ No newline at end of file
+export default CallScreen;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -19,6 +19,7 @@ import {
   Modal,
   Linking,
   Animated,
+  AppState,
 } from 'react-native';
 import { useRoute, RouteProp, useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -26,12 +27,84 @@ import { Ionicons, MaterialIcons, FontAwesome } from '@expo/vector-icons';
 import { RootStackParamList } from '../navigation/types';
 import * as socketService from '../services/socketService';
 import * as chatService from '../services/chatService';
-import { Socket } from 'socket.io-client';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { format } from 'date-fns';
 import { Audio } from 'expo-av';
 // import NetInfo from '@react-native-community/netinfo';
-import { checkNetworkConnectivity, enhancedJoinChatRoom, isSocketInRoom, getSocket } from '../services/socketService';
+import {
+  checkNetworkConnectivity,
+  createTypingNotifier,
+  enhancedJoinChatRoom,
+  isSocketInRoom,
+  sendReadReceipt
+} from '../services/socketService';
+import { socketManager, AppSocket } from '../services/socketManager';
+import { SOCKET_EVENTS, SocketChatMessage } from '../services/socketEvents';
+import { beginBusySession, endBusySession } from '../services/presenceService';
+import {
+  OutboxMessage,
+  OutboxStatus,
+  enqueueMessage,
+  getOutboxMessages,
+  retryMessage,
+  subscribeToOutbox
+} from '../services/messageOutbox';
+import { getCachedMessages, getMessageTime, mergeMessages, saveCachedMessages } from '../services/messageCache';
+import {
+  LocalAttachment,
+  MessageAttachment,
+  pickDocument,
+  pickImage,
+  toAttachmentKind,
+  validateAttachment
+} from '../services/attachmentService';
+import MessageAttachmentView from '../components/MessageAttachmentView';
+import ImageViewerModal from '../components/ImageViewerModal';
+import VoiceNoteRecorder from '../components/VoiceNoteRecorder';
+import MessageTemplatePicker from '../components/MessageTemplatePicker';
+import ClientNotesPanel from '../components/ClientNotesPanel';
+import FollowUpSheet from '../components/FollowUpSheet';
+import { buildTemplateContext } from '../services/templateService';
+import BirthDetailsCard from '../components/BirthDetailsCard';
+import { getUserById } from '../services/userService';
+import {
+  BIRTH_DETAILS_REQUEST_TYPE,
+  BIRTH_DETAILS_RESPONSE_TYPE,
+  BirthDetails,
+  formatBirthDate,
+  formatBirthPlace,
+  getBirthDetailsFromMessage,
+  getBirthDetailsFromUser,
+  isSameBirthDetails,
+  requestBirthDetails,
+  saveBirthDetailsToUser,
+  validateBirthDetails
+} from '../services/birthDetailsService';
+import SessionMeterBar from '../components/SessionMeterBar';
+import { getBookingById } from '../services/bookingService';
+import {
+  SESSION_ENDED_TYPE,
+  SESSION_WARNING_TYPE,
+  endSession,
+  getSessionStartedAt,
+  sendSessionWarning,
+  startSession
+} from '../services/sessionMeterService';
+
+// Messages fetched per page when scrolling back through history
+const MESSAGE_PAGE_SIZE = 30;
+
+// Hide the client's typing indicator if no update arrives, e.g. their "stopped" event was lost
+const TYPING_INDICATOR_TIMEOUT_MS = 6000;
+
+// Batch read receipts for messages that arrive close together
+const READ_RECEIPT_DELAY_MS = 1000;
+
+// Pages of history to load while looking for a message opened from search
+const MAX_JUMP_PAGES = 10;
+
+// How long a message opened from search stays highlighted
+const JUMP_HIGHLIGHT_MS = 3000;
 
 // Message interface
 interface Message {
@@ -49,6 +122,12 @@ interface Message {
   receiverId?: string;
   messageType?: string;
   temporaryId?: string;
+  // Delivery state of a message this astrologer sent from the outbox
+  deliveryStatus?: OutboxStatus;
+  attachments?: MessageAttachment[];
+  // Fraction of the attachment uploaded while it's being sent
+  uploadProgress?: number;
+  birthDetails?: SocketChatMessage['birthDetails'];
 }
 
 // Chat data interface
@@ -64,10 +143,85 @@ interface ChatData {
     consultationType: string;
     amount: number;
     status: string;
+    startTime?: string;
+    // When the session was started, from startSession
+    startedAt?: string;
+    createdAt?: string;
+    // Purchased minutes
+    duration?: number;
   };
   messages: Message[];
+  status?: string;
 }
 
+// Convert a validated socket message into the shape the message list renders
+const toMessage = (message: SocketChatMessage): Message => ({
+  _id: message._id,
+  id: message.id,
+  temporaryId: message.temporaryId,
+  message: message.message ?? message.content ?? '',
+  content: message.content,
+  timestamp: message.timestamp ?? message.createdAt ?? Date.now(),
+  createdAt: message.createdAt,
+  senderType: message.senderType ?? 'user',
+  sender: typeof message.sender === 'string' ? message.sender : message.sender?._id,
+  read: message.read,
+  status: message.status,
+  messageType: message.messageType,
+  attachments: message.attachments?.map(attachment => ({
+    ...attachment,
+    type: toAttachmentKind(attachment.type)
+  })),
+  birthDetails: message.birthDetails
+});
+
+// Show a queued message in the list until the server's copy arrives
+const outboxToMessage = (entry: OutboxMessage): Message => ({
+  _id: entry.serverId,
+  temporaryId: entry.temporaryId,
+  message: entry.message,
+  content: entry.message,
+  timestamp: entry.createdAt,
+  senderType: 'astrologer',
+  messageType: entry.messageType,
+  deliveryStatus: entry.status,
+  // Until the upload finishes, preview the file from the device
+  attachments: entry.uploadedAttachment
+    ? [entry.uploadedAttachment]
+    : entry.attachment
+      ? [{ ...entry.attachment, url: entry.attachment.uri }]
+      : undefined,
+  uploadProgress: entry.attachment && entry.status === 'sending' ? entry.uploadProgress ?? 0 : undefined
+});
+
+const DELIVERY_ICONS: Record<Exclude<OutboxStatus, 'failed'>, string> = {
+  queued: 'time-outline',
+  sending: 'time-outline',
+  sent: 'checkmark',
+  delivered: 'checkmark-done',
+  read: 'checkmark-done'
+};
+
+const RECEIPT_ORDER: OutboxStatus[] = ['sent', 'delivered', 'read'];
+
+// Ticks for a sent message: the further of what the outbox saw and what the server reports
+const getDeliveryStatus = (item: Message): OutboxStatus | undefined => {
+  if (item.senderType !== 'astrologer') return undefined;
+  if (item.deliveryStatus && !RECEIPT_ORDER.includes(item.deliveryStatus)) return item.deliveryStatus;
+  
+  const serverStatus: OutboxStatus | undefined = item.read || item.status === 'read'
+    ? 'read'
+    : item.status === 'delivered'
+      ? 'delivered'
+      : item._id ? 'sent' : undefined;
+  
+  if (!item.deliveryStatus) return serverStatus;
+  if (!serverStatus) return item.deliveryStatus;
+  return RECEIPT_ORDER.indexOf(serverStatus) > RECEIPT_ORDER.indexOf(item.deliveryStatus)
+    ? serverStatus
+    : item.deliveryStatus;
+};
+
 // Helper function to extract chat ID from response data
 const extractChatId = (data: any): string | null => {
   if (!data) return null;
@@ -87,12 +241,14 @@ const ChatScreen = () => {
   interface ChatRouteParams {
     chatId?: string;
     bookingId?: string;
+    messageId?: string;
   }
   
   // Extract params with type safety
   const params = route.params as ChatRouteParams || {};
   const chatId = params.chatId;
   const bookingId = params.bookingId;
+  const targetMessageId = params.messageId;
   const [chatData, setChatData] = useState<ChatData | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [message, setMessage] = useState('');
@@ -103,9 +259,10 @@ const ChatScreen = () => {
   const [isConnecting, setIsConnecting] = useState(false);
   const [userTyping, setUserTyping] = useState(false);
   const [typingTimeout, setTypingTimeout] = useState<NodeJS.Timeout | null>(null);
-  const flatListRef = useRef<FlatList>(null);
+  const flatListRef = useRef<FlatList<Message>>(null);
   const socketConnected = useRef(false);
-  const socketRef = useRef<Socket | null>(null);
+  const socketRef = useRef<AppSocket | null>(null);
+  const typingNotifier = useRef<ReturnType<typeof createTypingNotifier> | null>(null);
   
   // Handle sending messages
   const handleSendMessage = async () => {
@@ -115,48 +272,18 @@ const ChatScreen = () => {
     
     try {
       setSending(true);
+      typingNotifier.current?.stopTyping();
       
-      // Create a temporary message to show immediately in the UI
-      const tempMessage: Message = {
-        _id: `temp-${Date.now()}`,
-        message: message.trim(),
-        content: message.trim(),
-        timestamp: new Date(),
-        senderType: 'astrologer',
-        read: false,
-        temporaryId: `temp-${Date.now()}`
-      };
-      
-      // Add to messages array immediately for UI feedback
-      setMessages(prevMessages => [...prevMessages, tempMessage]);
+      // The outbox saves the message and keeps retrying until the server has it,
+      // so it shows up in the list straight away and survives the app being closed
+      await enqueueMessage({
+        chatId: currentChatId,
+        bookingId: currentBookingId || undefined,
+        message: message.trim()
+      });
       
       // Clear the input
       setMessage('');
-      
-      // Send via socket if connected
-      if (socketRef.current?.connected) {
-        socketRef.current.emit('chat:sendMessage', {
-          chatId: currentChatId,
-          bookingId: currentBookingId,
-          message: tempMessage.message,
-          senderType: 'astrologer'
-        });
-      }
-      
-      // Also send via API as backup
-      try {
-        const response = await chatService.chatService.sendMessage(
-          currentChatId,
-          tempMessage.message,
-          'text',  // messageType
-          currentBookingId || undefined
-        );
-        
-        console.log('Message sent via API:', response);
-      } catch (apiError) {
-        console.error('Failed to send message via API:', apiError);
-        // We don't show an error here since the socket might have worked
-      }
     } catch (error) {
       console.error('Error sending message:', error);
       Alert.alert('Error', 'Failed to send message. Please try again.');
@@ -165,6 +292,229 @@ const ChatScreen = () => {
     }
   };
   
+  // Queue a picked image or PDF; it's uploaded when the outbox sends it
+  const sendAttachment = async (attachment: LocalAttachment | null) => {
+    if (!attachment || !currentChatId) return;
+    
+    const validationError = validateAttachment(attachment);
+    if (validationError) {
+      Alert.alert('Cannot send file', validationError);
+      return;
+    }
+    
+    try {
+      await enqueueMessage({
+        chatId: currentChatId,
+        bookingId: currentBookingId || undefined,
+        // Any typed text goes with the file as its caption
+        message: message.trim(),
+        attachment
+      });
+      setMessage('');
+    } catch (error) {
+      console.error('Error sending attachment:', error);
+      Alert.alert('Error', 'Failed to send file. Please try again.');
+    }
+  };
+  
+  const handleAttach = () => {
+    const pickAndSend = async (pick: () => Promise<LocalAttachment | null>) => {
+      try {
+        await sendAttachment(await pick());
+      } catch (error) {
+        console.error('Error picking attachment:', error);
+        Alert.alert('Error', error instanceof Error ? error.message : 'Could not open the file picker.');
+      }
+    };
+    
+    Alert.alert('Send a file', undefined, [
+      { text: 'Photo', onPress: () => pickAndSend(pickImage) },
+      { text: 'PDF document', onPress: () => pickAndSend(pickDocument) },
+      { text: 'Cancel', style: 'cancel' }
+    ]);
+  };
+  
+  // Voice notes go through the outbox like any other attachment
+  const sendVoiceNote = async (attachment: LocalAttachment) => {
+    if (!currentChatId) return;
+    
+    try {
+      await enqueueMessage({
+        chatId: currentChatId,
+        bookingId: currentBookingId || undefined,
+        message: '',
+        attachment
+      });
+    } catch (error) {
+      console.error('Error sending voice note:', error);
+      Alert.alert('Error', 'Failed to send voice note. Please try again.');
+    }
+  };
+  
+  // Ask for birth details with a form card; if they're already on file, check before asking again
+  const handleRequestBirthDetails = () => {
+    if (!currentChatId) return;
+    
+    const sendRequest = async () => {
+      try {
+        await requestBirthDetails(currentChatId, currentBookingId || undefined);
+      } catch (error) {
+        console.error('Error requesting birth details:', error);
+        Alert.alert('Error', 'Failed to send the request. Please try again.');
+      }
+    };
+    
+    if (!clientBirthDetails) {
+      sendRequest();
+      return;
+    }
+    
+    Alert.alert(
+      'Birth details on file',
+      `${formatBirthDate(clientBirthDetails.date)}, ${clientBirthDetails.time}\n${formatBirthPlace(clientBirthDetails.place)}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Ask again', onPress: sendRequest }
+      ]
+    );
+  };
+  
+  // Attach the client's answer to their profile so later sessions can reuse it
+  const saveBirthDetails = async (details: Partial<BirthDetails>, showErrors = true) => {
+    const userId = chatData?.user?._id;
+    if (!userId) return;
+    
+    try {
+      setSavingBirthDetails(true);
+      setClientBirthDetails(await saveBirthDetailsToUser(userId, details));
+    } catch (error: any) {
+      console.error('Error saving birth details:', error);
+      if (showErrors) {
+        Alert.alert('Error', error.message || 'Failed to save birth details. Please try again.');
+      }
+    } finally {
+      setSavingBirthDetails(false);
+    }
+  };
+  
+  const updateBooking = (changes: Partial<ChatData['booking']>) => {
+    setChatData(prev => prev ? { ...prev, booking: { ...prev.booking, ...changes } } : prev);
+  };
+  
+  // The meter runs from when the server confirmed the start, not from the scheduled time
+  const handleStartSession = async () => {
+    if (!currentBookingId) return;
+    
+    try {
+      setStartingSession(true);
+      const booking = await startSession(currentBookingId);
+      updateBooking({ status: booking.status || 'active', startedAt: booking.startedAt });
+    } catch (error) {
+      console.error('Error starting session:', error);
+      Alert.alert('Error', 'Failed to start the session. Please try again.');
+    } finally {
+      setStartingSession(false);
+    }
+  };
+  
+  const handleSessionWarning = async (minutesLeft: number) => {
+    if (!currentChatId || !currentBookingId) return;
+    
+    try {
+      if (await sendSessionWarning(currentChatId, currentBookingId, minutesLeft)) {
+        Alert.alert('Session ending soon', `${minutesLeft} minute${minutesLeft === 1 ? '' : 's'} left in this consultation.`);
+      }
+    } catch (error) {
+      console.error('Error sending session warning:', error);
+    }
+  };
+  
+  const handleSessionTimeUp = async () => {
+    if (!currentChatId || !currentBookingId) return;
+    
+    try {
+      const booking = await endSession(currentChatId, currentBookingId);
+      updateBooking({ status: booking.status || 'completed' });
+      Alert.alert('Session ended', 'The purchased consultation time is over.');
+    } catch (error) {
+      console.error('Error ending session:', error);
+      Alert.alert('Error', 'The session time is over but it could not be closed.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Retry', onPress: handleSessionTimeUp }
+      ]);
+    }
+  };
+  
+  const openImagePreview = (url: string) => {
+    setSelectedImage(url);
+    setShowImagePreview(true);
+  };
+  
+  // Render whatever is cached for the chat while the server is asked for the rest
+  const showCachedMessages = async (chatId: string) => {
+    const cached = await getCachedMessages<Message>(chatId);
+    if (!cached || cached.messages.length === 0) return;
+    
+    setMessages(prevMessages => mergeMessages(cached.messages, prevMessages));
+    setHasMoreMessages(cached.hasMore);
+    setLoading(false);
+  };
+  
+  // Fetch only what arrived since the newest cached message, or the first page if nothing is cached
+  const loadLatestMessages = async (chatId: string, bookingId: string | undefined, fallback: Message[]) => {
+    const cached = await getCachedMessages<Message>(chatId);
+    const newest = cached?.messages[cached.messages.length - 1];
+    
+    if (cached && newest) {
+      setMessages(prevMessages => mergeMessages(cached.messages, prevMessages));
+      setHasMoreMessages(cached.hasMore);
+    }
+    
+    try {
+      const latest: Message[] = await chatService.chatService.getMessages(
+        chatId,
+        bookingId,
+        newest ? { after: new Date(getMessageTime(newest)).toISOString() } : { limit: MESSAGE_PAGE_SIZE }
+      );
+      setMessages(prevMessages => mergeMessages(prevMessages, latest));
+      if (!newest) {
+        setHasMoreMessages(latest.length >= MESSAGE_PAGE_SIZE);
+      }
+    } catch (fetchError) {
+      console.error('Error fetching latest messages:', fetchError);
+      // The chat itself came with its messages, so show those instead
+      setMessages(prevMessages => mergeMessages(prevMessages, fallback));
+    }
+    
+    setHasLoadedInitialMessages(true);
+  };
+  
+  // Fetch the page before the oldest loaded message when scrolling up
+  const loadOlderMessages = async () => {
+    if (!currentChatId || isLoadingMore || !hasMoreMessages || messages.length === 0) {
+      return;
+    }
+    
+    try {
+      setIsLoadingMore(true);
+      const oldestTime = getMessageTime(messages[0]);
+      const older: Message[] = await chatService.chatService.getMessages(
+        currentChatId,
+        currentBookingId || undefined,
+        { before: new Date(oldestTime).toISOString(), limit: MESSAGE_PAGE_SIZE }
+      );
+      
+      // A server that ignores the cursor sends back messages we already have
+      const hasOlder = older.some(item => getMessageTime(item) < oldestTime);
+      setMessages(prevMessages => mergeMessages(older, prevMessages));
+      setHasMoreMessages(hasOlder && older.length >= MESSAGE_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+  
   // Load messages from the server - declaration moved up for reference in performBackgroundRetries
   const loadMessages = async () => {
     try {
@@ -195,7 +545,11 @@ const ChatScreen = () => {
           console.log('Chat response:', chatResponse);
           const chatData = chatResponse.data || chatResponse;
           setChatData(chatData);
-          setMessages(chatData.messages || []);
+          if (currentChatId) {
+            await loadLatestMessages(currentChatId, currentBookingId || undefined, chatData.messages || []);
+          } else {
+            setMessages(chatData.messages || []);
+          }
           
           // Mark messages as read
           if (currentChatId) {
@@ -292,6 +646,9 @@ const ChatScreen = () => {
   const [astrologerId, setAstrologerId] = useState<string | null>(null);
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
   const [currentBookingId, setCurrentBookingId] = useState<string | null>(null);
+  // The connection listeners are set up before the chat is resolved, so they read it from here
+  const currentChatIdRef = useRef<string | null>(null);
+  currentChatIdRef.current = currentChatId;
   const [networkStatus, setNetworkStatus] = useState<boolean>(true);
   const [messageInput, setMessageInput] = useState<TextInput | null>(null);
   const [showScrollButton, setShowScrollButton] = useState(false);
@@ -299,8 +656,22 @@ const ChatScreen = () => {
   const [unreadCount, setUnreadCount] = useState(0);
   const [showImagePreview, setShowImagePreview] = useState(false);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [pendingMessages, setPendingMessages] = useState<Message[]>([]);
-  const [retryingMessages, setRetryingMessages] = useState<{[key: string]: boolean}>({});
+  const [outboxMessages, setOutboxMessages] = useState<OutboxMessage[]>([]);
+  const [isRecordingVoice, setIsRecordingVoice] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showNotes, setShowNotes] = useState(false);
+  const [showFollowUp, setShowFollowUp] = useState(false);
+  // Birth details saved on the client; undefined until they've been looked up
+  const [clientBirthDetails, setClientBirthDetails] = useState<BirthDetails | null | undefined>(undefined);
+  const [savingBirthDetails, setSavingBirthDetails] = useState(false);
+  // Answers already saved (or tried) automatically, so a failure isn't retried on every render
+  const autoSavedBirthDetails = useRef(new Set<string>());
+  const [startingSession, setStartingSession] = useState(false);
+  // Message opened from search, highlighted once it's scrolled into view
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const jumpedToMessage = useRef(false);
+  const jumpPagesLoaded = useRef(0);
+  const jumpScrollTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [lastMessageTimestamp, setLastMessageTimestamp] = useState<number>(0);
   const [notificationSound, setNotificationSound] = useState<Audio.Sound | null>(null);
   const [typingIndicatorVisible, setTypingIndicatorVisible] = useState(false);
@@ -311,7 +682,6 @@ const ChatScreen = () => {
   const [hasLoadedInitialMessages, setHasLoadedInitialMessages] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [hasMoreMessages, setHasMoreMessages] = useState(true);
-  const [page, setPage] = useState(1);
   const [isReconnecting, setIsReconnecting] = useState(false);
   const reconnectAttempts = useRef(0);
   const maxReconnectAttempts = 5;
@@ -325,10 +695,8 @@ const ChatScreen = () => {
   const [hasJoinedRoom, setHasJoinedRoom] = useState(false);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
   const [messagesMap, setMessagesMap] = useState<{[key: string]: Message}>({});
-  const [messageQueue, setMessageQueue] = useState<Message[]>([]);
-  const messageQueueProcessing = useRef(false);
   const [isSocketReady, setIsSocketReady] = useState(false);
-  const [socketInstance, setSocketInstance] = useState<Socket | null>(null);
+  const [socketInstance, setSocketInstance] = useState<AppSocket | null>(null);
   const [socketConnectionAttempts, setSocketConnectionAttempts] = useState(0);
   const [lastSocketConnectionAttempt, setLastSocketConnectionAttempt] = useState(0);
   const [socketConnectionStatus, setSocketConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
@@ -416,6 +784,10 @@ const ChatScreen = () => {
       
       console.log(`Initializing chat with chatId: ${chatId}, bookingId: ${bookingId}`);
       
+      if (chatId) {
+        showCachedMessages(chatId);
+      }
+      
       // Try to fetch existing chat
       let chatResponse;
       try {
@@ -481,7 +853,7 @@ const ChatScreen = () => {
       // Extract chat data and set messages
       const chatData = chatResponse.data || chatResponse;
       setChatData(chatData);
-      setMessages(chatData.messages || []);
+      await loadLatestMessages(extractedChatId, bookingId || chatData.booking?._id, chatData.messages || []);
       
       // Mark messages as read
       try {
@@ -718,11 +1090,9 @@ const ChatScreen = () => {
     }, 500);
     
     // Set up socket connection status listeners
-    const socket = getSocket();
-    if (socket) {
-      console.log('Setting up socket event listeners');
-      
-      socket.on('connect', () => {
+    console.log('Setting up socket event listeners');
+    const removeSocketListeners = [
+      socketManager.on('connect', () => {
         console.log('Socket connected event received');
         setIsConnected(true);
         setIsSocketReady(true);
@@ -738,9 +1108,9 @@ const ChatScreen = () => {
         if (currentChatId || currentBookingId) {
           tryJoinRoom();
         }
-      });
+      }),
       
-      socket.on('disconnect', () => {
+      socketManager.on('disconnect', () => {
         console.log('Socket disconnected event received');
         setIsConnected(false);
         setIsSocketReady(false);
@@ -753,9 +1123,9 @@ const ChatScreen = () => {
           lastDisconnectTime: new Date().toLocaleTimeString(),
           disconnectCount: (prev.disconnectCount || 0) + 1
         }));
-      });
+      }),
       
-      socket.on('connect_error', (error: Error) => {
+      socketManager.on('connect_error', (error: Error) => {
         console.error('Socket connection error:', error);
         setIsConnected(false);
         setIsSocketReady(false);
@@ -769,28 +1139,312 @@ const ChatScreen = () => {
           lastErrorMessage: error.message,
           errorCount: (prev.errorCount || 0) + 1
         }));
-      });
+      }),
       
       // Listen for new messages
-      socket.on('new_message', (message: Message) => {
+      socketManager.on(SOCKET_EVENTS.NEW_MESSAGE, (message) => {
         console.log('New message received:', message);
-        // Add the new message to our messages array
-        setMessages(prevMessages => [...prevMessages, message]);
-      });
-    }
+        if (message.chatId && message.chatId !== currentChatIdRef.current) return;
+        
+        // Add the new message to our messages array, unless it's the server echoing one we already have
+        setMessages(prevMessages => {
+          const isDuplicate = prevMessages.some(existing =>
+            (!!message._id && existing._id === message._id) ||
+            (!!message.temporaryId && existing.temporaryId === message.temporaryId)
+          );
+          return isDuplicate ? prevMessages : mergeMessages(prevMessages, [toMessage(message)]);
+        });
+      })
+    ];
     
     return () => {
-      // Clean up socket event listeners and other resources here
+      // Only remove this screen's listeners; the connection is shared
       console.log('ChatScreen unmounted, cleaning up...');
-      if (socket) {
-        socket.off('connect');
-        socket.off('disconnect');
-        socket.off('connect_error');
-        socket.off('new_message');
-      }
+      removeSocketListeners.forEach(removeListener => removeListener());
     };
   }, [chatId, bookingId]); // Re-initialize if chatId or bookingId changes
   
+  // Follow this chat's outgoing messages through the outbox
+  useEffect(() => {
+    if (!currentChatId) return;
+    
+    getOutboxMessages(currentChatId).then(setOutboxMessages);
+    return subscribeToOutbox(entries => {
+      setOutboxMessages(entries.filter(entry => entry.chatId === currentChatId));
+    });
+  }, [currentChatId]);
+  
+  // Typing indicators and read receipts for the open chat
+  useEffect(() => {
+    if (!currentChatId) return;
+    
+    typingNotifier.current = createTypingNotifier(currentChatId, currentBookingId || undefined);
+    let readReceiptTimer: NodeJS.Timeout | null = null;
+    let unreadIds: string[] = [];
+    
+    const hideTypingIndicator = () => {
+      if (typingIndicatorTimeout.current) {
+        clearTimeout(typingIndicatorTimeout.current);
+        typingIndicatorTimeout.current = null;
+      }
+      setUserTyping(false);
+    };
+    
+    // Read receipts only go out while the astrologer can actually see the chat
+    const markIncomingAsRead = () => {
+      readReceiptTimer = null;
+      if (AppState.currentState !== 'active' || unreadIds.length === 0) return;
+      
+      const messageIds = unreadIds;
+      unreadIds = [];
+      sendReadReceipt(currentChatId, messageIds);
+      chatService.chatService.markMessagesAsRead(currentChatId, currentBookingId || undefined)
+        .catch(error => console.error('Error marking messages as read:', error));
+    };
+    
+    const removeListeners = [
+      socketManager.on(SOCKET_EVENTS.CHAT_TYPING, data => {
+        if (data.chatId !== currentChatId || (!!astrologerId && data.userId === astrologerId)) return;
+        
+        if (!data.isTyping) {
+          hideTypingIndicator();
+          return;
+        }
+        
+        setUserTyping(true);
+        if (typingIndicatorTimeout.current) clearTimeout(typingIndicatorTimeout.current);
+        typingIndicatorTimeout.current = setTimeout(hideTypingIndicator, TYPING_INDICATOR_TIMEOUT_MS);
+      }),
+      
+      socketManager.on(SOCKET_EVENTS.CHAT_MESSAGE_DELIVERED, data => {
+        if (data.chatId !== currentChatId) return;
+        setMessages(prev => prev.map(item =>
+          item._id === data.messageId && !item.read && item.status !== 'read' ? { ...item, status: 'delivered' } : item
+        ));
+      }),
+      
+      socketManager.on(SOCKET_EVENTS.CHAT_MESSAGES_READ, data => {
+        if (data.chatId !== currentChatId) return;
+        // Without message IDs, everything the astrologer sent has been read
+        setMessages(prev => prev.map(item =>
+          item.senderType === 'astrologer' && (!data.messageIds || (!!item._id && data.messageIds.includes(item._id)))
+            ? { ...item, read: true, status: 'read' }
+            : item
+        ));
+      }),
+      
+      socketManager.on(SOCKET_EVENTS.NEW_MESSAGE, message => {
+        if ((message.chatId && message.chatId !== currentChatId) || message.senderType === 'astrologer') return;
+        
+        // A message means the client has stopped typing
+        hideTypingIndicator();
+        
+        const messageId = message._id || message.id;
+        if (!messageId) return;
+        unreadIds = [...unreadIds, messageId];
+        if (!readReceiptTimer) {
+          readReceiptTimer = setTimeout(markIncomingAsRead, READ_RECEIPT_DELAY_MS);
+        }
+      })
+    ];
+    
+    // Catch up on anything that arrived while the app was in the background
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active' && unreadIds.length > 0) {
+        markIncomingAsRead();
+      }
+    });
+    
+    return () => {
+      removeListeners.forEach(removeListener => removeListener());
+      subscription.remove();
+      if (readReceiptTimer) clearTimeout(readReceiptTimer);
+      hideTypingIndicator();
+      typingNotifier.current?.stopTyping();
+      typingNotifier.current = null;
+    };
+  }, [currentChatId, currentBookingId, astrologerId]);
+  
+  const handleMessageChange = (text: string) => {
+    setMessage(text);
+    if (text.trim()) {
+      typingNotifier.current?.notifyTyping();
+    } else {
+      typingNotifier.current?.stopTyping();
+    }
+  };
+  
+  // Keep the cache in step so reopening the chat renders immediately
+  useEffect(() => {
+    if (!currentChatId || !hasLoadedInitialMessages) return;
+    saveCachedMessages(currentChatId, messages, hasMoreMessages);
+  }, [currentChatId, messages, hasMoreMessages, hasLoadedInitialMessages]);
+  
+  // Chats don't always carry the booking's start time and duration, so fetch them for the meter
+  useEffect(() => {
+    if (!currentBookingId || !chatData || chatData.booking?.duration) return;
+    
+    getBookingById(currentBookingId)
+      .then(booking => updateBooking({
+        status: booking.status,
+        startTime: booking.startTime,
+        duration: booking.duration
+      }))
+      .catch(error => console.error('Error loading booking for session meter:', error));
+  }, [currentBookingId, !!chatData]);
+  
+  // Keep metering a session started on this device from when it was started
+  useEffect(() => {
+    if (!currentBookingId || !chatData) return;
+    
+    getSessionStartedAt(currentBookingId).then(startedAt => {
+      if (startedAt) updateBooking({ startedAt });
+    });
+  }, [currentBookingId, !!chatData]);
+  
+  // Look up the client's saved birth details once we know who they are
+  useEffect(() => {
+    const userId = chatData?.user?._id;
+    if (!userId) return;
+    
+    getUserById(userId)
+      .then(user => setClientBirthDetails(getBirthDetailsFromUser(user)))
+      .catch(() => setClientBirthDetails(null));
+  }, [chatData?.user?._id]);
+  
+  // Save the client's latest valid answer automatically
+  useEffect(() => {
+    if (clientBirthDetails === undefined || savingBirthDetails) return;
+    
+    const latestAnswer = [...messages].reverse().find(item =>
+      item.senderType === 'user' && item.messageType === BIRTH_DETAILS_RESPONSE_TYPE
+    );
+    const details = latestAnswer ? getBirthDetailsFromMessage(latestAnswer) : null;
+    const key = latestAnswer?._id || latestAnswer?.temporaryId;
+    if (!details || !key || autoSavedBirthDetails.current.has(key)) return;
+    if (validateBirthDetails(details).length > 0 || isSameBirthDetails(clientBirthDetails, details)) return;
+    
+    autoSavedBirthDetails.current.add(key);
+    saveBirthDetails(details, false);
+  }, [messages, clientBirthDetails, savingBirthDetails]);
+  
+  // Server messages plus anything still in the outbox, each shown once with its delivery state
+  const displayedMessages = useMemo(() => {
+    const unmatched = [...outboxMessages];
+    const merged = messages.map(item => {
+      const index = unmatched.findIndex(entry =>
+        (!!item.temporaryId && entry.temporaryId === item.temporaryId) ||
+        (!!item._id && entry.serverId === item._id)
+      );
+      if (index === -1) return item;
+      
+      const [entry] = unmatched.splice(index, 1);
+      return { ...item, temporaryId: entry.temporaryId, deliveryStatus: entry.status };
+    });
+    
+    // Newest first, since the list is inverted
+    return [...merged, ...unmatched.map(outboxToMessage)].reverse();
+  }, [messages, outboxMessages]);
+  
+  // Scroll to the message opened from search, paging back through history until it turns up
+  useEffect(() => {
+    if (!targetMessageId || jumpedToMessage.current || !hasLoadedInitialMessages) return;
+    
+    const index = displayedMessages.findIndex(item => item._id === targetMessageId || item.id === targetMessageId);
+    if (index === -1) {
+      if (hasMoreMessages && !isLoadingMore && jumpPagesLoaded.current < MAX_JUMP_PAGES) {
+        jumpPagesLoaded.current += 1;
+        loadOlderMessages();
+      }
+      return;
+    }
+    
+    jumpedToMessage.current = true;
+    setHighlightedMessageId(targetMessageId);
+    // Kept in a ref rather than cleared on re-run, since new messages shouldn't cancel the scroll
+    jumpScrollTimeout.current = setTimeout(() => {
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    }, 100);
+  }, [targetMessageId, displayedMessages, hasLoadedInitialMessages, hasMoreMessages, isLoadingMore]);
+  
+  useEffect(() => {
+    return () => {
+      if (jumpScrollTimeout.current) clearTimeout(jumpScrollTimeout.current);
+    };
+  }, []);
+  
+  // Fade the highlight out after a while
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    
+    const timeoutId = setTimeout(() => setHighlightedMessageId(null), JUMP_HIGHLIGHT_MS);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedMessageId]);
+  
+  // When the client last answered a birth details request, to mark earlier requests as answered
+  const lastBirthDetailsAnswerTime = useMemo(() => {
+    const answer = displayedMessages.find(item => item.messageType === BIRTH_DETAILS_RESPONSE_TYPE);
+    return answer ? getMessageTime(answer) : 0;
+  }, [displayedMessages]);
+  
+  const renderBirthDetails = (item: Message) => {
+    if (item.messageType === BIRTH_DETAILS_REQUEST_TYPE) {
+      return (
+        <BirthDetailsCard
+          messageType={item.messageType}
+          answered={lastBirthDetailsAnswerTime > getMessageTime(item)}
+        />
+      );
+    }
+    
+    const details = getBirthDetailsFromMessage(item);
+    return (
+      <BirthDetailsCard
+        messageType={BIRTH_DETAILS_RESPONSE_TYPE}
+        details={details}
+        saved={isSameBirthDetails(clientBirthDetails ?? null, details)}
+        saving={savingBirthDetails}
+        onSave={details && chatData?.user?._id ? () => saveBirthDetails(details) : undefined}
+      />
+    );
+  };
+  
+  const renderDeliveryStatus = (item: Message) => {
+    const deliveryStatus = getDeliveryStatus(item);
+    if (!deliveryStatus) return null;
+    
+    if (deliveryStatus === 'failed') {
+      return (
+        <TouchableOpacity onPress={() => item.temporaryId && retryMessage(item.temporaryId)}>
+          <Text style={styles.failedText}>Not sent. Tap to retry</Text>
+        </TouchableOpacity>
+      );
+    }
+    
+    return (
+      <Ionicons
+        name={DELIVERY_ICONS[deliveryStatus] as any}
+        size={14}
+        color={deliveryStatus === 'read' ? '#6366f1' : '#999'}
+        style={styles.deliveryIcon}
+      />
+    );
+  };
+  
+  // Keep the astrologer busy while a live chat is open; opening a pending or past chat doesn't count
+  const isChatLive = !!currentChatId && chatData?.booking?.status === 'active';
+  
+  useEffect(() => {
+    if (!isChatLive || !currentChatId) return;
+    
+    const sessionId = `chat:${currentChatId}`;
+    beginBusySession(sessionId);
+    
+    return () => {
+      endBusySession(sessionId);
+    };
+  }, [isChatLive, currentChatId]);
+  
   // Define styles for the component
   const styles = StyleSheet.create({
     container: {
@@ -813,6 +1467,18 @@ const ChatScreen = () => {
       fontWeight: 'bold',
       marginLeft: 10,
     },
+    typingText: {
+      fontSize: 12,
+      color: '#6366f1',
+      marginLeft: 10,
+    },
+    followUpButton: {
+      marginLeft: 'auto',
+      padding: 10,
+    },
+    headerIconButton: {
+      padding: 10,
+    },
     loadingContainer: {
       flex: 1,
       justifyContent: 'center',
@@ -854,6 +1520,10 @@ const ChatScreen = () => {
       alignSelf: 'flex-start',
       backgroundColor: '#fff',
     },
+    highlightedMessage: {
+      borderWidth: 2,
+      borderColor: '#facc15',
+    },
     messageText: {
       fontSize: 16,
     },
@@ -863,6 +1533,35 @@ const ChatScreen = () => {
       alignSelf: 'flex-end',
       marginTop: 5,
     },
+    loadingMore: {
+      marginVertical: 10,
+    },
+    sessionNotice: {
+      alignSelf: 'center',
+      marginVertical: 6,
+      paddingHorizontal: 12,
+      paddingVertical: 4,
+      borderRadius: 12,
+      backgroundColor: '#fef3c7',
+      color: '#92400e',
+      fontSize: 13,
+      overflow: 'hidden',
+    },
+    messageMeta: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'flex-end',
+    },
+    deliveryIcon: {
+      marginLeft: 4,
+      marginTop: 5,
+    },
+    failedText: {
+      fontSize: 12,
+      color: '#ef4444',
+      marginLeft: 6,
+      marginTop: 5,
+    },
     inputContainer: {
       flexDirection: 'row',
       padding: 10,
@@ -871,6 +1570,23 @@ const ChatScreen = () => {
       backgroundColor: '#f5f5f5',
       alignItems: 'center',
     },
+    attachButton: {
+      padding: 6,
+      marginRight: 4,
+    },
+    birthDetailsBar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      backgroundColor: '#eef2ff',
+    },
+    birthDetailsBarText: {
+      flex: 1,
+      marginLeft: 6,
+      fontSize: 13,
+      color: '#4b5563',
+    },
     input: {
       flex: 1,
       padding: 12,
@@ -923,11 +1639,41 @@ const ChatScreen = () => {
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Text>Back</Text>
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>
-          {chatData?.user?.name || 'Chat'}
-        </Text>
+        <View>
+          <Text style={styles.headerTitle}>
+            {chatData?.user?.name || 'Chat'}
+          </Text>
+          {userTyping && <Text style={styles.typingText}>typing...</Text>}
+        </View>
+        <TouchableOpacity onPress={() => setShowFollowUp(true)} style={styles.followUpButton}>
+          <Ionicons name="alarm-outline" size={22} color="#6366f1" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setShowNotes(true)} style={styles.headerIconButton}>
+          <Ionicons name="document-text-outline" size={22} color="#6366f1" />
+        </TouchableOpacity>
       </View>
 
+      {/* Paid session time */}
+      {chatData?.booking && currentBookingId && (
+        <SessionMeterBar
+          booking={chatData.booking}
+          starting={startingSession}
+          onStart={handleStartSession}
+          onWarning={handleSessionWarning}
+          onTimeUp={handleSessionTimeUp}
+        />
+      )}
+
+      {/* Birth details from an earlier session */}
+      {!!clientBirthDetails && (
+        <View style={styles.birthDetailsBar}>
+          <Ionicons name="planet-outline" size={14} color="#6366f1" />
+          <Text style={styles.birthDetailsBarText} numberOfLines={1}>
+            {formatBirthDate(clientBirthDetails.date)} · {clientBirthDetails.time} · {formatBirthPlace(clientBirthDetails.place)}
+          </Text>
+        </View>
+      )}
+
       {/* Loading indicator */}
       {loading && (
         <View style={styles.loadingContainer}>
@@ -947,26 +1693,56 @@ const ChatScreen = () => {
       )}
 
       {/* Chat messages */}
-      {!loading && !error && messages.length > 0 && (
+      {!loading && !error && displayedMessages.length > 0 && (
         <FlatList
-          data={messages}
-          keyExtractor={(item) => item._id || item.temporaryId || String(item.timestamp)}
-          renderItem={({ item }) => (
+          ref={flatListRef}
+          data={displayedMessages}
+          keyExtractor={(item) => item.temporaryId || item._id || String(item.timestamp)}
+          renderItem={({ item }) => item.messageType === SESSION_WARNING_TYPE || item.messageType === SESSION_ENDED_TYPE ? (
+            <Text style={styles.sessionNotice}>{item.content || item.message}</Text>
+          ) : (
             <View style={[styles.messageContainer, 
-              item.senderType === 'astrologer' ? styles.sentMessage : styles.receivedMessage
+              item.senderType === 'astrologer' ? styles.sentMessage : styles.receivedMessage,
+              !!highlightedMessageId && item._id === highlightedMessageId && styles.highlightedMessage
             ]}>
-              <Text style={styles.messageText}>{item.content}</Text>
-              <Text style={styles.timestamp}>
-                {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-              </Text>
+              {item.attachments?.map(attachment => (
+                <MessageAttachmentView
+                  key={attachment.url}
+                  attachment={attachment}
+                  uploadProgress={item.uploadProgress}
+                  onImagePress={openImagePreview}
+                />
+              ))}
+              {item.messageType === BIRTH_DETAILS_REQUEST_TYPE || item.messageType === BIRTH_DETAILS_RESPONSE_TYPE
+                ? renderBirthDetails(item)
+                : !!item.content && <Text style={styles.messageText}>{item.content}</Text>}
+              <View style={styles.messageMeta}>
+                <Text style={styles.timestamp}>
+                  {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </Text>
+                {renderDeliveryStatus(item)}
+              </View>
             </View>
           )}
           inverted
+          // The end of an inverted list is the top of the screen, i.e. older messages
+          onEndReached={loadOlderMessages}
+          onEndReachedThreshold={0.2}
+          // Rows vary in height, so jump close to the message first and then scroll to it exactly
+          onScrollToIndexFailed={({ index, averageItemLength }) => {
+            flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+            setTimeout(() => {
+              flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+            }, 200);
+          }}
+          ListFooterComponent={isLoadingMore ? (
+            <ActivityIndicator size="small" color="#6366f1" style={styles.loadingMore} />
+          ) : null}
         />
       )}
 
       {/* Empty state */}
-      {!loading && !error && messages.length === 0 && (
+      {!loading && !error && displayedMessages.length === 0 && (
         <View style={styles.emptyContainer}>
           <Text>No messages yet. Start the conversation!</Text>
         </View>
@@ -978,28 +1754,89 @@ const ChatScreen = () => {
         keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
         style={styles.inputContainer}
       >
-        <TextInput
-          placeholder="Type a message..."
-          style={styles.input}
-          value={message}
-          onChangeText={setMessage}
-          onSubmitEditing={handleSendMessage}
-          returnKeyType="send"
-          blurOnSubmit={false}
-          multiline={false}
-          autoFocus={false}
-          autoCorrect={true}
-          autoCapitalize="sentences"
-        />
-        <TouchableOpacity 
-          style={styles.sendButton}
-          onPress={handleSendMessage}
-          disabled={!message.trim() || sending}
-        >
-          <Text style={styles.sendButtonText}>{sending ? 'Sending...' : 'Send'}</Text>
-        </TouchableOpacity>
+        {isRecordingVoice ? (
+          <VoiceNoteRecorder onRecorded={sendVoiceNote} onClose={() => setIsRecordingVoice(false)} />
+        ) : (
+          <>
+          <TouchableOpacity style={styles.attachButton} onPress={handleAttach} disabled={!currentChatId}>
+            <Ionicons name="attach" size={24} color="#6b7280" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.attachButton} onPress={() => setShowTemplates(true)}>
+            <Ionicons name="chatbox-ellipses-outline" size={22} color="#6b7280" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.attachButton} onPress={handleRequestBirthDetails} disabled={!currentChatId}>
+            <Ionicons name="planet-outline" size={22} color="#6b7280" />
+          </TouchableOpacity>
+          <TextInput
+            placeholder="Type a message..."
+            style={styles.input}
+            value={message}
+            onChangeText={handleMessageChange}
+            onSubmitEditing={handleSendMessage}
+            returnKeyType="send"
+            blurOnSubmit={false}
+            multiline={false}
+            autoFocus={false}
+            autoCorrect={true}
+            autoCapitalize="sentences"
+          />
+          {message.trim() ? (
+            <TouchableOpacity 
+              style={styles.sendButton}
+              onPress={handleSendMessage}
+              disabled={sending}
+            >
+              <Text style={styles.sendButtonText}>{sending ? 'Sending...' : 'Send'}</Text>
+            </TouchableOpacity>
+          ) : (
+            // With nothing typed, the send button records a voice note instead
+            <TouchableOpacity 
+              style={styles.sendButton}
+              onPress={() => setIsRecordingVoice(true)}
+              disabled={!currentChatId}
+            >
+              <Ionicons name="mic" size={22} color="white" />
+            </TouchableOpacity>
+          )}
+          </>
+        )}
       </KeyboardAvoidingView>
 
+      <MessageTemplatePicker
+        visible={showTemplates}
+        context={buildTemplateContext(chatData)}
+        onSelect={setMessage}
+        onClose={() => setShowTemplates(false)}
+        onManageTemplates={() => navigation.navigate('MessageTemplates' as never)}
+      />
+
+      <ClientNotesPanel
+        visible={showNotes}
+        userId={chatData?.user?._id}
+        userName={chatData?.user?.name}
+        bookingId={currentBookingId || undefined}
+        onClose={() => setShowNotes(false)}
+      />
+
+      <FollowUpSheet
+        visible={showFollowUp}
+        followUp={chatData?.user?._id ? {
+          userId: chatData.user._id,
+          userName: chatData.user.name,
+          bookingId: currentBookingId || undefined,
+          chatId: currentChatId || undefined,
+          consultationType: chatData.booking?.consultationType,
+          bookingDate: chatData.booking?.startTime || chatData.booking?.createdAt
+        } : null}
+        onClose={() => setShowFollowUp(false)}
+      />
+
+      <ImageViewerModal
+        visible={showImagePreview}
+        imageUrl={selectedImage}
+        onClose={() => setShowImagePreview(false)}
+      />
+
       {/* Debug info */}
       <View style={{ position: 'absolute', bottom: 100, right: 10, backgroundColor: 'rgba(0,0,0,0.7)', padding: 10, borderRadius: 5, display: showDiagnostics ? 'flex' : 'none' }}>
         <Text style={{ color: 'white', fontSize: 10, fontWeight: 'bold' }}>CHAT DIAGNOSTICS</Text>
@@ -0,0 +1,429 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { RootStackParamList } from '../types/navigation';
+import { chatService } from '../services/chatService';
+import {
+  ChatSearchFilters,
+  ChatSearchGroup,
+  HighlightSegment,
+  MAX_MATCHES_PER_CLIENT,
+  SearchableChat,
+  getCachedSearchableChats,
+  searchChats
+} from '../services/chatSearchService';
+
+// Wait for the astrologer to pause typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DateRangeKey = 'any' | 'today' | 'week' | 'month' | 'custom';
+
+const DATE_RANGES: { key: DateRangeKey; label: string }[] = [
+  { key: 'any', label: 'Any time' },
+  { key: 'today', label: 'Today' },
+  { key: 'week', label: 'Last 7 days' },
+  { key: 'month', label: 'Last 30 days' },
+  { key: 'custom', label: 'Custom' }
+];
+
+const CONSULTATION_TYPES: { key: string; label: string }[] = [
+  { key: '', label: 'All types' },
+  { key: 'chat', label: 'Chat' },
+  { key: 'call', label: 'Call' },
+  { key: 'video', label: 'Video' }
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A YYYY-MM-DD date as the start or end of that local day
+const parseDateInput = (value: string, endOfDay: boolean): Date | undefined => {
+  if (!DATE_PATTERN.test(value.trim())) return undefined;
+  const date = new Date(`${value.trim()}T${endOfDay ? '23:59:59.999' : '00:00:00'}`);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const getDateFilters = (range: DateRangeKey, customFrom: string, customTo: string): Pick<ChatSearchFilters, 'from' | 'to'> => {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  switch (range) {
+    case 'today':
+      return { from: startOfToday };
+    case 'week':
+      return { from: new Date(startOfToday.getTime() - 6 * DAY_MS) };
+    case 'month':
+      return { from: new Date(startOfToday.getTime() - 29 * DAY_MS) };
+    case 'custom':
+      return { from: parseDateInput(customFrom, false), to: parseDateInput(customTo, true) };
+    default:
+      return {};
+  }
+};
+
+const HighlightedText = ({ segments, style }: { segments: HighlightSegment[]; style: any }) => (
+  <Text style={style} numberOfLines={2}>
+    {segments.map((segment, index) => (
+      <Text key={index} style={segment.highlight ? styles.highlight : undefined}>{segment.text}</Text>
+    ))}
+  </Text>
+);
+
+const ChatSearchScreen = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const [chats, setChats] = useState<SearchableChat[]>([]);
+  const [query, setQuery] = useState('');
+  const [dateRange, setDateRange] = useState<DateRangeKey>('any');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [consultationType, setConsultationType] = useState('');
+  const [results, setResults] = useState<ChatSearchGroup[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    const loadChats = async () => {
+      try {
+        setChats(await chatService.getAstrologerChats());
+      } catch (error) {
+        // Cached messages can still be searched, just without client details
+        console.error('Error loading chats for search:', error);
+        setChats(await getCachedSearchableChats());
+      }
+    };
+
+    loadChats();
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const filters: ChatSearchFilters = {
+          ...getDateFilters(dateRange, customFrom, customTo),
+          consultationType: consultationType || undefined
+        };
+        const groups = await searchChats(chats, query, filters);
+        if (!cancelled) setResults(groups);
+      } catch (error) {
+        console.error('Error searching chats:', error);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [chats, query, dateRange, customFrom, customTo, consultationType]);
+
+  const openChat = (chatId: string, bookingId?: string, messageId?: string) => {
+    navigation.navigate('Chat', { chatId, bookingId, messageId });
+  };
+
+  const customRangeInvalid = dateRange === 'custom' &&
+    ((!!customFrom && !parseDateInput(customFrom, false)) || (!!customTo && !parseDateInput(customTo, true)));
+
+  const renderGroup = ({ item: group }: { item: ChatSearchGroup }) => (
+    <View style={styles.card}>
+      <TouchableOpacity
+        style={styles.groupHeader}
+        onPress={() => openChat(group.latestChatId, group.latestBookingId)}
+      >
+        <View style={styles.avatar}>
+          <Text style={styles.avatarText}>{group.userName.charAt(0).toUpperCase()}</Text>
+        </View>
+        <View style={styles.groupInfo}>
+          {group.nameMatch ? (
+            <HighlightedText segments={group.nameMatch} style={styles.userName} />
+          ) : (
+            <Text style={styles.userName}>{group.userName}</Text>
+          )}
+          <Text style={styles.groupMeta}>
+            {group.matches.length === 1 ? '1 message' : `${group.matches.length} messages`}
+            {group.consultationTypes.length > 0 ? ` · ${group.consultationTypes.join(', ')}` : ''}
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={18} color="#9ca3af" />
+      </TouchableOpacity>
+
+      {group.matches.slice(0, MAX_MATCHES_PER_CLIENT).map(match => (
+        <TouchableOpacity
+          key={`${match.chatId}:${match.messageId}`}
+          style={styles.matchRow}
+          onPress={() => openChat(match.chatId, match.bookingId, match.messageId)}
+        >
+          <HighlightedText segments={match.snippet} style={styles.snippet} />
+          <Text style={styles.matchMeta}>
+            {match.senderType === 'astrologer' ? 'You' : group.userName} · {format(new Date(match.time), 'd MMM yyyy, HH:mm')}
+          </Text>
+        </TouchableOpacity>
+      ))}
+      {group.matches.length > MAX_MATCHES_PER_CLIENT && (
+        <Text style={styles.moreText}>
+          {group.matches.length - MAX_MATCHES_PER_CLIENT} more — narrow the search to see them
+        </Text>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color="#6b7280" />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search clients and messages"
+          autoFocus
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {!!query && (
+          <TouchableOpacity onPress={() => setQuery('')}>
+            <Ionicons name="close-circle" size={18} color="#9ca3af" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.chipRow}>
+        {DATE_RANGES.map(range => (
+          <TouchableOpacity
+            key={range.key}
+            style={[styles.chip, dateRange === range.key && styles.chipSelected]}
+            onPress={() => setDateRange(range.key)}
+          >
+            <Text style={[styles.chipText, dateRange === range.key && styles.chipTextSelected]}>{range.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {dateRange === 'custom' && (
+        <View style={styles.customRange}>
+          <TextInput
+            style={styles.dateInput}
+            value={customFrom}
+            onChangeText={setCustomFrom}
+            placeholder="From YYYY-MM-DD"
+            keyboardType="numbers-and-punctuation"
+          />
+          <TextInput
+            style={styles.dateInput}
+            value={customTo}
+            onChangeText={setCustomTo}
+            placeholder="To YYYY-MM-DD"
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      )}
+      {customRangeInvalid && <Text style={styles.errorText}>Enter dates as YYYY-MM-DD</Text>}
+
+      <View style={styles.chipRow}>
+        {CONSULTATION_TYPES.map(type => (
+          <TouchableOpacity
+            key={type.key || 'all'}
+            style={[styles.chip, consultationType === type.key && styles.chipSelected]}
+            onPress={() => setConsultationType(type.key)}
+          >
+            <Text style={[styles.chipText, consultationType === type.key && styles.chipTextSelected]}>{type.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {searching ? (
+        <ActivityIndicator style={styles.loading} color="#6366f1" />
+      ) : (
+        <FlatList
+          data={results}
+          keyExtractor={item => item.userId}
+          renderItem={renderGroup}
+          contentContainerStyle={styles.list}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            <View style={styles.empty}>
+              <Ionicons name="search-outline" size={40} color="#9ca3af" />
+              <Text style={styles.emptyText}>
+                {query.trim() ? 'No matching messages' : 'Search by client name or anything said in a chat'}
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: 'white',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    fontSize: 15,
+    color: '#1f2937',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 16,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: 'white',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#4b5563',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  customRange: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    marginBottom: 6,
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 13,
+    backgroundColor: 'white',
+    marginRight: 6,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#ef4444',
+    paddingHorizontal: 16,
+    marginBottom: 6,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  list: {
+    padding: 16,
+    paddingTop: 8,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f3f4f6',
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  groupInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  userName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  groupMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  matchRow: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  snippet: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  highlight: {
+    backgroundColor: '#fef08a',
+    fontWeight: '600',
+  },
+  matchMeta: {
+    fontSize: 11,
+    color: '#9ca3af',
+    marginTop: 4,
+  },
+  moreText: {
+    fontSize: 12,
+    color: '#6b7280',
+    paddingHorizontal: 12,
+    paddingBottom: 10,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  emptyText: {
+    marginTop: 8,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+});
+
+export default ChatSearchScreen;
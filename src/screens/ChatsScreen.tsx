@@ -180,6 +180,11 @@ const ChatsScreen = () => {
 
   return (
     <View style={styles.container}>
+      <TouchableOpacity style={styles.searchBar} onPress={() => navigation.navigate('ChatSearch')}>
+        <Ionicons name="search" size={18} color="#666666" />
+        <Text style={styles.searchPlaceholder}>Search clients and messages</Text>
+      </TouchableOpacity>
+
       {chats.length === 0 ? (
         <View style={styles.centered}>
           <Ionicons name="chatbubbles-outline" size={64} color="#666" />
@@ -216,7 +221,24 @@ const styles = StyleSheet.create({
     alignItems: 'center'
   },
   listContainer: {
-    padding: 16
+    padding: 16,
+    paddingTop: 4
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8
+  },
+  searchPlaceholder: {
+    marginLeft: 8,
+    fontSize: 15,
+    color: '#666666'
   },
   chatItem: {
     flexDirection: 'row',
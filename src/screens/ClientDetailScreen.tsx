@@ -0,0 +1,399 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  StyleSheet
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { RootStackParamList } from '../types/navigation';
+import { User, getUserById } from '../services/userService';
+import { Booking } from '../services/bookingService';
+import { chatService } from '../services/chatService';
+import { buildClientSummary, getClientBookings } from '../services/clientDirectoryService';
+import { formatBirthDate, formatBirthPlace } from '../services/birthDetailsService';
+import {
+  ClientNote,
+  NOTE_CATEGORIES,
+  getCachedNotes,
+  subscribeToClientNotes,
+  syncClientNotes
+} from '../services/clientNotesService';
+import ClientNotesPanel from '../components/ClientNotesPanel';
+
+// Notes shown on the page; the rest are in the notes panel
+const NOTES_PREVIEW_COUNT = 3;
+
+// Only the chat list fields this screen needs
+interface ClientChat {
+  _id: string;
+  booking?: { _id?: string; consultationType?: string; createdAt?: string };
+  user?: { _id?: string };
+  messages?: { message?: string }[];
+  updatedAt?: string;
+}
+
+const STATUS_COLORS: Record<Booking['status'], string> = {
+  pending: '#f59e0b',
+  confirmed: '#6366f1',
+  active: '#10b981',
+  completed: '#6b7280',
+  cancelled: '#ef4444'
+};
+
+const GENDER_LABELS: Record<NonNullable<User['gender']>, string> = {
+  male: 'Male',
+  female: 'Female',
+  other: 'Other'
+};
+
+const ProfileRow = ({ icon, label, value }: { icon: string; label: string; value?: string }) => (
+  <View style={styles.profileRow}>
+    <Ionicons name={icon as any} size={16} color="#6b7280" />
+    <Text style={styles.profileLabel}>{label}</Text>
+    <Text style={styles.profileValue}>{value || 'Not provided'}</Text>
+  </View>
+);
+
+const ClientDetailScreen = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<RouteProp<RootStackParamList, 'ClientDetail'>>();
+  const { userId, userName } = route.params;
+
+  const [user, setUser] = useState<User | null>(null);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [chats, setChats] = useState<ClientChat[]>([]);
+  const [notes, setNotes] = useState<ClientNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showNotes, setShowNotes] = useState(false);
+
+  const loadClient = useCallback(async () => {
+    // Each section loads on its own so one failing request doesn't blank the page
+    const [userResult, bookingsResult, chatsResult] = await Promise.allSettled([
+      getUserById(userId),
+      getClientBookings(userId),
+      chatService.getAstrologerChats()
+    ]);
+
+    if (userResult.status === 'fulfilled') setUser(userResult.value);
+    if (bookingsResult.status === 'fulfilled') setBookings(bookingsResult.value);
+    if (chatsResult.status === 'fulfilled') {
+      setChats(
+        (chatsResult.value as ClientChat[])
+          .filter(chat => chat.user?._id === userId)
+          .sort((a, b) => new Date(b.updatedAt || 0).getTime() - new Date(a.updatedAt || 0).getTime())
+      );
+    }
+    setLoading(false);
+  }, [userId]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await Promise.all([loadClient(), syncClientNotes(userId).then(setNotes)]);
+    setRefreshing(false);
+  }, [loadClient, userId]);
+
+  useEffect(() => {
+    loadClient();
+  }, [loadClient]);
+
+  useEffect(() => {
+    getCachedNotes(userId).then(setNotes);
+    syncClientNotes(userId).then(setNotes);
+
+    return subscribeToClientNotes((changedUserId, changed) => {
+      if (changedUserId === userId) setNotes(changed);
+    });
+  }, [userId]);
+
+  const openChat = (chat: ClientChat) => {
+    navigation.navigate('Chat', { chatId: chat._id, bookingId: chat.booking?._id });
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  const name = user?.name || userName || 'Client';
+  const summary = user ? buildClientSummary(user, bookings) : null;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+    >
+      <View style={styles.card}>
+        <View style={styles.header}>
+          <View style={styles.avatar}>
+            <Text style={styles.avatarText}>{name.charAt(0).toUpperCase()}</Text>
+          </View>
+          <View style={styles.headerInfo}>
+            <Text style={styles.name}>{name}</Text>
+            {!!user?.mobileNumber && <Text style={styles.meta}>{user.mobileNumber}</Text>}
+          </View>
+        </View>
+
+        {summary && (
+          <View style={styles.stats}>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{summary.consultationCount}</Text>
+              <Text style={styles.statLabel}>Consultations</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>₹{summary.lifetimeSpend}</Text>
+              <Text style={styles.statLabel}>Lifetime spend</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>
+                {summary.lastConsultation ? format(new Date(summary.lastConsultation), 'd MMM') : '—'}
+              </Text>
+              <Text style={styles.statLabel}>Last seen</Text>
+            </View>
+          </View>
+        )}
+
+        {user ? (
+          <>
+            <ProfileRow
+              icon="calendar-outline"
+              label="Date of birth"
+              value={user.dateOfBirth ? formatBirthDate(user.dateOfBirth.slice(0, 10)) : undefined}
+            />
+            <ProfileRow icon="time-outline" label="Time of birth" value={user.timeOfBirth} />
+            <ProfileRow icon="person-outline" label="Gender" value={user.gender ? GENDER_LABELS[user.gender] : undefined} />
+            <ProfileRow icon="location-outline" label="Location" value={formatBirthPlace(user.location)} />
+          </>
+        ) : (
+          <Text style={styles.emptyText}>Could not load this client's profile</Text>
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Private notes</Text>
+          <TouchableOpacity onPress={() => setShowNotes(true)}>
+            <Text style={styles.linkText}>{notes.length > 0 ? `View all (${notes.length})` : 'Add note'}</Text>
+          </TouchableOpacity>
+        </View>
+        {notes.length === 0 ? (
+          <Text style={styles.emptyText}>No notes on this client yet</Text>
+        ) : (
+          notes.slice(0, NOTES_PREVIEW_COUNT).map(note => (
+            <View key={note.id} style={styles.row}>
+              <Text style={styles.noteText} numberOfLines={2}>{note.text}</Text>
+              <Text style={styles.rowMeta}>
+                {NOTE_CATEGORIES.find(category => category.key === note.category)?.label} · {format(new Date(note.createdAt), 'd MMM yyyy')}
+              </Text>
+            </View>
+          ))
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Chat history</Text>
+        {chats.length === 0 ? (
+          <Text style={styles.emptyText}>No chats with this client</Text>
+        ) : (
+          chats.map(chat => {
+            const lastMessage = chat.messages?.[chat.messages.length - 1]?.message;
+            return (
+              <TouchableOpacity key={chat._id} style={[styles.row, styles.linkRow]} onPress={() => openChat(chat)}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>
+                    {chat.updatedAt ? format(new Date(chat.updatedAt), 'd MMM yyyy') : 'Chat'}
+                    {chat.booking?.consultationType ? ` · ${chat.booking.consultationType}` : ''}
+                  </Text>
+                  {!!lastMessage && <Text style={styles.rowMeta} numberOfLines={1}>{lastMessage}</Text>}
+                </View>
+                <Ionicons name="chevron-forward" size={18} color="#9ca3af" />
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Bookings</Text>
+        {bookings.length === 0 ? (
+          <Text style={styles.emptyText}>No bookings with this client</Text>
+        ) : (
+          bookings.map(booking => (
+            <View key={booking._id} style={[styles.row, styles.linkRow]}>
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowTitle}>
+                  {format(new Date(booking.startTime || booking.createdAt), 'd MMM yyyy, HH:mm')}
+                </Text>
+                <Text style={styles.rowMeta}>
+                  {booking.consultationType} · {booking.duration || 30} min · ₹{booking.amount}
+                </Text>
+              </View>
+              <Text style={[styles.status, { color: STATUS_COLORS[booking.status] }]}>
+                {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+              </Text>
+            </View>
+          ))
+        )}
+      </View>
+
+      <ClientNotesPanel
+        visible={showNotes}
+        userId={userId}
+        userName={name}
+        onClose={() => setShowNotes(false)}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f3f4f6',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 20,
+  },
+  headerInfo: {
+    marginLeft: 12,
+  },
+  name: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  stats: {
+    flexDirection: 'row',
+    marginVertical: 16,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#f3f4f6',
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  statLabel: {
+    fontSize: 11,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  profileLabel: {
+    marginLeft: 8,
+    width: 110,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  profileValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  linkText: {
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  row: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  noteText: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  emptyText: {
+    color: '#6b7280',
+    paddingVertical: 8,
+  },
+});
+
+export default ClientDetailScreen;
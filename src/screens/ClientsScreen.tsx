@@ -0,0 +1,301 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  StyleSheet
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { RootStackParamList } from '../types/navigation';
+import {
+  ClientSortKey,
+  ClientSummary,
+  filterClients,
+  getClientDirectory,
+  sortClients
+} from '../services/clientDirectoryService';
+
+const SORT_OPTIONS: { key: ClientSortKey; label: string }[] = [
+  { key: 'recent', label: 'Last consultation' },
+  { key: 'spend', label: 'Lifetime spend' }
+];
+
+const ClientsScreen = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const [clients, setClients] = useState<ClientSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<ClientSortKey>('recent');
+
+  const loadClients = useCallback(async () => {
+    try {
+      setError(null);
+      setClients(await getClientDirectory());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load clients');
+      console.error('Error loading clients:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadClients();
+    setRefreshing(false);
+  }, [loadClients]);
+
+  useEffect(() => {
+    loadClients();
+  }, [loadClients]);
+
+  const visibleClients = useMemo(
+    () => sortClients(filterClients(clients, query), sortKey),
+    [clients, query, sortKey]
+  );
+
+  const renderClient = ({ item }: { item: ClientSummary }) => (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={() => navigation.navigate('ClientDetail', { userId: item.user._id, userName: item.user.name })}
+    >
+      <View style={styles.avatar}>
+        <Text style={styles.avatarText}>{(item.user.name || 'C').charAt(0).toUpperCase()}</Text>
+      </View>
+      <View style={styles.clientInfo}>
+        <Text style={styles.clientName}>{item.user.name || 'Client'}</Text>
+        <Text style={styles.clientMeta}>
+          {item.lastConsultation
+            ? `Last consultation ${format(new Date(item.lastConsultation), 'd MMM yyyy')}`
+            : 'No consultations yet'}
+        </Text>
+        <Text style={styles.clientMeta}>
+          {item.consultationCount === 1 ? '1 consultation' : `${item.consultationCount} consultations`}
+          {item.user.location?.city ? ` · ${item.user.location.city}` : ''}
+        </Text>
+      </View>
+      <View style={styles.spend}>
+        <Text style={styles.spendAmount}>₹{item.lifetimeSpend}</Text>
+        <Text style={styles.spendLabel}>spent</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color="#6b7280" />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search by name, mobile or city"
+          autoCorrect={false}
+        />
+        {!!query && (
+          <TouchableOpacity onPress={() => setQuery('')}>
+            <Ionicons name="close-circle" size={18} color="#9ca3af" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.chipRow}>
+        <Text style={styles.sortLabel}>Sort by</Text>
+        {SORT_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.chip, sortKey === option.key && styles.chipSelected]}
+            onPress={() => setSortKey(option.key)}
+          >
+            <Text style={[styles.chipText, sortKey === option.key && styles.chipTextSelected]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {error && (
+        <View style={styles.errorBox}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={loadClients}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <FlatList
+        data={visibleClients}
+        keyExtractor={item => item.user._id}
+        renderItem={renderClient}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Ionicons name="people-outline" size={40} color="#9ca3af" />
+            <Text style={styles.emptyText}>
+              {query.trim() ? 'No clients match your search' : 'Clients you consult will appear here'}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: 'white',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    fontSize: 15,
+    color: '#1f2937',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    marginBottom: 4,
+  },
+  sortLabel: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginRight: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: 'white',
+    marginRight: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#4b5563',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  errorBox: {
+    margin: 16,
+    marginBottom: 0,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+  },
+  retryText: {
+    color: '#6366f1',
+    fontWeight: '500',
+    alignSelf: 'flex-end',
+    marginTop: 4,
+  },
+  list: {
+    padding: 16,
+    paddingTop: 8,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f3f4f6',
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  clientInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  clientName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  clientMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  spend: {
+    alignItems: 'flex-end',
+    marginLeft: 8,
+  },
+  spendAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  spendLabel: {
+    fontSize: 11,
+    color: '#9ca3af',
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  emptyText: {
+    marginTop: 8,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+});
+
+export default ClientsScreen;
@@ -0,0 +1,550 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  StyleSheet,
+  Alert
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { format, isSameDay, isSameMonth, isToday } from 'date-fns';
+import { Booking, getBookingUserId, getBookingUserName, getConsultations } from '../services/bookingService';
+import { AvailabilitySchedule, getSchedule } from '../services/availabilityService';
+import {
+  CalendarEntry,
+  CalendarView,
+  FreeGap,
+  formatGapLength,
+  getCalendarEntries,
+  getCalendarRange,
+  getDaysInRange,
+  getEntriesInRange,
+  getFreeGaps,
+  isInStartWindow,
+  shiftCalendarAnchor
+} from '../services/consultationCalendarService';
+
+const VIEWS: { key: CalendarView; label: string }[] = [
+  { key: 'day', label: 'Day' },
+  { key: 'week', label: 'Week' },
+  { key: 'month', label: 'Month' }
+];
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const TYPE_ICONS: Record<Booking['consultationType'], string> = {
+  chat: 'chatbubbles',
+  call: 'call',
+  video: 'videocam'
+};
+
+type AgendaItem =
+  | { kind: 'booking'; start: Date; entry: CalendarEntry }
+  | { kind: 'gap'; start: Date; gap: FreeGap };
+
+const getRangeLabel = (view: CalendarView, anchor: Date) => {
+  const { start, end } = getCalendarRange(view, anchor);
+  switch (view) {
+    case 'day':
+      return format(anchor, 'EEE d MMM yyyy');
+    case 'week':
+      return `${format(start, 'd MMM')} – ${format(end, 'd MMM yyyy')}`;
+    default:
+      return format(anchor, 'MMMM yyyy');
+  }
+};
+
+const ConsultationCalendarScreen = () => {
+  const navigation = useNavigation<any>();
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [schedule, setSchedule] = useState<AvailabilitySchedule | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(new Date());
+
+  const loadCalendar = useCallback(async () => {
+    try {
+      setError(null);
+      const [consultations, availability] = await Promise.all([
+        getConsultations(),
+        // Gaps fall back to default working hours without a schedule
+        getSchedule().catch(() => null)
+      ]);
+      setBookings(consultations);
+      setSchedule(availability);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load bookings');
+      console.error('Error loading consultation calendar:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadCalendar();
+    setRefreshing(false);
+  }, [loadCalendar]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  const entries = useMemo(() => getCalendarEntries(bookings), [bookings]);
+  const range = getCalendarRange(view, anchor);
+  const entriesInRange = getEntriesInRange(entries, range.start, range.end);
+  const overlapping = entriesInRange.filter(entry => entry.overlapsWith.length > 0);
+
+  const startCall = (booking: Booking) => {
+    const userData = { name: getBookingUserName(booking), id: getBookingUserId(booking) };
+    navigation.navigate(booking.consultationType === 'video' ? 'VideoCallSession' : 'VoiceCallSession', {
+      bookingId: booking._id,
+      userData
+    });
+  };
+
+  const openBooking = (entry: CalendarEntry) => {
+    const { booking } = entry;
+
+    // The chat screen finds the chat from the booking, and the session only starts from there
+    if (booking.consultationType === 'chat') {
+      navigation.navigate('Chat', { bookingId: booking._id });
+      return;
+    }
+
+    // Opening the call screen starts the call, so check before calling early or late
+    if (isInStartWindow(entry)) {
+      startCall(booking);
+      return;
+    }
+
+    Alert.alert(
+      'Start consultation now?',
+      `This ${booking.consultationType === 'video' ? 'video call' : 'call'} with ${getBookingUserName(booking)} is scheduled for ${format(entry.start, 'EEE d MMM, HH:mm')}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Start now', onPress: () => startCall(booking) }
+      ]
+    );
+  };
+
+  const renderAgenda = (day: Date) => {
+    const dayEntries = entries.filter(entry => isSameDay(entry.start, day));
+    const items: AgendaItem[] = [
+      ...dayEntries.map(entry => ({ kind: 'booking' as const, start: entry.start, entry })),
+      ...getFreeGaps(day, entries, schedule).map(gap => ({ kind: 'gap' as const, start: gap.start, gap }))
+    ].sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    if (items.length === 0) {
+      return <Text style={styles.emptyDay}>No bookings and no free time left</Text>;
+    }
+
+    return items.map(item => {
+      if (item.kind === 'gap') {
+        return (
+          <View key={`gap-${item.start.getTime()}`} style={styles.gapRow}>
+            <Ionicons name="time-outline" size={14} color="#10b981" />
+            <Text style={styles.gapText}>
+              Free {format(item.gap.start, 'HH:mm')}–{format(item.gap.end, 'HH:mm')} · {formatGapLength(item.gap.minutes)}
+            </Text>
+          </View>
+        );
+      }
+
+      const { entry } = item;
+      const overlaps = entry.overlapsWith.length > 0;
+      return (
+        <TouchableOpacity
+          key={entry.booking._id}
+          style={[styles.bookingRow, overlaps && styles.bookingRowOverlap]}
+          onPress={() => openBooking(entry)}
+        >
+          <View style={styles.bookingTime}>
+            <Text style={styles.bookingTimeText}>{format(entry.start, 'HH:mm')}</Text>
+            <Text style={styles.bookingEndText}>{format(entry.end, 'HH:mm')}</Text>
+          </View>
+          <View style={styles.bookingInfo}>
+            <Text style={styles.bookingName}>{getBookingUserName(entry.booking)}</Text>
+            <Text style={styles.bookingMeta}>
+              {entry.booking.duration || 30} min {entry.booking.consultationType}
+            </Text>
+            {overlaps && (
+              <Text style={styles.overlapText}>
+                Overlaps {entry.overlapsWith.length === 1 ? 'another booking' : `${entry.overlapsWith.length} bookings`}
+              </Text>
+            )}
+          </View>
+          <Ionicons
+            name={(TYPE_ICONS[entry.booking.consultationType] || 'help-circle') as any}
+            size={20}
+            color="#6366f1"
+          />
+        </TouchableOpacity>
+      );
+    });
+  };
+
+  const renderMonth = () => {
+    // Whole weeks, so the grid starts on a Monday
+    const gridStart = getCalendarRange('week', range.start).start;
+    const gridEnd = getCalendarRange('week', range.end).end;
+    const days = getDaysInRange(gridStart, gridEnd);
+    const weeks = Array.from({ length: days.length / 7 }, (_, index) => days.slice(index * 7, index * 7 + 7));
+
+    return (
+      <>
+        <View style={styles.monthGrid}>
+          <View style={styles.weekRow}>
+            {WEEKDAY_LABELS.map(label => (
+              <Text key={label} style={styles.weekdayLabel}>{label}</Text>
+            ))}
+          </View>
+          {weeks.map(week => (
+            <View key={week[0].toISOString()} style={styles.weekRow}>
+              {week.map(day => {
+                const dayEntries = entries.filter(entry => isSameDay(entry.start, day));
+                const hasOverlap = dayEntries.some(entry => entry.overlapsWith.length > 0);
+                const selected = isSameDay(day, anchor);
+                return (
+                  <TouchableOpacity
+                    key={day.toISOString()}
+                    style={[styles.dayCell, selected && styles.dayCellSelected]}
+                    onPress={() => setAnchor(day)}
+                  >
+                    <Text
+                      style={[
+                        styles.dayNumber,
+                        !isSameMonth(day, anchor) && styles.dayNumberMuted,
+                        isToday(day) && styles.dayNumberToday,
+                        selected && styles.dayNumberSelected
+                      ]}
+                    >
+                      {format(day, 'd')}
+                    </Text>
+                    {dayEntries.length > 0 && (
+                      <View style={[styles.countDot, hasOverlap && styles.countDotOverlap]}>
+                        <Text style={styles.countText}>{dayEntries.length}</Text>
+                      </View>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+        <View style={styles.daySection}>
+          <Text style={styles.dayTitle}>{format(anchor, 'EEEE d MMMM')}</Text>
+          {renderAgenda(anchor)}
+        </View>
+      </>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toggle}>
+        {VIEWS.map(option => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.toggleButton, view === option.key && styles.toggleButtonActive]}
+            onPress={() => setView(option.key)}
+          >
+            <Text style={[styles.toggleText, view === option.key && styles.toggleTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.navRow}>
+        <TouchableOpacity onPress={() => setAnchor(shiftCalendarAnchor(view, anchor, -1))} style={styles.navButton}>
+          <Ionicons name="chevron-back" size={20} color="#4b5563" />
+        </TouchableOpacity>
+        <Text style={styles.rangeLabel}>{getRangeLabel(view, anchor)}</Text>
+        <TouchableOpacity onPress={() => setAnchor(shiftCalendarAnchor(view, anchor, 1))} style={styles.navButton}>
+          <Ionicons name="chevron-forward" size={20} color="#4b5563" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setAnchor(new Date())}>
+          <Text style={styles.todayText}>Today</Text>
+        </TouchableOpacity>
+      </View>
+
+      {error && (
+        <View style={styles.errorBox}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={loadCalendar}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {overlapping.length > 0 && (
+        <View style={styles.overlapBanner}>
+          <Ionicons name="warning" size={18} color="#b45309" />
+          <Text style={styles.overlapBannerText}>
+            {overlapping.length} bookings overlap in this {view}. Reschedule or cancel one of each clashing pair.
+          </Text>
+        </View>
+      )}
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {view === 'day' && <View style={styles.daySection}>{renderAgenda(anchor)}</View>}
+
+        {view === 'week' && getDaysInRange(range.start, range.end).map(day => (
+          <View key={day.toISOString()} style={styles.daySection}>
+            <Text style={[styles.dayTitle, isToday(day) && styles.dayTitleToday]}>{format(day, 'EEEE d MMM')}</Text>
+            {renderAgenda(day)}
+          </View>
+        ))}
+
+        {view === 'month' && renderMonth()}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  toggle: {
+    flexDirection: 'row',
+    margin: 16,
+    marginBottom: 8,
+    backgroundColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 4,
+  },
+  toggleButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  toggleButtonActive: {
+    backgroundColor: 'white',
+  },
+  toggleText: {
+    textAlign: 'center',
+    fontWeight: '500',
+    color: '#4b5563',
+  },
+  toggleTextActive: {
+    color: '#6366f1',
+  },
+  navRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  navButton: {
+    padding: 4,
+  },
+  rangeLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  todayText: {
+    marginLeft: 12,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  errorBox: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#fee2e2',
+  },
+  errorText: {
+    color: '#ef4444',
+  },
+  retryText: {
+    color: '#6366f1',
+    fontWeight: '500',
+    alignSelf: 'flex-end',
+    marginTop: 4,
+  },
+  overlapBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#fef3c7',
+  },
+  overlapBannerText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    color: '#92400e',
+  },
+  content: {
+    padding: 16,
+    paddingTop: 0,
+  },
+  daySection: {
+    marginBottom: 16,
+  },
+  dayTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginBottom: 6,
+  },
+  dayTitleToday: {
+    color: '#6366f1',
+  },
+  emptyDay: {
+    fontSize: 13,
+    color: '#9ca3af',
+    paddingVertical: 4,
+  },
+  bookingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: '#f3f4f6',
+  },
+  bookingRowOverlap: {
+    borderColor: '#f59e0b',
+    backgroundColor: '#fffbeb',
+  },
+  bookingTime: {
+    width: 52,
+  },
+  bookingTimeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  bookingEndText: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  bookingInfo: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  bookingName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  bookingMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  overlapText: {
+    fontSize: 12,
+    color: '#b45309',
+    marginTop: 2,
+  },
+  gapRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginBottom: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#a7f3d0',
+  },
+  gapText: {
+    marginLeft: 6,
+    fontSize: 12,
+    color: '#047857',
+  },
+  monthGrid: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#f3f4f6',
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 11,
+    color: '#9ca3af',
+    paddingVertical: 4,
+  },
+  dayCell: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  dayCellSelected: {
+    backgroundColor: '#eef2ff',
+  },
+  dayNumber: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  dayNumberMuted: {
+    color: '#d1d5db',
+  },
+  dayNumberToday: {
+    fontWeight: 'bold',
+    color: '#6366f1',
+  },
+  dayNumberSelected: {
+    fontWeight: 'bold',
+  },
+  countDot: {
+    marginTop: 2,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  countDotOverlap: {
+    backgroundColor: '#f59e0b',
+  },
+  countText: {
+    fontSize: 10,
+    color: 'white',
+    fontWeight: '600',
+  },
+});
+
+export default ConsultationCalendarScreen;
@@ -4,12 +4,14 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { styled } from 'nativewind';
 import { getConsultations, Booking } from '../services/bookingService';
+import ClientNotesPanel from '../components/ClientNotesPanel';
 
 type ConsultationType = 'chat' | 'call' | 'video';
 type ConsultationStatus = 'upcoming' | 'completed' | 'cancelled';
 
 interface Consultation {
   id: string;
+  userId?: string;
   userName: string;
   date: string;
   time: string;
@@ -69,18 +71,22 @@ const mapBookingToConsultation = (booking: Booking): Consultation => {
   
   // Handle user data type
   let userName = 'User';
+  let userId: string | undefined;
   if (typeof booking.user === 'object' && booking.user !== null) {
+    userId = booking.user._id;
     if ('name' in booking.user && booking.user.name) {
       userName = booking.user.name;
     } else if ('_id' in booking.user) {
       userName = `User ${booking.user._id.substring(0, 4)}`;
     }
   } else if (typeof booking.user === 'string') {
+    userId = booking.user;
     userName = `User ${booking.user.substring(0, 4)}`;
   }
   
   return {
     id: booking._id,
+    userId: userId,
     userName: userName,
     date: formattedDate,
     time: formattedTime,
@@ -98,6 +104,8 @@ const ConsultationsScreen = () => {
   const [activeTab, setActiveTab] = useState<'upcoming' | 'completed'>('upcoming');
   const [refreshing, setRefreshing] = useState(false);
   const [refreshCount, setRefreshCount] = useState(0); // Track refresh attempts
+  // Consultation whose client notes are open
+  const [notesFor, setNotesFor] = useState<Consultation | null>(null);
 
   const fetchConsultations = async () => {
     try {
@@ -229,11 +237,29 @@ const ConsultationsScreen = () => {
           {item.duration} min {item.type}
         </Text>
       </View>
+
+      {item.userId && (
+        <TouchableOpacity
+          style={{ flexDirection: 'row', alignItems: 'center', alignSelf: 'flex-start', marginTop: 8 }}
+          onPress={() => setNotesFor(item)}
+        >
+          <Ionicons name="document-text-outline" size={16} color="#6366f1" />
+          <Text style={{ marginLeft: 4, color: '#6366f1', fontWeight: '500' }}>Notes</Text>
+        </TouchableOpacity>
+      )}
     </TouchableOpacity>
   );
 
   return (
     <View style={{ flex: 1, backgroundColor: '#f9fafb', padding: 16 }}>
+      <TouchableOpacity
+        style={{ flexDirection: 'row', alignItems: 'center', alignSelf: 'flex-end', marginBottom: 12 }}
+        onPress={() => navigation.navigate('ConsultationCalendar')}
+      >
+        <Ionicons name="calendar-outline" size={18} color="#6366f1" />
+        <Text style={{ marginLeft: 4, color: '#6366f1', fontWeight: '500' }}>Calendar view</Text>
+      </TouchableOpacity>
+
       <View style={{ 
         flexDirection: 'row', 
         justifyContent: 'space-between', 
@@ -315,6 +341,14 @@ const ConsultationsScreen = () => {
           </Text>
         </View>
       )}
+
+      <ClientNotesPanel
+        visible={!!notesFor}
+        userId={notesFor?.userId}
+        userName={notesFor?.userName}
+        bookingId={notesFor?.id}
+        onClose={() => setNotesFor(null)}
+      />
     </View>
   );
 };
@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator, Button } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { connectSocket, isSocketConnected, testBookingNotification, runDiagnostics } from '../services/socketService';
+import { socketManager } from '../services/socketManager';
+import { SOCKET_EVENTS } from '../services/socketEvents';
 import SocketDiagnostics from '../components/SocketDiagnostics';
 import { styled } from 'nativewind';
 
@@ -307,12 +309,12 @@ const DebugScreen = () => {
       }
       
       // Register a one-time listener for our test event
-      socket.once('test-notification', (data) => {
+      socketManager.once(SOCKET_EVENTS.TEST_NOTIFICATION, (data) => {
         Alert.alert('Notification Received', JSON.stringify(data, null, 2));
       });
       
       // Emit event to request a test notification
-      socket.emit('request-test-notification', { 
+      socketManager.emit(SOCKET_EVENTS.REQUEST_TEST_NOTIFICATION, {
         timestamp: new Date().toISOString(),
         clientInfo: {
           device: 'Astrologer App',
@@ -1,35 +1,370 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import {
+  getEarningsLedger,
+  summarizeEarnings,
+  formatAmount,
+  EarningsPeriod,
+  LedgerEntry
+} from '../services/earningsService';
+import { formatDate } from '../utils/dateUtils';
+
+const PERIODS: { key: EarningsPeriod; label: string }[] = [
+  { key: 'day', label: 'Today' },
+  { key: 'week', label: 'This Week' },
+  { key: 'month', label: 'This Month' }
+];
+
+const TYPE_DETAILS: Record<LedgerEntry['consultationType'], { label: string; icon: any; color: string }> = {
+  chat: { label: 'Chat', icon: 'chatbubbles', color: '#6366f1' },
+  call: { label: 'Call', icon: 'call', color: '#16a34a' },
+  video: { label: 'Video', icon: 'videocam', color: '#d97706' }
+};
 
 const EarningsScreen = () => {
-  return (
-    <View style={styles.container}>
-      <Ionicons name="wallet-outline" size={64} color="#d1d5db" />
-      <Text style={styles.title}>Earnings</Text>
-      <Text style={styles.subtitle}>Coming soon</Text>
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [period, setPeriod] = useState<EarningsPeriod>('month');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLedger = async () => {
+    try {
+      setError(null);
+      const entries = await getEarningsLedger();
+      setLedger(entries);
+    } catch (err) {
+      console.error('Error fetching earnings:', err);
+      setError('Failed to load earnings. Please try again later.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLedger();
+  }, []);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    fetchLedger();
+  };
+
+  const summary = useMemo(() => summarizeEarnings(ledger, period), [ledger, period]);
+
+  const renderHeader = () => (
+    <View>
+      <View style={styles.periodTabs}>
+        {PERIODS.map(item => (
+          <TouchableOpacity
+            key={item.key}
+            style={[styles.periodTab, period === item.key && styles.periodTabActive]}
+            onPress={() => setPeriod(item.key)}
+          >
+            <Text style={[styles.periodTabText, period === item.key && styles.periodTabTextActive]}>
+              {item.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.totalCard}>
+        <Text style={styles.totalLabel}>Total Earnings</Text>
+        <Text style={styles.totalValue}>{formatAmount(summary.total)}</Text>
+        <Text style={styles.totalSubLabel}>
+          {summary.consultationCount} {summary.consultationCount === 1 ? 'consultation' : 'consultations'}
+        </Text>
+      </View>
+
+      <View style={styles.payoutRow}>
+        <View style={styles.payoutCard}>
+          <Text style={styles.payoutLabel}>Pending Payout</Text>
+          <Text style={[styles.payoutValue, { color: '#d97706' }]}>{formatAmount(summary.pending)}</Text>
+        </View>
+        <View style={styles.payoutCard}>
+          <Text style={styles.payoutLabel}>Paid Out</Text>
+          <Text style={[styles.payoutValue, { color: '#16a34a' }]}>{formatAmount(summary.paid)}</Text>
+        </View>
+      </View>
+
+      <Text style={styles.sectionTitle}>By Consultation Type</Text>
+      <View style={styles.breakdownCard}>
+        {(Object.keys(TYPE_DETAILS) as LedgerEntry['consultationType'][]).map(type => (
+          <View key={type} style={styles.breakdownRow}>
+            <View style={styles.breakdownLabelContainer}>
+              <Ionicons name={TYPE_DETAILS[type].icon} size={18} color={TYPE_DETAILS[type].color} />
+              <Text style={styles.breakdownLabel}>{TYPE_DETAILS[type].label}</Text>
+            </View>
+            <Text style={styles.breakdownValue}>{formatAmount(summary.byType[type])}</Text>
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>Consultations</Text>
+      {error && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={fetchLedger}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderEntry = ({ item }: { item: LedgerEntry }) => (
+    <View style={styles.entryCard}>
+      <View style={[styles.entryIcon, { backgroundColor: `${TYPE_DETAILS[item.consultationType].color}20` }]}>
+        <Ionicons
+          name={TYPE_DETAILS[item.consultationType].icon}
+          size={18}
+          color={TYPE_DETAILS[item.consultationType].color}
+        />
+      </View>
+      <View style={styles.entryDetails}>
+        <Text style={styles.entryName}>{item.clientName}</Text>
+        <Text style={styles.entryMeta}>
+          {formatDate(item.earnedAt)} · {item.duration} min {TYPE_DETAILS[item.consultationType].label.toLowerCase()}
+        </Text>
+      </View>
+      <View style={styles.entryAmountContainer}>
+        <Text style={styles.entryAmount}>{formatAmount(item.amount)}</Text>
+        <Text style={[
+          styles.entryStatus,
+          item.payoutStatus === 'paid' ? styles.paidStatus : styles.pendingStatus
+        ]}>
+          {item.payoutStatus === 'paid' ? 'Paid' : 'Pending'}
+        </Text>
+      </View>
     </View>
   );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      data={summary.entries}
+      keyExtractor={item => item.bookingId}
+      renderItem={renderEntry}
+      ListHeaderComponent={renderHeader}
+      ListEmptyComponent={
+        <View style={styles.emptyContainer}>
+          <Ionicons name="wallet-outline" size={48} color="#d1d5db" />
+          <Text style={styles.emptyText}>No earnings for this period</Text>
+        </View>
+      }
+      refreshing={refreshing}
+      onRefresh={handleRefresh}
+    />
+  );
 };
 
 const styles = StyleSheet.create({
   container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    padding: 16,
+  },
+  loadingContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
     backgroundColor: '#f9fafb',
   },
-  title: {
-    fontSize: 24,
+  periodTabs: {
+    flexDirection: 'row',
+    backgroundColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 16,
+  },
+  periodTab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  periodTabActive: {
+    backgroundColor: 'white',
+  },
+  periodTabText: {
+    textAlign: 'center',
+    fontWeight: '500',
+    color: '#4b5563',
+  },
+  periodTabTextActive: {
+    color: '#6366f1',
+  },
+  totalCard: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: '#e0e7ff',
+  },
+  totalValue: {
+    fontSize: 32,
     fontWeight: 'bold',
+    color: '#ffffff',
+    marginVertical: 4,
+  },
+  totalSubLabel: {
+    fontSize: 12,
+    color: '#e0e7ff',
+  },
+  payoutRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  payoutCard: {
+    width: '48%',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  payoutLabel: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 4,
+  },
+  payoutValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  breakdownCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  breakdownLabelContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  breakdownLabel: {
+    marginLeft: 8,
+    fontSize: 16,
     color: '#374151',
-    marginTop: 16,
-    marginBottom: 8,
   },
-  subtitle: {
+  breakdownValue: {
     fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  errorContainer: {
+    padding: 16,
+    backgroundColor: '#fee2e2',
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: '#ef4444',
+  },
+  retryText: {
+    marginTop: 8,
+    alignSelf: 'flex-end',
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  entryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#f3f4f6',
+  },
+  entryIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  entryDetails: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  entryName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  entryMeta: {
+    fontSize: 12,
     color: '#6b7280',
-  }
+    marginTop: 2,
+  },
+  entryAmountContainer: {
+    alignItems: 'flex-end',
+  },
+  entryAmount: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  entryStatus: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  paidStatus: {
+    color: '#16a34a',
+  },
+  pendingStatus: {
+    color: '#d97706',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#9ca3af',
+  },
 });
 
-export default EarningsScreen; 
\ No newline at end of file
+export default EarningsScreen;
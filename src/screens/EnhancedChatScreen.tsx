@@ -4,7 +4,8 @@ import { useRoute, useNavigation } from '@react-navigation/native';
 import { useAuth } from '../contexts/AuthContext';
 import ChatConnectionManager from '../components/ChatConnectionManager';
 import ChatMessageSender from '../components/ChatMessageSender';
-import * as enhancedSocketService from '../services/enhancedSocketService';
+import { socketManager } from '../services/socketManager';
+import { SOCKET_EVENTS, ChatNewMessageEvent } from '../services/socketEvents';
 import { API_URL } from '../config';
 import axios from 'axios';
 
@@ -33,6 +34,14 @@ const EnhancedChatScreen = () => {
   const [error, setError] = useState<string | null>(null);
   const [connectionStatus, setConnectionStatus] = useState('Initializing...');
   const [isConnected, setIsConnected] = useState(false);
+  const removeMessageListenerRef = useRef<(() => void) | null>(null);
+  
+  // Stop listening for messages when leaving the screen
+  useEffect(() => {
+    return () => {
+      removeMessageListenerRef.current?.();
+    };
+  }, []);
   
   // Fetch messages from API
   const fetchMessages = async () => {
@@ -85,22 +94,29 @@ const EnhancedChatScreen = () => {
   };
   
   // Handle new message received
-  const handleNewMessage = (messageData: any) => {
-    if (!messageData || !messageData.message) return;
+  const handleNewMessage = (messageData: ChatNewMessageEvent) => {
+    const { message } = messageData;
+    const newMessage: Message = {
+      _id: message._id || message.id || message.temporaryId || '',
+      sender: typeof message.sender === 'string' ? message.sender : message.sender?._id || '',
+      senderType: message.senderType === 'astrologer' ? 'astrologer' : 'user',
+      message: message.message ?? message.content ?? '',
+      timestamp: String(message.timestamp ?? message.createdAt ?? new Date().toISOString()),
+      read: !!message.read
+    };
     
     setMessages(prevMessages => {
       // Check if message already exists
-      const exists = prevMessages.some(msg => msg._id === messageData.message._id);
+      const exists = prevMessages.some(msg => msg._id === newMessage._id);
       if (exists) return prevMessages;
       
       // Add new message
-      return [...prevMessages, messageData.message];
+      return [...prevMessages, newMessage];
     });
     
     // Mark messages as read
     if (chatId) {
-      const socket = enhancedSocketService.getSocket();
-      socket?.emit('chat:markRead', { chatId });
+      socketManager.emit(SOCKET_EVENTS.CHAT_MARK_READ, { chatId });
     }
   };
   
@@ -123,15 +139,9 @@ const EnhancedChatScreen = () => {
     // Fetch messages
     fetchMessages();
     
-    // Set up socket event listeners
-    const socket = enhancedSocketService.getSocket();
-    if (socket) {
-      // Remove existing listeners to prevent duplicates
-      socket.off('chat:newMessage');
-      
-      // Add listener for new messages
-      socket.on('chat:newMessage', handleNewMessage);
-    }
+    // Listen for new messages, replacing the listener from any earlier join
+    removeMessageListenerRef.current?.();
+    removeMessageListenerRef.current = socketManager.on(SOCKET_EVENTS.CHAT_NEW_MESSAGE, handleNewMessage);
   };
   
   // Handle join error
@@ -225,6 +235,7 @@ const EnhancedChatScreen = () => {
           onMessageSent={handleMessageSent}
           onError={setError}
           disabled={!isConnected}
+          onManageTemplates={() => navigation.navigate('MessageTemplates' as never)}
         />
       </ChatConnectionManager>
     </SafeAreaView>
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, SectionList, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  FollowUp,
+  getFollowUps,
+  getFollowUpsDueToday,
+  getOpenFollowUps,
+  subscribeToFollowUps
+} from '../services/followUpService';
+import FollowUpCard from '../components/FollowUpCard';
+
+const FollowUpsScreen = () => {
+  const [followUps, setFollowUps] = useState<FollowUp[]>([]);
+
+  useEffect(() => {
+    getFollowUps().then(setFollowUps);
+    return subscribeToFollowUps(setFollowUps);
+  }, []);
+
+  const dueToday = getFollowUpsDueToday(followUps);
+  const upcoming = getOpenFollowUps(followUps).filter(followUp => !dueToday.includes(followUp));
+
+  const sections = [
+    { title: 'Due today', data: dueToday },
+    { title: 'Upcoming', data: upcoming }
+  ].filter(section => section.data.length > 0);
+
+  return (
+    <View style={styles.container}>
+      <SectionList
+        sections={sections}
+        keyExtractor={item => item.id}
+        renderItem={({ item }) => <FollowUpCard followUp={item} removable />}
+        renderSectionHeader={({ section }) => <Text style={styles.sectionTitle}>{section.title}</Text>}
+        contentContainerStyle={styles.list}
+        stickySectionHeadersEnabled={false}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Ionicons name="alarm-outline" size={40} color="#9ca3af" />
+            <Text style={styles.emptyText}>
+              No follow-ups scheduled. Add one from a chat with the alarm button.
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  list: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  emptyText: {
+    marginTop: 8,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+});
+
+export default FollowUpsScreen;
@@ -15,8 +15,10 @@ import { MainStackParamList, TabNavigatorParamList } from '../navigation/types';
 import { CommonActions } from '@react-navigation/native';
 import { useBookingNotification } from '../contexts/BookingNotificationContext';
 import NewBookingRequestsSection from '../components/NewBookingRequestsSection';
+import FollowUpsDueSection from '../components/FollowUpsDueSection';
 import SocketDiagnostics from '../components/SocketDiagnostics';
 import OnlineStatusToggle from '../components/OnlineStatusToggle';
+import { getEarningsSummary, formatAmount } from '../services/earningsService';
 
 type HomeScreenNavigationProp = NativeStackNavigationProp<MainStackParamList> & 
   BottomTabNavigationProp<TabNavigatorParamList>;
@@ -25,15 +27,32 @@ const HomeScreen = () => {
   const navigation = useNavigation<HomeScreenNavigationProp>();
   const { refreshBookingRequests, isLoading, recentBookingRequests, socketConnected } = useBookingNotification();
   const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [monthlyEarnings, setMonthlyEarnings] = useState(0);
 
   useEffect(() => {
     // Initial fetch only when first mounted
     // The socket will handle real-time updates
     refreshBookingRequests();
+    fetchMonthlyEarnings();
     
     // No additional fetching on focus - let socket handle updates
   }, []);
 
+  // Use the same ledger as the Earnings screen so the numbers always match
+  const fetchMonthlyEarnings = async () => {
+    try {
+      const summary = await getEarningsSummary('month');
+      setMonthlyEarnings(summary.total);
+    } catch (error) {
+      console.error('Error fetching monthly earnings:', error);
+    }
+  };
+
+  const handleRefresh = () => {
+    refreshBookingRequests();
+    fetchMonthlyEarnings();
+  };
+
   const navigateToBookingRequests = () => {
     // Navigate to the BookingRequestsTab in the bottom tab navigator
     navigation.navigate('BookingRequestsTab');
@@ -49,9 +68,7 @@ const HomeScreen = () => {
   };
 
   const navigateToEarnings = () => {
-    // This would navigate to an Earnings screen once it's implemented
-    // For now, just stay on the current screen
-    console.log('Navigate to Earnings - not yet implemented');
+    navigation.navigate('Earnings');
   };
 
   return (
@@ -60,7 +77,7 @@ const HomeScreen = () => {
       refreshControl={
         <RefreshControl 
           refreshing={isLoading} 
-          onRefresh={refreshBookingRequests} 
+          onRefresh={handleRefresh} 
           colors={['#6366f1']}
           tintColor="#ffffff"
         />
@@ -94,6 +111,9 @@ const HomeScreen = () => {
         <NewBookingRequestsSection />
       </View>
 
+      {/* Follow-ups promised in earlier consultations */}
+      <FollowUpsDueSection />
+
       <View style={styles.quickActionsContainer}>
         <Text style={styles.sectionTitle}>Quick Actions</Text>
         <View style={styles.quickActions}>
@@ -154,10 +174,10 @@ const HomeScreen = () => {
             <Text style={styles.statValue}>0</Text>
             <Text style={styles.statLabel}>Today's Consultations</Text>
           </View>
-          <View style={styles.statCard}>
-            <Text style={styles.statValue}>₹0</Text>
+          <TouchableOpacity style={styles.statCard} onPress={navigateToEarnings}>
+            <Text style={styles.statValue}>{formatAmount(monthlyEarnings)}</Text>
             <Text style={styles.statLabel}>This Month's Earnings</Text>
-          </View>
+          </TouchableOpacity>
         </View>
       </View>
       
@@ -0,0 +1,320 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  MessageTemplate,
+  TEMPLATE_PLACEHOLDERS,
+  createTemplate,
+  getTemplates,
+  saveTemplates,
+  validateTemplates
+} from '../services/templateService';
+
+const MessageTemplatesScreen = () => {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  // ID of the template being edited, if any
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        setTemplates(await getTemplates());
+      } catch (error) {
+        console.error('Error loading message templates:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTemplates();
+  }, []);
+
+  const updateTemplates = (updated: MessageTemplate[]) => {
+    setTemplates(updated);
+    setHasChanges(true);
+  };
+
+  const updateTemplate = (id: string, changes: Partial<MessageTemplate>) => {
+    updateTemplates(templates.map(template => (template.id === id ? { ...template, ...changes } : template)));
+  };
+
+  const addTemplate = () => {
+    const template = createTemplate('', '');
+    updateTemplates([...templates, template]);
+    setEditingId(template.id);
+  };
+
+  const removeTemplate = (id: string) => {
+    updateTemplates(templates.filter(template => template.id !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const moveTemplate = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= templates.length) return;
+
+    const reordered = [...templates];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    updateTemplates(reordered);
+  };
+
+  const insertPlaceholder = (template: MessageTemplate, key: string) => {
+    const separator = template.body && !template.body.endsWith(' ') ? ' ' : '';
+    updateTemplate(template.id, { body: `${template.body}${separator}{{${key}}}` });
+  };
+
+  const handleSave = async () => {
+    const errors = validateTemplates(templates);
+    if (errors.length > 0) {
+      Alert.alert('Please fix your templates', errors.join('\n'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await saveTemplates(templates);
+      setTemplates(saved);
+      setEditingId(null);
+      setHasChanges(false);
+      Alert.alert('Saved', 'Your templates have been updated');
+    } catch (error: any) {
+      console.error('Error saving message templates:', error);
+      Alert.alert('Error', error.message || 'Failed to save your templates. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.hint}>
+          Templates appear as quick replies in chat. Placeholders like {'{{name}}'} are filled in from the booking.
+        </Text>
+
+        {templates.map((template, index) => (
+          <View key={template.id} style={styles.card}>
+            <View style={styles.templateHeader}>
+              <TouchableOpacity
+                style={styles.templateSummary}
+                onPress={() => setEditingId(editingId === template.id ? null : template.id)}
+              >
+                <Text style={styles.cardTitle}>{template.title || 'Untitled template'}</Text>
+                {editingId !== template.id && (
+                  <Text style={styles.hint} numberOfLines={2}>{template.body}</Text>
+                )}
+              </TouchableOpacity>
+              <View style={styles.reorderButtons}>
+                <TouchableOpacity onPress={() => moveTemplate(index, -1)} disabled={index === 0}>
+                  <Ionicons name="chevron-up" size={22} color={index === 0 ? '#d1d5db' : '#6b7280'} />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => moveTemplate(index, 1)} disabled={index === templates.length - 1}>
+                  <Ionicons
+                    name="chevron-down"
+                    size={22}
+                    color={index === templates.length - 1 ? '#d1d5db' : '#6b7280'}
+                  />
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {editingId === template.id && (
+              <View style={styles.editor}>
+                <TextInput
+                  style={styles.input}
+                  value={template.title}
+                  onChangeText={value => updateTemplate(template.id, { title: value })}
+                  placeholder="Title, e.g. Greeting"
+                />
+                <TextInput
+                  style={[styles.input, styles.bodyInput]}
+                  value={template.body}
+                  onChangeText={value => updateTemplate(template.id, { body: value })}
+                  placeholder="Message"
+                  multiline
+                  textAlignVertical="top"
+                />
+                <View style={styles.placeholderRow}>
+                  {TEMPLATE_PLACEHOLDERS.map(placeholder => (
+                    <TouchableOpacity
+                      key={placeholder.key}
+                      style={styles.placeholderChip}
+                      onPress={() => insertPlaceholder(template, placeholder.key)}
+                    >
+                      <Text style={styles.placeholderText}>+ {placeholder.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <TouchableOpacity style={styles.deleteButton} onPress={() => removeTemplate(template.id)}>
+                  <Ionicons name="trash-outline" size={18} color="#ef4444" />
+                  <Text style={styles.deleteText}>Delete template</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        ))}
+
+        <TouchableOpacity style={styles.addButton} onPress={addTemplate}>
+          <Ionicons name="add-circle-outline" size={22} color="#6366f1" />
+          <Text style={styles.linkText}>Add template</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.saveButton, (!hasChanges || saving) && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={!hasChanges || saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save Templates</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f9fafb',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f3f4f6',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  templateHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  templateSummary: {
+    flex: 1,
+  },
+  reorderButtons: {
+    marginLeft: 8,
+  },
+  editor: {
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1f2937',
+    backgroundColor: '#f9fafb',
+    marginBottom: 8,
+  },
+  bodyInput: {
+    minHeight: 96,
+  },
+  placeholderRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  placeholderChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  placeholderText: {
+    fontSize: 12,
+    color: '#4b5563',
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  deleteText: {
+    marginLeft: 6,
+    color: '#ef4444',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+  },
+  linkText: {
+    color: '#6366f1',
+    fontWeight: '500',
+    marginLeft: 6,
+  },
+  footer: {
+    padding: 16,
+    backgroundColor: 'white',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  saveButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default MessageTemplatesScreen;
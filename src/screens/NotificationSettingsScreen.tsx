@@ -0,0 +1,379 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  AlertProfile,
+  DEFAULT_ALERT_PROFILE,
+  VibrationPatternName,
+  getAlertProfile,
+  saveAlertProfile,
+  startBookingAlert,
+  stopBookingAlert
+} from '../services/bookingAlertService';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationCategory,
+  NotificationSettings,
+  getNotificationSettings,
+  setNotificationCategoryEnabled
+} from '../services/notificationService';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// How long the "Test alert" preview rings for
+const PREVIEW_DURATION_MS = 4000;
+
+const VIBRATION_OPTIONS: { value: VibrationPatternName; label: string }[] = [
+  { value: 'short', label: 'Short' },
+  { value: 'long', label: 'Long' },
+  { value: 'pulse', label: 'Pulse' }
+];
+
+interface SettingRowProps {
+  icon: string;
+  title: string;
+  description?: string;
+  value: boolean;
+  onValueChange: (value: boolean) => void;
+}
+
+const SettingRow: React.FC<SettingRowProps> = ({ icon, title, description, value, onValueChange }) => (
+  <View style={styles.settingRow}>
+    <Ionicons name={icon as any} size={22} color="#6366f1" />
+    <View style={styles.settingText}>
+      <Text style={styles.settingTitle}>{title}</Text>
+      {description ? <Text style={styles.settingDescription}>{description}</Text> : null}
+    </View>
+    <Switch
+      value={value}
+      onValueChange={onValueChange}
+      trackColor={{ false: '#d1d5db', true: '#a5b4fc' }}
+      thumbColor={value ? '#6366f1' : '#f4f3f4'}
+    />
+  </View>
+);
+
+const NotificationSettingsScreen = () => {
+  const [profile, setProfile] = useState<AlertProfile>(DEFAULT_ALERT_PROFILE);
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [quietStart, setQuietStart] = useState(DEFAULT_ALERT_PROFILE.quietHours.start);
+  const [quietEnd, setQuietEnd] = useState(DEFAULT_ALERT_PROFILE.quietHours.end);
+  const [loading, setLoading] = useState(true);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      const [saved, savedNotificationSettings] = await Promise.all([
+        getAlertProfile(),
+        getNotificationSettings()
+      ]);
+      setProfile(saved);
+      setNotificationSettings(savedNotificationSettings);
+      setQuietStart(saved.quietHours.start);
+      setQuietEnd(saved.quietHours.end);
+      setLoading(false);
+    };
+
+    loadSettings();
+
+    // Don't leave a preview ringing when leaving the screen
+    return () => {
+      stopBookingAlert();
+    };
+  }, []);
+
+  // Settings take effect immediately, so save on every change
+  const updateProfile = async (changes: Partial<AlertProfile>) => {
+    const updated = { ...profile, ...changes };
+    setProfile(updated);
+
+    try {
+      await saveAlertProfile(updated);
+    } catch (error) {
+      console.error('Error saving alert settings:', error);
+      Alert.alert('Error', 'Failed to save your alert settings. Please try again.');
+    }
+  };
+
+  const updateNotificationCategory = async (category: NotificationCategory, enabled: boolean) => {
+    setNotificationSettings(prev => ({ ...prev, [category]: enabled }));
+
+    try {
+      setNotificationSettings(await setNotificationCategoryEnabled(category, enabled));
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      Alert.alert('Error', 'Failed to save your notification settings. Please try again.');
+    }
+  };
+
+  const handleQuietHoursBlur = () => {
+    if (!TIME_PATTERN.test(quietStart) || !TIME_PATTERN.test(quietEnd)) {
+      Alert.alert('Invalid time', 'Enter quiet hours as HH:MM, e.g. 22:00');
+      setQuietStart(profile.quietHours.start);
+      setQuietEnd(profile.quietHours.end);
+      return;
+    }
+
+    if (quietStart !== profile.quietHours.start || quietEnd !== profile.quietHours.end) {
+      updateProfile({ quietHours: { ...profile.quietHours, start: quietStart, end: quietEnd } });
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    // Preview ignores quiet hours so the astrologer can hear their settings
+    await startBookingAlert({ ...profile, quietHours: { ...profile.quietHours, enabled: false } });
+
+    setTimeout(() => {
+      stopBookingAlert();
+      setIsPreviewing(false);
+    }, PREVIEW_DURATION_MS);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.sectionTitle}>Booking request alerts</Text>
+      <View style={styles.card}>
+        <SettingRow
+          icon="musical-notes-outline"
+          title="Ringtone"
+          value={profile.soundEnabled}
+          onValueChange={value => updateProfile({ soundEnabled: value })}
+        />
+        <SettingRow
+          icon="phone-portrait-outline"
+          title="Vibrate"
+          value={profile.vibrationEnabled}
+          onValueChange={value => updateProfile({ vibrationEnabled: value })}
+        />
+
+        {profile.vibrationEnabled && (
+          <View style={styles.patternRow}>
+            {VIBRATION_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.patternChip, profile.vibrationPattern === option.value && styles.patternChipActive]}
+                onPress={() => updateProfile({ vibrationPattern: option.value })}
+              >
+                <Text
+                  style={[styles.patternText, profile.vibrationPattern === option.value && styles.patternTextActive]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        <SettingRow
+          icon="repeat-outline"
+          title="Repeat until answered"
+          description="Keep ringing until you accept, reject or dismiss the request"
+          value={profile.repeatUntilAcknowledged}
+          onValueChange={value => updateProfile({ repeatUntilAcknowledged: value })}
+        />
+        <SettingRow
+          icon="expand-outline"
+          title="Full screen for calls"
+          description="Show voice and video requests like an incoming call"
+          value={profile.fullScreenForCalls}
+          onValueChange={value => updateProfile({ fullScreenForCalls: value })}
+        />
+
+        <TouchableOpacity style={styles.previewButton} onPress={handlePreview} disabled={isPreviewing}>
+          <Ionicons name={isPreviewing ? 'volume-high' : 'play-circle-outline'} size={20} color="#6366f1" />
+          <Text style={styles.previewText}>{isPreviewing ? 'Playing...' : 'Test alert'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.sectionTitle}>When the app is in the background</Text>
+      <View style={styles.card}>
+        <SettingRow
+          icon="calendar-outline"
+          title="Booking requests"
+          description="Get notified about new requests while the app is closed"
+          value={notificationSettings.bookingRequests}
+          onValueChange={value => updateNotificationCategory('bookingRequests', value)}
+        />
+        <SettingRow
+          icon="chatbubble-outline"
+          title="Chat messages"
+          description="Get notified about new messages from your clients"
+          value={notificationSettings.chatMessages}
+          onValueChange={value => updateNotificationCategory('chatMessages', value)}
+        />
+        <SettingRow
+          icon="alarm-outline"
+          title="Follow-up reminders"
+          description="Get reminded when a client follow-up is due"
+          value={notificationSettings.followUps}
+          onValueChange={value => updateNotificationCategory('followUps', value)}
+        />
+      </View>
+
+      <Text style={styles.sectionTitle}>Quiet hours</Text>
+      <View style={styles.card}>
+        <SettingRow
+          icon="moon-outline"
+          title="Silence alerts"
+          description="Requests still appear, but without sound or vibration"
+          value={profile.quietHours.enabled}
+          onValueChange={value => updateProfile({ quietHours: { ...profile.quietHours, enabled: value } })}
+        />
+
+        {profile.quietHours.enabled && (
+          <View style={styles.quietHoursRow}>
+            <Text style={styles.quietHoursLabel}>From</Text>
+            <TextInput
+              style={styles.timeInput}
+              value={quietStart}
+              onChangeText={setQuietStart}
+              onBlur={handleQuietHoursBlur}
+              placeholder="22:00"
+              maxLength={5}
+            />
+            <Text style={styles.quietHoursLabel}>to</Text>
+            <TextInput
+              style={styles.timeInput}
+              value={quietEnd}
+              onChangeText={setQuietEnd}
+              onBlur={handleQuietHoursBlur}
+              placeholder="07:00"
+              maxLength={5}
+            />
+          </View>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f9fafb',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#f3f4f6',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  settingText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  settingTitle: {
+    fontSize: 15,
+    color: '#1f2937',
+  },
+  settingDescription: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  patternRow: {
+    flexDirection: 'row',
+    marginLeft: 34,
+    marginBottom: 8,
+  },
+  patternChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 8,
+  },
+  patternChipActive: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  patternText: {
+    fontSize: 13,
+    color: '#4b5563',
+  },
+  patternTextActive: {
+    color: 'white',
+    fontWeight: '500',
+  },
+  previewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  previewText: {
+    marginLeft: 6,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  quietHoursRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 34,
+    paddingBottom: 12,
+  },
+  quietHoursLabel: {
+    color: '#4b5563',
+    marginHorizontal: 8,
+  },
+  timeInput: {
+    width: 72,
+    textAlign: 'center',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 6,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: '#1f2937',
+    backgroundColor: '#f9fafb',
+  },
+});
+
+export default NotificationSettingsScreen;
@@ -10,6 +10,13 @@ type RootStackParamList = {
   Login: undefined;
   OTP: { mobileNumber: string; generatedOtp: string };
   Main: undefined;
+  Earnings: undefined;
+  CallHistory: undefined;
+  Availability: undefined;
+  NotificationSettings: undefined;
+  MessageTemplates: undefined;
+  Clients: undefined;
+  FollowUps: undefined;
 };
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -87,13 +94,46 @@ const ProfileScreen = () => {
           <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
         </TouchableOpacity>
         
-        <TouchableOpacity style={styles.menuItem}>
+        <TouchableOpacity 
+          style={styles.menuItem}
+          onPress={() => navigation.navigate('Earnings')}
+        >
           <Ionicons name="cash-outline" size={24} color="#4B5563" />
           <Text style={styles.menuItemText}>Earnings</Text>
           <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
         </TouchableOpacity>
         
-        <TouchableOpacity style={styles.menuItem}>
+        <TouchableOpacity 
+          style={styles.menuItem}
+          onPress={() => navigation.navigate('Clients')}
+        >
+          <Ionicons name="people-outline" size={24} color="#4B5563" />
+          <Text style={styles.menuItemText}>Clients</Text>
+          <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+        </TouchableOpacity>
+        
+        <TouchableOpacity 
+          style={styles.menuItem}
+          onPress={() => navigation.navigate('FollowUps')}
+        >
+          <Ionicons name="alarm-outline" size={24} color="#4B5563" />
+          <Text style={styles.menuItemText}>Follow-ups</Text>
+          <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+        </TouchableOpacity>
+        
+        <TouchableOpacity 
+          style={styles.menuItem}
+          onPress={() => navigation.navigate('CallHistory')}
+        >
+          <Ionicons name="call-outline" size={24} color="#4B5563" />
+          <Text style={styles.menuItemText}>Call History</Text>
+          <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+        </TouchableOpacity>
+        
+        <TouchableOpacity 
+          style={styles.menuItem}
+          onPress={() => navigation.navigate('Availability')}
+        >
           <Ionicons name="time-outline" size={24} color="#4B5563" />
           <Text style={styles.menuItemText}>Availability</Text>
           <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
@@ -103,12 +143,24 @@ const ProfileScreen = () => {
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Settings</Text>
         
-        <TouchableOpacity style={styles.menuItem}>
+        <TouchableOpacity 
+          style={styles.menuItem}
+          onPress={() => navigation.navigate('NotificationSettings')}
+        >
           <Ionicons name="notifications-outline" size={24} color="#4B5563" />
           <Text style={styles.menuItemText}>Notification Settings</Text>
           <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
         </TouchableOpacity>
         
+        <TouchableOpacity 
+          style={styles.menuItem}
+          onPress={() => navigation.navigate('MessageTemplates')}
+        >
+          <Ionicons name="chatbox-ellipses-outline" size={24} color="#4B5563" />
+          <Text style={styles.menuItemText}>Message Templates</Text>
+          <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+        </TouchableOpacity>
+        
         <TouchableOpacity style={styles.menuItem}>
           <Ionicons name="lock-closed-outline" size={24} color="#4B5563" />
           <Text style={styles.menuItemText}>Privacy & Security</Text>
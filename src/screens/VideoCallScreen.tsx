@@ -1,35 +1,41 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View as RNView, Text as RNText, TouchableOpacity as RNTouchableOpacity, SafeAreaView as RNSafeAreaView, StatusBar, Alert, StyleSheet, Platform, PermissionsAndroid } from 'react-native';
 import { styled } from 'nativewind';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import RtcEngine, { ChannelProfileType, ClientRoleType, RtcSurfaceView, RenderModeType } from '../utils/AgoraRtcBridge';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import config from '../config';
+import { agoraService, getChannelName } from '../services/agoraService';
+import { beginBusySession, endBusySession } from '../services/presenceService';
+import ClientNotesPanel from '../components/ClientNotesPanel';
 
 const View = styled(RNView);
 const Text = styled(RNText);
 const TouchableOpacity = styled(RNTouchableOpacity);
 const SafeAreaView = styled(RNSafeAreaView);
 
-// Agora SDK configurations
-const appId = config.AGORA.APP_ID;
-
 const VideoCallScreen = () => {
   const navigation = useNavigation();
   const route = useRoute();
   const { bookingId, userData } = route.params as { bookingId: string; userData: any };
   
-  const [engine, setEngine] = useState<RtcEngine | null>(null);
   const [joined, setJoined] = useState(false);
   const [peerIds, setPeerIds] = useState<number[]>([]);
   const [callStatus, setCallStatus] = useState<'connecting' | 'connected' | 'ended'>('connecting');
   const [callDuration, setCallDuration] = useState(0);
   const [isMuted, setIsMuted] = useState(false);
   const [isCameraOff, setIsCameraOff] = useState(false);
+  const [channelName, setChannelName] = useState(getChannelName(bookingId));
   const [userInfo, setUserInfo] = useState<any>(userData || {
     name: 'User',
   });
+  const [showNotes, setShowNotes] = useState(false);
+  
+  const engineRef = useRef<RtcEngine | null>(null);
+  const channelNameRef = useRef(channelName);
+  // Timestamp of when the call connected, used to derive the running timer
+  const connectedAtRef = useRef<number | null>(null);
+  const endedRef = useRef(false);
   
   // Timer for call duration
   useEffect(() => {
@@ -37,7 +43,9 @@ const VideoCallScreen = () => {
     
     if (callStatus === 'connected') {
       intervalId = setInterval(() => {
-        setCallDuration(prev => prev + 1);
+        if (connectedAtRef.current) {
+          setCallDuration(Math.floor((Date.now() - connectedAtRef.current) / 1000));
+        }
       }, 1000);
     }
     
@@ -55,6 +63,8 @@ const VideoCallScreen = () => {
   
   // Request permissions and initialize Agora engine
   useEffect(() => {
+    let detachTokenRenewal: (() => void) | null = null;
+
     const init = async () => {
       // Request camera and microphone permissions
       if (Platform.OS === 'android') {
@@ -62,44 +72,57 @@ const VideoCallScreen = () => {
       }
       
       try {
+        // Tokens and the channel name are issued per booking by the backend
+        const credentials = await agoraService.getCallCredentials(bookingId);
+        channelNameRef.current = credentials.channelName;
+        setChannelName(credentials.channelName);
+        
         // Initialize Agora engine
-        const rtcEngine = await RtcEngine.create(appId);
+        const rtcEngine = await RtcEngine.create(credentials.appId);
+        engineRef.current = rtcEngine;
         await rtcEngine.enableVideo();
+        detachTokenRenewal = agoraService.attachTokenRenewal(rtcEngine, bookingId);
         
         // Set event listeners
-        rtcEngine.addListener('JoinChannelSuccess', (channel, uid, elapsed) => {
+        rtcEngine.addListener('JoinChannelSuccess', (channel: string, uid: number, elapsed: number) => {
           console.log('JoinChannelSuccess', channel, uid, elapsed);
+          if (connectedAtRef.current === null) {
+            connectedAtRef.current = Date.now();
+          }
           setCallStatus('connected');
           setJoined(true);
+          beginBusySession(`call:${bookingId}`);
         });
         
-        rtcEngine.addListener('UserJoined', (uid, elapsed) => {
+        rtcEngine.addListener('UserJoined', (uid: number, elapsed: number) => {
           console.log('UserJoined', uid, elapsed);
           setPeerIds(prevPeerIds => [...prevPeerIds, uid]);
         });
         
-        rtcEngine.addListener('UserOffline', (uid, reason) => {
+        rtcEngine.addListener('UserOffline', (uid: number, reason: number) => {
           console.log('UserOffline', uid, reason);
-          setPeerIds(prevPeerIds => prevPeerIds.filter(id => id !== uid));
-          
-          // If peer leaves, we could end the call automatically
-          if (peerIds.length === 0) {
-            handleEndCall();
-          }
+          setPeerIds(prevPeerIds => {
+            const remainingPeerIds = prevPeerIds.filter(id => id !== uid);
+            
+            // End the call once the last peer has left
+            if (remainingPeerIds.length === 0) {
+              handleEndCall();
+            }
+            return remainingPeerIds;
+          });
         });
         
-        rtcEngine.addListener('Error', (err) => {
+        rtcEngine.addListener('Error', (err: any) => {
           console.log('Error', err);
           Alert.alert('Error', `An error occurred: ${err}`);
         });
         
-        setEngine(rtcEngine);
-        
-        // Join the channel with the booking ID as the channel name
+        // Join the channel derived from the booking
         await rtcEngine.setChannelProfile(ChannelProfileType.LiveBroadcasting);
         await rtcEngine.setClientRole(ClientRoleType.Broadcaster);
-        await rtcEngine.joinChannel(null, bookingId, null, 0);
+        await rtcEngine.joinChannel(credentials.token, credentials.channelName, null, credentials.uid);
       } catch (error) {
+        if (detachTokenRenewal) detachTokenRenewal();
         console.error('Failed to initialize Agora engine', error);
         Alert.alert('Error', 'Failed to start video call');
       }
@@ -109,11 +132,22 @@ const VideoCallScreen = () => {
     
     // Clean up on unmount
     return () => {
-      if (engine) {
-        engine.destroy();
+      if (detachTokenRenewal) detachTokenRenewal();
+      const rtcEngine = engineRef.current;
+      engineRef.current = null;
+      if (rtcEngine) {
+        rtcEngine.removeAllListeners();
+        rtcEngine.destroy();
       }
     };
-  }, [bookingId, peerIds.length]);
+  }, [bookingId]);
+  
+  // Leaving the screen always ends the busy session, however the call ended
+  useEffect(() => {
+    return () => {
+      endBusySession(`call:${bookingId}`);
+    };
+  }, [bookingId]);
   
   // Request permissions for Android
   const requestCameraAndAudioPermission = async () => {
@@ -139,47 +173,66 @@ const VideoCallScreen = () => {
   
   // Toggle microphone
   const toggleMicrophone = async () => {
-    if (engine) {
-      await engine.enableLocalAudio(!isMuted);
+    if (engineRef.current) {
+      await engineRef.current.enableLocalAudio(!isMuted);
       setIsMuted(!isMuted);
     }
   };
   
   // Toggle camera
   const toggleCamera = async () => {
-    if (engine) {
-      await engine.enableLocalVideo(!isCameraOff);
+    if (engineRef.current) {
+      await engineRef.current.enableLocalVideo(!isCameraOff);
       setIsCameraOff(!isCameraOff);
     }
   };
   
   // Switch camera
   const switchCamera = async () => {
-    if (engine) {
-      await engine.switchCamera();
+    if (engineRef.current) {
+      await engineRef.current.switchCamera();
     }
   };
   
-  // End call
+  // End call, either from the hang-up button or because the last peer left
   const handleEndCall = async () => {
-    if (engine) {
-      await engine.leaveChannel();
+    if (endedRef.current) return;
+    endedRef.current = true;
+    
+    // Listeners call this from the first render, so read the call's state from refs
+    const duration = connectedAtRef.current
+      ? Math.floor((Date.now() - connectedAtRef.current) / 1000)
+      : 0;
+    
+    if (engineRef.current) {
+      await engineRef.current.leaveChannel();
     }
     
     setCallStatus('ended');
+    endBusySession(`call:${bookingId}`);
     
     // Update consultation status in the backend (to be implemented)
     try {
       // API call to update consultation status
       // await consultationService.endConsultation(bookingId);
       
-      // For now, just log
-      console.log('Call ended, bookingId:', bookingId, 'duration:', callDuration);
+      console.log('Call ended, bookingId:', bookingId, 'duration:', duration);
+      
+      const astrologerId = await AsyncStorage.getItem('astrologerId');
+      await agoraService.saveCallLog({
+        bookingId,
+        channelName: channelNameRef.current,
+        duration,
+        callType: 'video',
+        astrologerId: astrologerId || '',
+        userId: userInfo.id || userInfo._id || '',
+        status: duration > 0 ? 'completed' : 'missed'
+      });
       
       // Show alert with call details
       Alert.alert(
         'Call Ended',
-        `Your call with ${userInfo.name || 'User'} lasted ${formatTime(callDuration)}`,
+        `Your call with ${userInfo.name || 'User'} lasted ${formatTime(duration)}`,
         [{ text: 'OK', onPress: () => navigation.goBack() }]
       );
       
@@ -197,7 +250,7 @@ const VideoCallScreen = () => {
         key={uid}
         uid={uid}
         style={styles.fullView}
-        channelId={bookingId}
+        channelId={channelName}
         renderMode={RenderModeType.Hidden}
       />
     ));
@@ -242,7 +295,7 @@ const VideoCallScreen = () => {
           <View style={styles.pipView}>
             <RtcSurfaceView
               style={styles.fullView}
-              channelId={bookingId}
+              channelId={channelName}
               renderMode={RenderModeType.Hidden}
             />
           </View>
@@ -278,7 +331,22 @@ const VideoCallScreen = () => {
           </View>
           <Text className="text-gray-300 text-xs">Switch</Text>
         </TouchableOpacity>
+        
+        <TouchableOpacity className="items-center" onPress={() => setShowNotes(true)}>
+          <View className="bg-gray-700 w-12 h-12 rounded-full items-center justify-center mb-2">
+            <Ionicons name="document-text-outline" size={24} color="white" />
+          </View>
+          <Text className="text-gray-300 text-xs">Notes</Text>
+        </TouchableOpacity>
       </View>
+      
+      <ClientNotesPanel
+        visible={showNotes}
+        userId={userInfo._id || userInfo.id}
+        userName={userInfo.name}
+        bookingId={bookingId}
+        onClose={() => setShowNotes(false)}
+      />
     </SafeAreaView>
   );
 };
@@ -0,0 +1,170 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from '../api';
+import { agoraService, CallLogInput } from '../agoraService';
+
+jest.mock('react-native', () => ({ Platform: { OS: 'android' } }));
+
+jest.mock('../../config', () => ({
+  AGORA: { TOKEN_SERVER_URL: '', APP_ID: 'test-app-id' },
+  API_ENDPOINTS: { AGORA: { TOKEN: '/agora/token', CALL_LOGS: '/agora/call-logs' } }
+}));
+
+jest.mock('../api', () => ({ post: jest.fn(), get: jest.fn() }));
+
+jest.mock('../presenceService', () => ({ setPresenceStatus: jest.fn() }));
+
+jest.spyOn(console, 'log').mockImplementation(() => {});
+jest.spyOn(console, 'error').mockImplementation(() => {});
+
+const post = api.post as jest.Mock;
+
+const callLog = (bookingId: string): CallLogInput => ({
+  bookingId,
+  channelName: `booking_${bookingId}`,
+  duration: 60,
+  callType: 'audio',
+  astrologerId: 'astrologer-1',
+  userId: 'user-1',
+  status: 'completed'
+});
+
+const httpError = (status?: number) =>
+  Object.assign(new Error(`Request failed${status ? ` with status ${status}` : ''}`), {
+    response: status ? { status } : undefined
+  });
+
+const getQueue = async () => JSON.parse((await AsyncStorage.getItem('pendingCallLogs')) || '[]');
+
+describe('agoraService call log queue', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    post.mockReset();
+  });
+
+  it('queues logs the backend cannot be reached for', async () => {
+    post.mockRejectedValue(httpError());
+
+    expect(await agoraService.saveCallLog(callLog('booking-1'))).toBe(true);
+
+    expect(await getQueue()).toEqual([expect.objectContaining({ bookingId: 'booking-1' })]);
+  });
+
+  it('drops queued logs the backend rejects and keeps flushing the rest', async () => {
+    post.mockRejectedValue(httpError(503));
+    await agoraService.saveCallLog(callLog('booking-1'));
+    await agoraService.saveCallLog(callLog('booking-2'));
+    await agoraService.saveCallLog(callLog('booking-3'));
+
+    post.mockReset();
+    post
+      .mockRejectedValueOnce(httpError(409))
+      .mockRejectedValueOnce(httpError(500))
+      .mockResolvedValueOnce({ data: { success: true } });
+
+    expect(await agoraService.flushCallLogQueue()).toBe(1);
+
+    expect(post).toHaveBeenCalledTimes(3);
+    expect(await getQueue()).toEqual([expect.objectContaining({ bookingId: 'booking-2' })]);
+  });
+
+  it('does not queue a log the backend rejects', async () => {
+    post.mockRejectedValue(httpError(400));
+
+    expect(await agoraService.saveCallLog(callLog('booking-1'))).toBe(false);
+
+    expect(await getQueue()).toEqual([]);
+  });
+
+  it('sends each queued log once when saves run at the same time', async () => {
+    post.mockRejectedValue(httpError());
+    await agoraService.saveCallLog(callLog('booking-1'));
+
+    post.mockReset();
+    post.mockResolvedValue({ data: { success: true } });
+
+    await Promise.all([
+      agoraService.saveCallLog(callLog('booking-2')),
+      agoraService.saveCallLog(callLog('booking-3')),
+      agoraService.flushCallLogQueue()
+    ]);
+
+    const sentBookings = post.mock.calls.map(([, log]) => log.bookingId);
+    expect(sentBookings.sort()).toEqual(['booking-1', 'booking-2', 'booking-3']);
+    expect(await getQueue()).toEqual([]);
+  });
+});
+
+describe('agoraService with a local token server', () => {
+  let server: Server;
+  let requests: string[];
+
+  // Issues a new token on every request, like the real token server
+  beforeAll(async () => {
+    requests = [];
+    server = createServer((req, res) => {
+      requests.push(req.url || '');
+      const bookingId = (req.url || '').split('/').pop();
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        success: true,
+        data: { token: `token-${requests.length}`, channelName: `booking_${bookingId}`, uid: 7, expiresIn: 3600 }
+      }));
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    agoraService.setTokenServerUrl(`http://localhost:${port}`);
+  });
+
+  afterAll(async () => {
+    agoraService.setTokenServerUrl('');
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    agoraService.clearTokenCache();
+  });
+
+  it('fetches credentials from the token server instead of the API', async () => {
+    const credentials = await agoraService.getCallCredentials('booking-1');
+
+    expect(requests).toEqual(['/agora/token/booking-1']);
+    expect(api.get).not.toHaveBeenCalled();
+    expect(credentials).toMatchObject({
+      appId: 'test-app-id',
+      token: 'token-1',
+      channelName: 'booking_booking-1',
+      uid: 7
+    });
+  });
+
+  it('reuses cached credentials until the server is changed', async () => {
+    await agoraService.getCallCredentials('booking-1');
+    await agoraService.getCallCredentials('booking-1');
+    expect(requests).toHaveLength(1);
+
+    const { port } = server.address() as AddressInfo;
+    agoraService.setTokenServerUrl(`http://localhost:${port}`);
+    await agoraService.getCallCredentials('booking-1');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('renews the engine token when it is about to expire, until detached', async () => {
+    const listeners = new Map<string, () => void>();
+    const engine = {
+      addListener: jest.fn((event: string, listener: () => void) => listeners.set(event, listener)),
+      removeListener: jest.fn((event: string) => listeners.delete(event)),
+      renewToken: jest.fn()
+    };
+
+    const detach = agoraService.attachTokenRenewal(engine, 'booking-1');
+    listeners.get('TokenPrivilegeWillExpire')!();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(engine.renewToken).toHaveBeenCalledWith('token-1');
+
+    detach();
+    expect(listeners.size).toBe(0);
+  });
+});
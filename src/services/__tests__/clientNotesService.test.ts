@@ -0,0 +1,137 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from '../api';
+import { ClientNote, getCachedNotes, mergeNotes, syncClientNotes } from '../clientNotesService';
+
+jest.mock('../api', () => ({ put: jest.fn(), get: jest.fn() }));
+
+const put = api.put as jest.Mock;
+const get = api.get as jest.Mock;
+
+const note = (id: string, text: string, updatedAt: string, changes: Partial<ClientNote> = {}): ClientNote => ({
+  id,
+  userId: 'user-1',
+  category: 'general',
+  text,
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt,
+  ...changes
+});
+
+const T1 = '2026-10-01T10:00:00.000Z';
+const T2 = '2026-10-02T10:00:00.000Z';
+const T3 = '2026-10-03T10:00:00.000Z';
+
+const storeNotes = (notes: ClientNote[]) => AsyncStorage.setItem('clientNotes:user-1', JSON.stringify(notes));
+
+const getStoredNotes = async (): Promise<ClientNote[]> =>
+  JSON.parse((await AsyncStorage.getItem('clientNotes:user-1')) || '[]');
+
+describe('mergeNotes', () => {
+  it('keeps the server copy over an older pending local edit', () => {
+    const merged = mergeNotes(
+      [note('a', 'Edited here', T2, { pending: true })],
+      [note('a', 'Edited on another device', T3)]
+    );
+
+    expect(merged).toEqual([note('a', 'Edited on another device', T3, { pending: false })]);
+  });
+
+  it('keeps a pending local edit that is newer than the server copy', () => {
+    const merged = mergeNotes(
+      [note('a', 'Edited here', T3, { pending: true })],
+      [note('a', 'Original', T1)]
+    );
+
+    expect(merged).toEqual([note('a', 'Edited here', T3, { pending: true })]);
+  });
+
+  it('lets an unsynced deletion win over an older remote edit', () => {
+    const merged = mergeNotes(
+      [note('a', 'Original', T3, { deleted: true, pending: true })],
+      [note('a', 'Edited on another device', T2)]
+    );
+
+    expect(merged).toEqual([note('a', 'Original', T3, { deleted: true, pending: true })]);
+  });
+
+  it('brings a deleted note back when it was edited elsewhere afterwards', () => {
+    const merged = mergeNotes(
+      [note('a', 'Original', T2, { deleted: true, pending: true })],
+      [note('a', 'Edited on another device', T3)]
+    );
+
+    expect(merged).toEqual([note('a', 'Edited on another device', T3, { pending: false })]);
+  });
+
+  it('replaces synced local copies with the server copy and keeps notes only one side has', () => {
+    const merged = mergeNotes(
+      [note('a', 'Stale', T3), note('local', 'Written offline', T2, { pending: true })],
+      [note('a', 'Server', T1), note('remote', 'Written elsewhere', T1)]
+    );
+
+    expect(merged.map(item => [item.id, item.text])).toEqual([
+      ['a', 'Server'],
+      ['remote', 'Written elsewhere'],
+      ['local', 'Written offline']
+    ]);
+  });
+});
+
+describe('syncClientNotes', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    put.mockReset();
+    get.mockReset();
+  });
+
+  it('sends pending changes and marks them synced', async () => {
+    await storeNotes([note('a', 'Written offline', T2, { pending: true })]);
+    put.mockResolvedValue({ data: { data: [note('a', 'Written offline', T2)] } });
+
+    const notes = await syncClientNotes('user-1');
+
+    expect(put).toHaveBeenCalledWith('/users/user-1/notes', { notes: [note('a', 'Written offline', T2)] });
+    expect(notes).toEqual([note('a', 'Written offline', T2, { pending: false })]);
+    expect(await getStoredNotes()).toEqual(notes);
+  });
+
+  it('only pulls from the server when nothing is pending', async () => {
+    get.mockResolvedValue({ data: { data: [note('remote', 'Written elsewhere', T1)] } });
+
+    expect(await syncClientNotes('user-1')).toEqual([note('remote', 'Written elsewhere', T1, { pending: false })]);
+    expect(put).not.toHaveBeenCalled();
+  });
+
+  it('keeps notes written while the sync was in flight pending', async () => {
+    await storeNotes([note('a', 'First draft', T1, { pending: true })]);
+    put.mockImplementation(async () => {
+      // The astrologer edits the sent note and writes another before the server answers
+      await storeNotes([
+        note('a', 'Second draft', T2, { pending: true }),
+        note('b', 'New note', T2, { pending: true, createdAt: T2 })
+      ]);
+      return { data: { data: [note('a', 'First draft', T1)] } };
+    });
+
+    await syncClientNotes('user-1');
+
+    const stored = await getStoredNotes();
+    expect(stored).toEqual(expect.arrayContaining([
+      note('a', 'Second draft', T2, { pending: true }),
+      note('b', 'New note', T2, { pending: true, createdAt: T2 })
+    ]));
+    expect(stored).toHaveLength(2);
+  });
+
+  it('keeps the local copy when the server cannot be reached', async () => {
+    await storeNotes([
+      note('a', 'Written offline', T2, { pending: true }),
+      note('b', 'Deleted', T2, { deleted: true, pending: true })
+    ]);
+    put.mockRejectedValue(new Error('Network Error'));
+
+    expect(await syncClientNotes('user-1')).toEqual([note('a', 'Written offline', T2, { pending: true })]);
+    expect(await getStoredNotes()).toHaveLength(2);
+    expect(await getCachedNotes('user-1')).toHaveLength(1);
+  });
+});
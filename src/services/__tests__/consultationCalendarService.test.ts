@@ -0,0 +1,177 @@
+import { Booking } from '../bookingService';
+import { AvailabilitySchedule, createEmptySchedule, getDeviceTimezone } from '../availabilityService';
+import { getCalendarEntries, getFreeGaps, getWorkingHours, isInStartWindow } from '../consultationCalendarService';
+
+jest.mock('../api', () => ({ profileService: { getProfile: jest.fn(), updateProfile: jest.fn() } }));
+
+// Monday 19 October 2026, in the device's timezone
+// Schedules in other timezones use slots that land inside this day for any device within UTC-9 to UTC+9
+const MONDAY = new Date(2026, 9, 19);
+const DEVICE_TIMEZONE = getDeviceTimezone();
+
+const at = (time: string, day: Date = MONDAY) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+// Start times are local HH:mm, or full ISO strings for exact moments
+const booking = (id: string, startTime: string | undefined, changes: Partial<Booking> = {}): Booking => ({
+  _id: id,
+  user: 'user-1',
+  astrologer: 'astrologer-1',
+  consultationType: 'chat',
+  amount: 300,
+  status: 'confirmed',
+  startTime: startTime && (startTime.includes('T') ? startTime : at(startTime).toISOString()),
+  duration: 30,
+  createdAt: MONDAY.toISOString(),
+  updatedAt: MONDAY.toISOString(),
+  ...changes
+});
+
+const schedule = (timezone: string, changes: Partial<AvailabilitySchedule> = {}): AvailabilitySchedule => {
+  const empty = createEmptySchedule();
+  return {
+    ...empty,
+    timezone,
+    slots: { ...empty.slots, monday: [{ start: '09:00', end: '12:00' }] },
+    ...changes
+  };
+};
+
+// Periods as local times, e.g. "09:00-12:00"
+const times = (periods: { start: Date; end: Date }[]) =>
+  periods.map(period => `${period.start.toTimeString().slice(0, 5)}-${period.end.toTimeString().slice(0, 5)}`);
+
+// Periods as exact moments
+const moments = (periods: { start: Date; end: Date }[]) =>
+  periods.map(period => `${period.start.toISOString()} ${period.end.toISOString()}`);
+
+describe('getCalendarEntries', () => {
+  it('marks bookings that clash with each other', () => {
+    const entries = getCalendarEntries([
+      booking('late', '11:00'),
+      booking('first', '10:00', { duration: 45 }),
+      booking('second', '10:30'),
+      booking('after', '11:30')
+    ]);
+
+    expect(entries.map(entry => [entry.booking._id, entry.overlapsWith])).toEqual([
+      ['first', ['second']],
+      ['second', ['first']],
+      ['late', []],
+      ['after', []]
+    ]);
+  });
+
+  it('leaves out bookings that are not going ahead or have no start time', () => {
+    const entries = getCalendarEntries([
+      booking('cancelled', '10:00', { status: 'cancelled' }),
+      booking('unscheduled', undefined),
+      booking('active', '10:15', { status: 'active' })
+    ]);
+
+    expect(entries.map(entry => entry.booking._id)).toEqual(['active']);
+    expect(entries[0].overlapsWith).toEqual([]);
+  });
+
+  it('uses a default length for bookings without a duration', () => {
+    const entries = getCalendarEntries([
+      booking('first', '10:00', { duration: undefined }),
+      booking('second', '10:29')
+    ]);
+
+    expect(entries[0].overlapsWith).toEqual(['second']);
+  });
+});
+
+describe('getWorkingHours', () => {
+  it('uses default hours without a schedule', () => {
+    expect(times(getWorkingHours(null, MONDAY))).toEqual(['09:00-21:00']);
+  });
+
+  it('reads slots in the device timezone when the schedule is in it', () => {
+    expect(times(getWorkingHours(schedule(DEVICE_TIMEZONE), MONDAY))).toEqual(['09:00-12:00']);
+  });
+
+  it('converts slots from the schedule timezone', () => {
+    expect(moments(getWorkingHours(schedule('UTC'), MONDAY))).toEqual([
+      '2026-10-19T09:00:00.000Z 2026-10-19T12:00:00.000Z'
+    ]);
+  });
+
+  it('picks up slots from the schedule day that runs into this one', () => {
+    const kiritimati = schedule('Pacific/Kiritimati', {
+      slots: { ...createEmptySchedule().slots, tuesday: [{ start: '02:00', end: '05:00' }] }
+    });
+
+    // Kiritimati is UTC+14, so early Tuesday there is still Monday almost everywhere else
+    expect(moments(getWorkingHours(kiritimati, MONDAY))).toEqual([
+      '2026-10-19T12:00:00.000Z 2026-10-19T15:00:00.000Z'
+    ]);
+  });
+
+  it('has no hours on an exception date in the schedule timezone', () => {
+    const dayOff = schedule('UTC', { exceptions: [{ date: '2026-10-19' }] });
+
+    expect(getWorkingHours(dayOff, MONDAY)).toEqual([]);
+  });
+});
+
+describe('getFreeGaps', () => {
+  const beforeMonday = at('00:00');
+
+  it('splits working hours around bookings', () => {
+    const entries = getCalendarEntries([booking('1', '10:00'), booking('2', '11:00', { duration: 15 })]);
+
+    expect(times(getFreeGaps(MONDAY, entries, schedule(DEVICE_TIMEZONE), beforeMonday))).toEqual([
+      '09:00-10:00',
+      '10:30-11:00',
+      '11:15-12:00'
+    ]);
+  });
+
+  it('treats overlapping bookings as one busy stretch', () => {
+    const entries = getCalendarEntries([booking('1', '10:00', { duration: 60 }), booking('2', '10:30')]);
+
+    expect(times(getFreeGaps(MONDAY, entries, schedule(DEVICE_TIMEZONE), beforeMonday))).toEqual([
+      '09:00-10:00',
+      '11:00-12:00'
+    ]);
+  });
+
+  it('leaves out short gaps and time that has passed', () => {
+    const entries = getCalendarEntries([booking('1', '09:10', { duration: 80 })]);
+
+    expect(times(getFreeGaps(MONDAY, entries, schedule(DEVICE_TIMEZONE), at('11:00')))).toEqual(['11:00-12:00']);
+    expect(times(getFreeGaps(MONDAY, entries, schedule(DEVICE_TIMEZONE), at('11:50')))).toEqual([]);
+  });
+
+  it('finds gaps in working hours converted from the schedule timezone', () => {
+    const entries = getCalendarEntries([booking('1', '2026-10-19T10:00:00.000Z')]);
+
+    expect(moments(getFreeGaps(MONDAY, entries, schedule('UTC'), beforeMonday))).toEqual([
+      '2026-10-19T09:00:00.000Z 2026-10-19T10:00:00.000Z',
+      '2026-10-19T10:30:00.000Z 2026-10-19T12:00:00.000Z'
+    ]);
+  });
+});
+
+describe('isInStartWindow', () => {
+  const [entry] = getCalendarEntries([booking('1', '10:00')]);
+
+  it('opens shortly before the scheduled start and closes when the booking ends', () => {
+    expect(isInStartWindow(entry, at('09:45'))).toBe(false);
+    expect(isInStartWindow(entry, at('09:50'))).toBe(true);
+    expect(isInStartWindow(entry, at('10:29'))).toBe(true);
+    expect(isInStartWindow(entry, at('10:30'))).toBe(false);
+  });
+
+  it('is always open for a session in progress', () => {
+    const [active] = getCalendarEntries([booking('1', '10:00', { status: 'active' })]);
+
+    expect(isInStartWindow(active, at('12:00'))).toBe(true);
+  });
+});
@@ -0,0 +1,202 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { chatService } from '../chatService';
+import {
+  OutboxMessage,
+  clearOutbox,
+  enqueueMessage,
+  getBackoffDelay,
+  getOutboxMessages,
+  retryMessage,
+  startOutbox
+} from '../messageOutbox';
+import { SOCKET_EVENTS } from '../socketEvents';
+
+jest.mock('../chatService', () => ({ chatService: { sendMessage: jest.fn() } }));
+
+jest.mock('../attachmentService', () => ({ uploadAttachment: jest.fn(), validateAttachment: jest.fn(() => null) }));
+
+// Handlers the outbox subscribes with, by event name, so tests can play the server's side
+const mockSocketHandlers = new Map<string, (data: any) => void>();
+
+jest.mock('../socketManager', () => ({
+  socketManager: {
+    on: jest.fn((event: string, handler: (data: any) => void) => {
+      mockSocketHandlers.set(event, handler);
+      return () => mockSocketHandlers.delete(event);
+    }),
+    onStateChange: jest.fn(() => () => {})
+  }
+}));
+
+jest.spyOn(console, 'error').mockImplementation(() => {});
+
+const sendMessage = chatService.sendMessage as jest.Mock;
+
+// Lets the outbox finish whatever it started; it only waits on promises, never on timers, between attempts
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+const serverSends = (event: string, data: unknown) => mockSocketHandlers.get(event)!(data);
+
+const getEntry = async (temporaryId: string): Promise<OutboxMessage | undefined> =>
+  (await getOutboxMessages('chat-1')).find(entry => entry.temporaryId === temporaryId);
+
+const queueMessage = () => enqueueMessage({ chatId: 'chat-1', bookingId: 'booking-1', message: 'Hello' });
+
+describe('messageOutbox', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+    await clearOutbox();
+    await AsyncStorage.clear();
+    sendMessage.mockReset();
+    startOutbox();
+    await settle();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('saves a message before the first attempt', async () => {
+    const setItem = AsyncStorage.setItem as jest.Mock;
+    setItem.mockClear();
+    sendMessage.mockResolvedValue({ data: { _id: 'server-1' } });
+
+    const { temporaryId } = await queueMessage();
+    await settle();
+
+    expect(JSON.parse(setItem.mock.calls[0][1])).toEqual([
+      expect.objectContaining({ temporaryId, status: 'queued', message: 'Hello' })
+    ]);
+    expect(setItem.mock.invocationCallOrder[0]).toBeLessThan(sendMessage.mock.invocationCallOrder[0]);
+  });
+
+  it('moves from queued to sent, delivered and read', async () => {
+    sendMessage.mockResolvedValue({ data: { _id: 'server-1' } });
+
+    const { temporaryId } = await queueMessage();
+    await settle();
+    expect(await getEntry(temporaryId)).toMatchObject({ status: 'sent', serverId: 'server-1' });
+
+    serverSends(SOCKET_EVENTS.CHAT_MESSAGE_DELIVERED, { chatId: 'chat-1', messageId: 'server-1' });
+    await settle();
+    expect((await getEntry(temporaryId))!.status).toBe('delivered');
+
+    serverSends(SOCKET_EVENTS.CHAT_MESSAGES_READ, { chatId: 'chat-1', messageIds: ['server-1'] });
+    await settle();
+    expect((await getEntry(temporaryId))!.status).toBe('read');
+
+    // A late confirmation doesn't move it back
+    serverSends(SOCKET_EVENTS.CHAT_MESSAGE_SENT, { chatId: 'chat-1', messageId: 'server-1', temporaryId });
+    await settle();
+    expect((await getEntry(temporaryId))!.status).toBe('read');
+  });
+
+  it('matches the server echo by temporary ID instead of adding the message twice', async () => {
+    let respond: (response: unknown) => void = () => {};
+    sendMessage.mockReturnValue(new Promise(resolve => {
+      respond = resolve;
+    }));
+
+    const { temporaryId } = await queueMessage();
+    await settle();
+    expect((await getEntry(temporaryId))!.status).toBe('sending');
+
+    // The echo arrives before the HTTP response
+    serverSends(SOCKET_EVENTS.NEW_MESSAGE, { _id: 'server-1', temporaryId, message: 'Hello', senderType: 'astrologer' });
+    await settle();
+    respond({ success: true });
+    await settle();
+
+    expect(await getOutboxMessages('chat-1')).toEqual([
+      expect.objectContaining({ temporaryId, status: 'sent', serverId: 'server-1' })
+    ]);
+  });
+
+  it('retries with a doubling delay', async () => {
+    sendMessage.mockRejectedValue(new Error('Network Error'));
+
+    const { temporaryId } = await queueMessage();
+    await settle();
+
+    for (const [attempts, delay] of [[1, 2000], [2, 4000], [3, 8000]]) {
+      const entry = (await getEntry(temporaryId))!;
+      expect(entry).toMatchObject({ status: 'queued', attempts, lastError: 'Network Error' });
+      expect(entry.nextAttemptAt - Date.now()).toBe(delay);
+
+      jest.advanceTimersByTime(delay - 1);
+      await settle();
+      expect(sendMessage).toHaveBeenCalledTimes(attempts);
+
+      jest.advanceTimersByTime(1);
+      await settle();
+      expect(sendMessage).toHaveBeenCalledTimes(attempts + 1);
+    }
+  });
+
+  it('caps the delay between attempts at a minute', () => {
+    expect([1, 2, 3, 4, 5, 6, 7].map(getBackoffDelay)).toEqual([2000, 4000, 8000, 16000, 32000, 60000, 60000]);
+  });
+
+  it('gives up after five attempts until retried by hand', async () => {
+    sendMessage.mockRejectedValue(new Error('Network Error'));
+
+    const { temporaryId } = await queueMessage();
+    await settle();
+    for (let attempt = 1; attempt < 5; attempt++) {
+      jest.advanceTimersByTime(getBackoffDelay(attempt));
+      await settle();
+    }
+
+    expect(await getEntry(temporaryId)).toMatchObject({ status: 'failed', attempts: 5 });
+
+    jest.advanceTimersByTime(10 * 60 * 1000);
+    await settle();
+    expect(sendMessage).toHaveBeenCalledTimes(5);
+
+    sendMessage.mockResolvedValue({ data: { _id: 'server-1' } });
+    await retryMessage(temporaryId);
+    await settle();
+    expect(await getEntry(temporaryId)).toMatchObject({ status: 'sent', attempts: 0 });
+  });
+});
+
+describe('messageOutbox after a restart', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const stored = (temporaryId: string, status: OutboxMessage['status'], age = 0): OutboxMessage => ({
+    temporaryId,
+    chatId: 'chat-1',
+    message: temporaryId,
+    messageType: 'text',
+    status,
+    attempts: 1,
+    nextAttemptAt: Date.now(),
+    createdAt: new Date(Date.now() - age).toISOString()
+  });
+
+  it('reloads unsent messages and drops old confirmed ones', async () => {
+    let storage: typeof AsyncStorage;
+    let outbox: typeof import('../messageOutbox');
+    jest.isolateModules(() => {
+      storage = require('@react-native-async-storage/async-storage');
+      outbox = require('../messageOutbox');
+    });
+
+    await storage!.setItem('messageOutbox', JSON.stringify([
+      stored('queued', 'queued'),
+      stored('interrupted', 'sending'),
+      stored('failed', 'failed', 2 * DAY_MS),
+      stored('recent', 'delivered'),
+      stored('old', 'read', 2 * DAY_MS)
+    ]));
+
+    const messages = await outbox!.getOutboxMessages('chat-1');
+
+    expect(messages.map(entry => [entry.temporaryId, entry.status])).toEqual([
+      ['queued', 'queued'],
+      ['interrupted', 'queued'],
+      ['failed', 'failed'],
+      ['recent', 'delivered']
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import {
+  NotificationCategory,
+  NotificationTarget,
+  createFakeNotificationScheduler,
+  getNotificationSettings,
+  notify,
+  notifyBookingRequest,
+  notifyChatMessage,
+  onNotificationTap,
+  setNotificationCategoryEnabled,
+  setNotificationScheduler
+} from '../notificationService';
+
+jest.mock('react-native', () => ({
+  AppState: { currentState: 'background' },
+  Platform: { OS: 'android' }
+}));
+
+// Only the fake scheduler is used here, so the native module is never touched
+jest.mock('expo-notifications', () => ({}));
+
+const CATEGORIES: NotificationCategory[] = ['bookingRequests', 'chatMessages', 'followUps'];
+
+const setAppState = (state: string) => {
+  (AppState as { currentState: string }).currentState = state;
+};
+
+const notification = (category: NotificationCategory) => ({
+  category,
+  title: 'Title',
+  body: 'Body',
+  target: { screen: 'FollowUps' as const }
+});
+
+describe('notificationService', () => {
+  const scheduler = createFakeNotificationScheduler();
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    for (const category of CATEGORIES) {
+      await setNotificationCategoryEnabled(category, true);
+    }
+    scheduler.reset();
+    setNotificationScheduler(scheduler);
+    setAppState('background');
+  });
+
+  describe('settings', () => {
+    it('only shows notifications for enabled categories', async () => {
+      await setNotificationCategoryEnabled('chatMessages', false);
+
+      expect(await notify(notification('chatMessages'))).toBeNull();
+      expect(await notify(notification('bookingRequests'))).not.toBeNull();
+      expect(scheduler.scheduled.map(item => item.category)).toEqual(['bookingRequests']);
+    });
+
+    it('shows a category again once it is switched back on', async () => {
+      await setNotificationCategoryEnabled('followUps', false);
+      await setNotificationCategoryEnabled('followUps', true);
+
+      expect(await notify(notification('followUps'))).not.toBeNull();
+    });
+
+    it('saves the settings for the next launch', async () => {
+      await setNotificationCategoryEnabled('bookingRequests', false);
+
+      expect(JSON.parse((await AsyncStorage.getItem('notificationSettings'))!)).toMatchObject({
+        bookingRequests: false,
+        chatMessages: true
+      });
+      expect((await getNotificationSettings()).bookingRequests).toBe(false);
+    });
+
+    it('shows nothing without permission', async () => {
+      setNotificationScheduler(createFakeNotificationScheduler(false));
+
+      expect(await notify(notification('bookingRequests'))).toBeNull();
+    });
+  });
+
+  describe('notify', () => {
+    it('leaves alerting to the app while it is in the foreground', async () => {
+      setAppState('active');
+
+      expect(await notify(notification('bookingRequests'))).toBeNull();
+      expect(scheduler.scheduled).toEqual([]);
+    });
+
+    it('shows notifications while the app is in the background', async () => {
+      setAppState('background');
+
+      const id = await notify(notification('bookingRequests'));
+
+      expect(scheduler.scheduled).toEqual([expect.objectContaining({ id, category: 'bookingRequests' })]);
+    });
+  });
+
+  describe('deep links', () => {
+    const tapLatest = () => {
+      const targets: NotificationTarget[] = [];
+      const remove = onNotificationTap(target => targets.push(target));
+      scheduler.tap(scheduler.scheduled[scheduler.scheduled.length - 1].id);
+      remove();
+      return targets;
+    };
+
+    it('opens booking requests from a booking request notification', async () => {
+      await notifyBookingRequest({ userId: { name: 'Asha' }, consultationType: 'video' });
+
+      expect(scheduler.scheduled[0]).toMatchObject({
+        title: 'New booking request',
+        body: 'Asha wants a video call consultation'
+      });
+      expect(tapLatest()).toEqual([{ screen: 'BookingRequests' }]);
+    });
+
+    it('opens the chat from a chat message notification', async () => {
+      await notifyChatMessage({
+        chatId: 'chat-1',
+        bookingId: 'booking-1',
+        message: { message: 'Hello', senderType: 'user', sender: { name: 'Asha' } }
+      });
+
+      expect(scheduler.scheduled[0]).toMatchObject({ title: 'Asha', body: 'Hello' });
+      expect(tapLatest()).toEqual([{ screen: 'Chat', params: { bookingId: 'booking-1', chatId: 'chat-1' } }]);
+    });
+
+    it('takes the booking and chat from the message when the event has none', async () => {
+      await notifyChatMessage({
+        message: { content: 'Hi', senderType: 'user', bookingId: 'booking-2', chatId: 'chat-2' }
+      });
+
+      expect(tapLatest()).toEqual([{ screen: 'Chat', params: { bookingId: 'booking-2', chatId: 'chat-2' } }]);
+    });
+
+    it('does not notify about the astrologer\'s own messages or ones without a booking', async () => {
+      await notifyChatMessage({ bookingId: 'booking-1', message: { message: 'Hi', senderType: 'astrologer' } });
+      await notifyChatMessage({ message: { message: 'Hi', senderType: 'user' } });
+
+      expect(scheduler.scheduled).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { startBooking } from '../bookingService';
+import {
+  SessionBooking,
+  getDueWarning,
+  getSessionMeter,
+  getSessionStartedAt,
+  startSession
+} from '../sessionMeterService';
+
+jest.mock('../bookingService', () => ({ startBooking: jest.fn(), completeBooking: jest.fn() }));
+
+jest.mock('../messageOutbox', () => ({ enqueueMessage: jest.fn() }));
+
+const MINUTE_MS = 60 * 1000;
+const NOW = new Date('2026-10-19T10:30:00Z').getTime();
+
+const minutesAgo = (minutes: number) => new Date(NOW - minutes * MINUTE_MS).toISOString();
+
+const booking = (changes: Partial<SessionBooking> = {}): SessionBooking => ({
+  status: 'active',
+  amount: 300,
+  duration: 30,
+  startedAt: minutesAgo(10),
+  ...changes
+});
+
+describe('getSessionMeter', () => {
+  it('does not run for a confirmed booking whose scheduled start has passed', () => {
+    const confirmed = booking({ status: 'confirmed', startTime: minutesAgo(45), startedAt: undefined });
+
+    expect(getSessionMeter(confirmed, NOW)).toBeNull();
+  });
+
+  it('does not run for completed bookings or without a purchased duration', () => {
+    expect(getSessionMeter(booking({ status: 'completed' }), NOW)).toBeNull();
+    expect(getSessionMeter(booking({ duration: undefined }), NOW)).toBeNull();
+    expect(getSessionMeter(null, NOW)).toBeNull();
+  });
+
+  it('runs from when the session was started rather than the scheduled time', () => {
+    const meter = getSessionMeter(booking({ startTime: minutesAgo(25) }), NOW);
+
+    expect(meter).toMatchObject({
+      elapsedMs: 10 * MINUTE_MS,
+      totalMs: 30 * MINUTE_MS,
+      remainingMs: 20 * MINUTE_MS,
+      isOver: false
+    });
+    expect(meter!.progress).toBeCloseTo(1 / 3);
+  });
+
+  it('falls back to the server start time for sessions started elsewhere', () => {
+    const meter = getSessionMeter(booking({ startedAt: undefined, startTime: minutesAgo(5) }), NOW);
+
+    expect(meter!.elapsedMs).toBe(5 * MINUTE_MS);
+  });
+
+  it('bills per started minute', () => {
+    const meter = getSessionMeter(booking({ startedAt: new Date(NOW - 10 * MINUTE_MS - 1000).toISOString() }), NOW);
+
+    // 11 started minutes of 30 at ₹300
+    expect(meter!.billedAmount).toBe(110);
+  });
+
+  it('stops at the purchased time and caps the bill at the booking amount', () => {
+    const meter = getSessionMeter(booking({ startedAt: minutesAgo(40) }), NOW);
+
+    expect(meter).toMatchObject({
+      elapsedMs: 30 * MINUTE_MS,
+      remainingMs: 0,
+      progress: 1,
+      billedAmount: 300,
+      isOver: true
+    });
+  });
+});
+
+describe('getDueWarning', () => {
+  it('warns nothing while more than five minutes are left', () => {
+    expect(getDueWarning(6 * MINUTE_MS, [])).toBeNull();
+  });
+
+  it('warns at five minutes and then at one minute', () => {
+    expect(getDueWarning(5 * MINUTE_MS, [])).toBe(5);
+    expect(getDueWarning(4 * MINUTE_MS, [5])).toBeNull();
+    expect(getDueWarning(MINUTE_MS, [5])).toBe(1);
+    expect(getDueWarning(30 * 1000, [5, 1])).toBeNull();
+  });
+
+  it('only sends the tightest warning when resuming late', () => {
+    expect(getDueWarning(30 * 1000, [])).toBe(1);
+    expect(getDueWarning(4 * MINUTE_MS, [1])).toBeNull();
+  });
+
+  it('warns nothing once the time is up', () => {
+    expect(getDueWarning(0, [])).toBeNull();
+  });
+});
+
+describe('startSession', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('remembers when the session was started', async () => {
+    (startBooking as jest.Mock).mockResolvedValue({ _id: 'booking-1', status: 'active', startTime: minutesAgo(45) });
+
+    const before = Date.now();
+    const started = await startSession('booking-1');
+
+    expect(started.status).toBe('active');
+    expect(new Date(started.startedAt).getTime()).toBeGreaterThanOrEqual(before);
+    expect(await getSessionStartedAt('booking-1')).toBe(started.startedAt);
+  });
+});
@@ -0,0 +1,116 @@
+import { IncomingEvent, SOCKET_EVENTS, isIncomingEvent, validateIncomingEvent } from '../socketEvents';
+
+// Keeps the expected warnings about dropped payloads out of the test output
+jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+const message = { _id: 'message-1', message: 'Hello', senderType: 'user', timestamp: 1700000000000 };
+
+// A payload the server really sends for each event, and payloads that must be dropped
+const CASES: { event: IncomingEvent; valid: unknown[]; malformed: unknown[] }[] = [
+  {
+    event: SOCKET_EVENTS.NEW_BOOKING_REQUEST,
+    valid: [
+      { _id: 'booking-1', consultationType: 'chat', amount: 300, userId: { _id: 'user-1', name: 'Asha' } },
+      { _id: 'booking-1', consultationType: null }
+    ],
+    malformed: [null, 'booking-1', {}, { _id: '' }, { _id: 'booking-1', consultationType: 3 }]
+  },
+  {
+    event: SOCKET_EVENTS.CHAT_JOINED,
+    valid: [{ chatId: 'chat-1', bookingId: 'booking-1' }, {}],
+    malformed: [null, 'chat-1', ['chat-1']]
+  },
+  {
+    event: SOCKET_EVENTS.CHAT_ERROR,
+    valid: [{ message: 'Not allowed', code: 'FORBIDDEN' }, {}],
+    malformed: [undefined, { message: 404 }]
+  },
+  {
+    event: SOCKET_EVENTS.CHAT_NEW_MESSAGE,
+    valid: [{ chatId: 'chat-1', bookingId: 'booking-1', message }, { message: { temporaryId: 'temp-1' } }],
+    malformed: [{ chatId: 'chat-1' }, { message: { message: 'No ID' } }, { chatId: 7, message }]
+  },
+  {
+    event: SOCKET_EVENTS.CHAT_MESSAGE,
+    valid: [{ chatId: 'chat-1', message }],
+    malformed: [{ message: { ...message, senderType: 'robot' } }]
+  },
+  {
+    event: SOCKET_EVENTS.CHAT_MESSAGE_SENT,
+    valid: [{ chatId: 'chat-1', messageId: 'message-1', temporaryId: 'temp-1' }, { chatId: 'chat-1' }],
+    malformed: [{ messageId: 'message-1' }, { chatId: '' }, { chatId: 'chat-1', messageId: 1 }]
+  },
+  {
+    event: SOCKET_EVENTS.CHAT_MESSAGE_DELIVERED,
+    valid: [{ chatId: 'chat-1', messageId: 'message-1', temporaryId: 'temp-1' }],
+    malformed: [{ chatId: 'chat-1' }, { chatId: 'chat-1', messageId: 'message-1', temporaryId: 2 }]
+  },
+  {
+    event: SOCKET_EVENTS.CHAT_TYPING,
+    valid: [{ chatId: 'chat-1', userId: 'user-1', isTyping: true }, { chatId: 'chat-1', isTyping: false }],
+    malformed: [{ chatId: 'chat-1' }, { chatId: 'chat-1', isTyping: 'true' }, { isTyping: true }]
+  },
+  {
+    event: SOCKET_EVENTS.CHAT_MESSAGES_READ,
+    valid: [{ chatId: 'chat-1', messageIds: ['message-1', 'message-2'], readBy: 'user-1' }, { chatId: 'chat-1' }],
+    malformed: [{ chatId: 'chat-1', messageIds: 'message-1' }, { chatId: 'chat-1', messageIds: ['message-1', 2] }, {}]
+  },
+  {
+    event: SOCKET_EVENTS.CHAT_STATUS_CHANGE,
+    valid: [{ chatId: 'chat-1', status: 'completed' }],
+    malformed: [{ chatId: 'chat-1' }, { chatId: 'chat-1', status: '' }]
+  },
+  {
+    event: SOCKET_EVENTS.CHAT_ASTROLOGER_JOINED,
+    valid: [{ chatId: 'chat-1', astrologerId: 'astrologer-1' }],
+    malformed: [{ astrologerId: 'astrologer-1' }]
+  },
+  {
+    event: SOCKET_EVENTS.NEW_MESSAGE,
+    valid: [message, { id: 'message-1', content: 'Hi', attachments: [{ type: 'image', url: 'https://example.com/a.png' }] }],
+    malformed: [{ message: 'No ID' }, { ...message, attachments: [{ type: 'image' }] }, { ...message, timestamp: {} }]
+  },
+  {
+    event: SOCKET_EVENTS.ROOM_CHECK_RESPONSE,
+    valid: [{ inRoom: true, roomId: 'room-1' }],
+    malformed: [{ inRoom: 'yes', roomId: 'room-1' }, { inRoom: false }]
+  },
+  // Informational events have no contract, so nothing is dropped
+  {
+    event: SOCKET_EVENTS.WELCOME,
+    valid: [{ message: 'Welcome' }, 'Welcome', undefined],
+    malformed: []
+  },
+  {
+    event: SOCKET_EVENTS.TEST_RESPONSE,
+    valid: [{ serverTime: '2026-10-19T10:00:00.000Z' }],
+    malformed: []
+  },
+  {
+    event: SOCKET_EVENTS.TEST_NOTIFICATION,
+    valid: [{ title: 'Test' }],
+    malformed: []
+  }
+];
+
+describe('validateIncomingEvent', () => {
+  describe.each(CASES)('$event', ({ event, valid, malformed }) => {
+    it.each(valid.map(payload => [payload]))('accepts %j', payload => {
+      expect(validateIncomingEvent(event, payload)).toBe(true);
+    });
+
+    if (malformed.length > 0) {
+      it.each(malformed.map(payload => [payload]))('drops %j', payload => {
+        expect(validateIncomingEvent(event, payload)).toBe(false);
+      });
+    }
+  });
+});
+
+describe('isIncomingEvent', () => {
+  it('knows the events the server sends', () => {
+    expect(isIncomingEvent(SOCKET_EVENTS.CHAT_TYPING)).toBe(true);
+    expect(isIncomingEvent(SOCKET_EVENTS.CHAT_SEND_MESSAGE)).toBe(false);
+    expect(isIncomingEvent('toString')).toBe(false);
+  });
+});
@@ -0,0 +1,241 @@
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server, Socket as ServerSocket } from 'socket.io';
+import { io } from 'socket.io-client';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ConnectionState,
+  MAX_RECONNECT_ATTEMPTS,
+  SocketConnectionManager,
+  SocketFactory
+} from '../socketManager';
+import { SOCKET_EVENTS } from '../socketEvents';
+
+jest.mock('react-native', () => ({ Platform: { OS: 'android' } }));
+
+jest.mock('../../config', () => ({
+  SOCKET_URL: 'http://localhost',
+  APP_IDENTIFIER: 'astrologer-app'
+}));
+
+// Keeps the expected connection errors and dropped payloads out of the test output
+jest.spyOn(console, 'error').mockImplementation(() => {});
+jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+/**
+ * A socket.io server on a random local port that records the sockets connecting to it
+ */
+const startServer = (port = 0): Promise<{ io: Server; http: HttpServer; url: string; sockets: ServerSocket[] }> =>
+  new Promise(resolve => {
+    const http = createServer();
+    const server = new Server(http);
+    const sockets: ServerSocket[] = [];
+    server.on('connection', socket => sockets.push(socket));
+    http.listen(port, () => {
+      const { port: boundPort } = http.address() as AddressInfo;
+      resolve({ io: server, http, url: `http://localhost:${boundPort}`, sockets });
+    });
+  });
+
+const stopServer = (server: Server): Promise<void> => new Promise(resolve => server.close(() => resolve()));
+
+const waitForState = (manager: SocketConnectionManager, state: ConnectionState): Promise<void> =>
+  new Promise(resolve => {
+    if (manager.getState() === state) return resolve();
+    const remove = manager.onStateChange(next => {
+      if (next === state) {
+        remove();
+        resolve();
+      }
+    });
+  });
+
+// Gives events sent over the local connection time to arrive
+const delay = (ms = 50) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Resolves with the next event of this name any connected client sends to the server
+const nextClientEvent = (sockets: ServerSocket[], event: string): Promise<any> =>
+  new Promise(resolve => {
+    sockets.forEach(socket => socket.once(event, resolve));
+  });
+
+describe('SocketConnectionManager', () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let manager: SocketConnectionManager;
+  let factoryOptions: Parameters<SocketFactory>[1][];
+  let states: ConnectionState[];
+
+  // Uses the manager's options, with short delays so the retries finish within a test
+  const testFactory: SocketFactory = (url, options) => {
+    factoryOptions.push(options);
+    return io(url, {
+      ...options,
+      transports: ['websocket'],
+      reconnectionDelay: 10,
+      reconnectionDelayMax: 20,
+      randomizationFactor: 0
+    });
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await AsyncStorage.setItem('token', 'test-token');
+    await AsyncStorage.setItem('astrologerId', 'astrologer-1');
+
+    server = await startServer();
+    factoryOptions = [];
+    states = [];
+    manager = new SocketConnectionManager(server.url, testFactory);
+    manager.onStateChange(state => states.push(state));
+  });
+
+  afterEach(async () => {
+    manager.disconnect();
+    await stopServer(server.io);
+  });
+
+  it('starts idle and moves through connecting to connected', async () => {
+    expect(manager.getState()).toBe('idle');
+
+    const socket = await manager.connect();
+
+    expect(socket).not.toBeNull();
+    expect(manager.isConnected()).toBe(true);
+    expect(states).toEqual(['connecting', 'connected']);
+    expect(server.sockets[0].handshake.auth).toMatchObject({
+      token: 'test-token',
+      astrologerId: 'astrologer-1',
+      userType: 'astrologer'
+    });
+  });
+
+  it('shares one connection attempt between concurrent callers', async () => {
+    const [first, second] = await Promise.all([manager.connect(), manager.connect()]);
+
+    expect(first).toBe(second);
+    expect(factoryOptions).toHaveLength(1);
+  });
+
+  it('does not connect without an auth token', async () => {
+    await AsyncStorage.removeItem('token');
+
+    expect(await manager.connect()).toBeNull();
+    expect(manager.getState()).toBe('idle');
+    expect(factoryOptions).toHaveLength(0);
+  });
+
+  it('passes the reconnect policy to socket.io', async () => {
+    await manager.connect();
+
+    expect(factoryOptions[0]).toMatchObject({
+      reconnection: true,
+      reconnectionAttempts: MAX_RECONNECT_ATTEMPTS,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 10000,
+      forceNew: true
+    });
+  });
+
+  it('reconnects after the connection drops and rejoins chat rooms', async () => {
+    const room = { astrologerId: 'astrologer-1', userType: 'astrologer' as const };
+    await manager.connect();
+    manager.rememberRoomJoin({ ...room, chatId: 'chat-1', bookingId: 'booking-1' }, true);
+    manager.rememberRoomJoin({ ...room, chatId: 'chat-2', bookingId: 'booking-2' }, false);
+
+    const rejoined = new Promise<any>(resolve => {
+      server.io.on('connection', socket => socket.once(SOCKET_EVENTS.CHAT_JOIN, resolve));
+    });
+    server.sockets[0].conn.close();
+
+    await waitForState(manager, 'reconnecting');
+    await waitForState(manager, 'connected');
+
+    expect(states).toEqual(['connecting', 'connected', 'reconnecting', 'connected']);
+    expect(await rejoined).toMatchObject({ chatId: 'chat-1', bookingId: 'booking-1' });
+    // Failed joins are forgotten rather than retried
+    expect(manager.getCachedRoomJoin('chat-2', 'booking-2')).toBeNull();
+  });
+
+  it('fails when the server closes the connection on purpose', async () => {
+    await manager.connect();
+
+    server.sockets[0].disconnect(true);
+    await waitForState(manager, 'failed');
+
+    expect(manager.isConnected()).toBe(false);
+  });
+
+  it('fails once socket.io runs out of reconnect attempts, and can start over', async () => {
+    await manager.connect();
+    const { port } = server.http.address() as AddressInfo;
+    let attempts = 0;
+    manager.getSocket()!.io.on('reconnect_attempt', () => attempts++);
+
+    await stopServer(server.io);
+    await waitForState(manager, 'failed');
+    expect(states).toEqual(['connecting', 'connected', 'reconnecting', 'failed']);
+    expect(attempts).toBe(MAX_RECONNECT_ATTEMPTS);
+
+    server = await startServer(port);
+    const socket = await manager.connect();
+
+    expect(socket).not.toBeNull();
+    expect(manager.getState()).toBe('connected');
+    // The same socket is reused for the new round of attempts
+    expect(factoryOptions).toHaveLength(1);
+  });
+
+  it('goes back to idle on disconnect', async () => {
+    await manager.connect();
+
+    manager.disconnect();
+
+    expect(manager.getState()).toBe('idle');
+    expect(manager.getSocket()).toBeNull();
+    expect(server.sockets).toHaveLength(1);
+  });
+
+  it('attaches handlers subscribed before connecting, and again on a new socket', async () => {
+    const handler = jest.fn();
+    manager.on(SOCKET_EVENTS.CHAT_JOINED, handler);
+
+    await manager.connect();
+    server.sockets[0].emit(SOCKET_EVENTS.CHAT_JOINED, { chatId: 'chat-1' });
+    await delay();
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    manager.disconnect();
+    await manager.connect();
+    expect(factoryOptions).toHaveLength(2);
+
+    server.sockets[1].emit(SOCKET_EVENTS.CHAT_JOINED, { chatId: 'chat-2' });
+    await delay();
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler).toHaveBeenLastCalledWith({ chatId: 'chat-2' });
+  });
+
+  it('drops malformed payloads and stops calling removed handlers', async () => {
+    const handler = jest.fn();
+    const remove = manager.on(SOCKET_EVENTS.CHAT_JOINED, handler);
+    await manager.connect();
+
+    server.sockets[0].emit(SOCKET_EVENTS.CHAT_JOINED, 'not an object');
+    await delay();
+    expect(handler).not.toHaveBeenCalled();
+
+    remove();
+    server.sockets[0].emit(SOCKET_EVENTS.CHAT_JOINED, { chatId: 'chat-1' });
+    await delay();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('only sends events while connected', async () => {
+    expect(manager.emit(SOCKET_EVENTS.CHECK_ROOM, { roomId: 'room-1' })).toBe(false);
+
+    await manager.connect();
+    const received = nextClientEvent(server.sockets, SOCKET_EVENTS.CHECK_ROOM);
+
+    expect(manager.emit(SOCKET_EVENTS.CHECK_ROOM, { roomId: 'room-1' })).toBe(true);
+    expect(await received).toEqual({ roomId: 'room-1' });
+  });
+});
@@ -1,6 +1,9 @@
 import axios from 'axios';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { v4 as uuidv4 } from 'uuid';
+import api from './api';
+import { setPresenceStatus, PresenceStatus } from './presenceService';
 import config from '../config';
 
 // Define the config type required for Agora
@@ -11,27 +14,166 @@ export interface AgoraConfig {
   uid?: number;
 }
 
+// Everything needed to join the channel for a booking
+export interface AgoraCredentials {
+  appId: string;
+  token: string | null;
+  channelName: string;
+  uid: number;
+  expiresAt: number | null;
+}
+
+export type CallLogStatus = 'completed' | 'missed' | 'failed';
+
+export interface CallLogInput {
+  bookingId?: string;
+  channelName: string;
+  duration: number;
+  callType: 'video' | 'audio';
+  astrologerId: string;
+  userId: string;
+  status: CallLogStatus;
+}
+
+export interface CallLog extends CallLogInput {
+  _id?: string;
+  localId: string;
+  createdAt: string;
+}
+
+// AsyncStorage key for call logs waiting to be sent
+const CALL_LOG_QUEUE_KEY = 'pendingCallLogs';
+
+// Renew tokens this long before they actually expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Network errors, server errors, timeouts and rate limits may succeed later; other 4xx errors won't
+const isRetryableError = (error: any): boolean => {
+  const status = error?.response?.status;
+  return !status || status >= 500 || status === 408 || status === 429;
+};
+
+// Derive the Agora channel name for a booking
+export const getChannelName = (bookingId: string): string => `booking_${bookingId}`;
+
 class AgoraService {
-  // Get Agora token from your backend API
-  async getToken(channelName: string, uid: number = 0): Promise<string | null> {
+  // Cached credentials keyed by booking ID
+  private credentialsCache: Map<string, AgoraCredentials> = new Map();
+  // Base URL of the token server, empty to use the regular API
+  private tokenServerUrl: string = config.AGORA.TOKEN_SERVER_URL;
+  // Tail of the queued call log operations, see withCallLogQueue
+  private callLogQueueLock: Promise<void> = Promise.resolve();
+
+  // Point token requests at a different server (e.g. a local fake token server)
+  setTokenServerUrl(url: string) {
+    this.tokenServerUrl = url;
+    this.clearTokenCache();
+  }
+
+  // Drop cached credentials for one booking, or all of them
+  clearTokenCache(bookingId?: string) {
+    if (bookingId) {
+      this.credentialsCache.delete(bookingId);
+    } else {
+      this.credentialsCache.clear();
+    }
+  }
+
+  private isExpired(credentials: AgoraCredentials): boolean {
+    if (credentials.expiresAt === null) return false;
+    return credentials.expiresAt - Date.now() <= TOKEN_EXPIRY_MARGIN_MS;
+  }
+
+  // Request credentials for a booking from the token server
+  private async fetchCredentials(bookingId: string): Promise<AgoraCredentials> {
+    const endpoint = `${config.API_ENDPOINTS.AGORA.TOKEN}/${bookingId}`;
+    const response = this.tokenServerUrl
+      ? await axios.get(`${this.tokenServerUrl}${endpoint}`, { timeout: 10000 })
+      : await api.get(endpoint);
+
+    const data = response.data?.data || response.data;
+    if (!data || !data.token) {
+      throw new Error(response.data?.message || 'Token server did not return a token');
+    }
+
+    // Servers may send an absolute expiry or a lifetime in seconds
+    let expiresAt: number | null = null;
+    if (data.expiresAt) {
+      expiresAt = new Date(data.expiresAt).getTime();
+    } else if (data.expiresIn) {
+      expiresAt = Date.now() + data.expiresIn * 1000;
+    }
+
+    return {
+      appId: data.appId || config.AGORA.APP_ID,
+      token: data.token,
+      channelName: data.channelName || getChannelName(bookingId),
+      uid: typeof data.uid === 'number' ? data.uid : 0,
+      expiresAt
+    };
+  }
+
+  // Get the credentials for a booking, using the cache until the token expires
+  async getCallCredentials(bookingId: string, forceRefresh: boolean = false): Promise<AgoraCredentials> {
+    const cached = this.credentialsCache.get(bookingId);
+    if (cached && !forceRefresh && !this.isExpired(cached)) {
+      return cached;
+    }
+
     try {
-      // This would typically call your backend to get a token
-      // For testing, we'll return null, which works for testing but isn't secure for production
-      
-      // Example of how to call your backend:
-      // const response = await axios.get(
-      //   `${config.API_URL}/agora/token?channelName=${channelName}&uid=${uid}`
-      // );
-      // return response.data.token;
-      
-      console.log(`Getting token for channel: ${channelName}, uid: ${uid}`);
-      return null; // For testing without a token server
+      const credentials = await this.fetchCredentials(bookingId);
+      this.credentialsCache.set(bookingId, credentials);
+      console.log(`Fetched Agora token for booking: ${bookingId}, channel: ${credentials.channelName}`);
+      return credentials;
     } catch (error) {
       console.error('Error getting Agora token:', error);
+      throw error;
+    }
+  }
+
+  // Get Agora token for a booking from your backend API
+  async getToken(bookingId: string, forceRefresh: boolean = false): Promise<string | null> {
+    try {
+      const credentials = await this.getCallCredentials(bookingId, forceRefresh);
+      return credentials.token;
+    } catch (error) {
       return null;
     }
   }
 
+  // Fetch a fresh token and hand it to the engine
+  async renewToken(engine: any, bookingId: string) {
+    if (!engine) return false;
+    
+    try {
+      const credentials = await this.getCallCredentials(bookingId, true);
+      if (credentials.token) {
+        await engine.renewToken(credentials.token);
+      }
+      console.log(`Renewed Agora token for booking: ${bookingId}`);
+      return true;
+    } catch (error) {
+      console.error('Error renewing Agora token:', error);
+      return false;
+    }
+  }
+
+  // Keep the engine's token fresh for the duration of a call
+  // Returns a function that removes the listeners again
+  attachTokenRenewal(engine: any, bookingId: string): () => void {
+    const handleRenewal = () => {
+      this.renewToken(engine, bookingId);
+    };
+
+    engine.addListener('TokenPrivilegeWillExpire', handleRenewal);
+    engine.addListener('RequestToken', handleRenewal);
+
+    return () => {
+      engine.removeListener('TokenPrivilegeWillExpire', handleRenewal);
+      engine.removeListener('RequestToken', handleRenewal);
+    };
+  }
+
   // Join channel with appropriate settings for a video call
   async joinVideoChannel(engine: any, channelName: string, token: string | null, uid: number = 0) {
     if (!engine) return;
@@ -73,45 +215,123 @@ class AgoraService {
   }
 
   // Save call logs for analytics or history
-  async saveCallLog(data: {
-    channelName: string;
-    duration: number;
-    callType: 'video' | 'audio';
-    astrologerId: string;
-    userId: string;
-    status: 'completed' | 'missed' | 'failed';
-  }) {
+  // Logs that cannot reach the backend are queued and sent on the next attempt
+  async saveCallLog(data: CallLogInput) {
+    const log: CallLog = {
+      ...data,
+      localId: uuidv4(),
+      createdAt: new Date().toISOString()
+    };
+
+    return this.withCallLogQueue(async () => {
+      try {
+        // Send anything left over from earlier failures first
+        await this.sendQueuedCallLogs();
+        await this.postCallLog(log);
+        console.log('Call log saved:', log.localId);
+        return true;
+      } catch (error: any) {
+        if (isRetryableError(error)) {
+          console.log('Could not reach backend, queueing call log:', log.localId);
+          await this.enqueueCallLog(log);
+          return true;
+        }
+
+        console.error('Error saving call log:', error);
+        return false;
+      }
+    });
+  }
+
+  // Run one queue operation at a time, so concurrent saves and flushes don't send a log twice
+  private withCallLogQueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.callLogQueueLock.then(task);
+    this.callLogQueueLock = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private async postCallLog(log: CallLog) {
+    await api.post(config.API_ENDPOINTS.AGORA.CALL_LOGS, log);
+  }
+
+  private async getQueuedCallLogs(): Promise<CallLog[]> {
     try {
-      // In a real app, this would send data to your backend
-      // await axios.post(`${config.API_URL}/consultations/log`, data);
-      
-      // For now, just log it
-      console.log('Call log:', data);
-      
-      return true;
+      const stored = await AsyncStorage.getItem(CALL_LOG_QUEUE_KEY);
+      return stored ? JSON.parse(stored) : [];
     } catch (error) {
-      console.error('Error saving call log:', error);
-      return false;
+      console.error('Error reading queued call logs:', error);
+      return [];
     }
   }
 
-  // Update astrologer availability status
-  async updateAvailabilityStatus(status: 'online' | 'busy' | 'offline') {
+  private async enqueueCallLog(log: CallLog) {
+    const queue = await this.getQueuedCallLogs();
+    queue.push(log);
+    await AsyncStorage.setItem(CALL_LOG_QUEUE_KEY, JSON.stringify(queue));
+  }
+
+  // Send queued call logs to the backend, keeping any that still fail
+  async flushCallLogQueue(): Promise<number> {
+    return this.withCallLogQueue(() => this.sendQueuedCallLogs());
+  }
+
+  // Only call while holding the queue lock
+  private async sendQueuedCallLogs(): Promise<number> {
+    const queue = await this.getQueuedCallLogs();
+    if (queue.length === 0) return 0;
+
+    let sent = 0;
+    const remaining: CallLog[] = [];
+    for (const log of queue) {
+      try {
+        await this.postCallLog(log);
+        sent++;
+      } catch (error: any) {
+        if (isRetryableError(error)) {
+          remaining.push(log);
+        } else {
+          // The backend rejected it (e.g. 409 for a log it already has), so retrying won't help
+          console.error(`Dropping call log ${log.localId}, rejected with status ${error.response.status}`);
+        }
+      }
+    }
+
+    await AsyncStorage.setItem(CALL_LOG_QUEUE_KEY, JSON.stringify(remaining));
+    if (sent > 0) {
+      console.log(`Sent ${sent} queued call logs`);
+    }
+    return sent;
+  }
+
+  // Get call logs for the logged-in astrologer, including ones still queued offline
+  async getCallLogs(): Promise<CallLog[]> {
+    await this.flushCallLogQueue();
+    const queued = await this.getQueuedCallLogs();
+
+    let remote: CallLog[] = [];
     try {
-      // Get astrologer ID from local storage
-      const astrologerId = await AsyncStorage.getItem('astrologerId');
-      
-      if (!astrologerId) {
-        console.error('Astrologer ID not found');
-        return false;
+      const response = await api.get(config.API_ENDPOINTS.AGORA.CALL_LOGS);
+      if (response.data && response.data.success) {
+        remote = response.data.data || [];
       }
-      
-      // In a real app, this would send data to your backend
-      // await axios.put(`${config.API_URL}/astrologers/${astrologerId}/status`, { status });
-      
-      // For now, just log it
+    } catch (error) {
+      console.error('Error fetching call logs:', error);
+      if (queued.length === 0) {
+        throw error;
+      }
+    }
+
+    const remoteIds = new Set(remote.map(log => log.localId));
+    return [...queued.filter(log => !remoteIds.has(log.localId)), ...remote]
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  // Update astrologer availability status
+  async updateAvailabilityStatus(status: PresenceStatus) {
+    try {
+      // Presence is shared app-wide, so go through the presence store
+      await setPresenceStatus(status);
       console.log(`Updated availability status to: ${status}`);
-      
       return true;
     } catch (error) {
       console.error('Error updating availability status:', error);
@@ -0,0 +1,175 @@
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import api from './api';
+
+// Only log in development mode
+const isDev = __DEV__;
+
+export type AttachmentKind = 'image' | 'file' | 'audio';
+
+// An attachment as stored on a message, after upload
+export interface MessageAttachment {
+  type: AttachmentKind;
+  url: string;
+  mimetype: string;
+  name?: string;
+  size?: number;
+  // Length of a voice note in milliseconds
+  duration?: number;
+}
+
+// A file picked or recorded on the device that hasn't been uploaded yet
+export interface LocalAttachment {
+  type: AttachmentKind;
+  uri: string;
+  name: string;
+  mimetype: string;
+  size?: number;
+  duration?: number;
+}
+
+// What clients send us: palm photos, charts and scanned certificates, plus recorded voice notes
+export const ALLOWED_ATTACHMENT_TYPES: Record<string, AttachmentKind> = {
+  'image/jpeg': 'image',
+  'image/png': 'image',
+  'image/webp': 'image',
+  'image/heic': 'image',
+  'application/pdf': 'file',
+  'audio/m4a': 'audio',
+  'audio/mp4': 'audio',
+  'audio/aac': 'audio',
+  'audio/mpeg': 'audio'
+};
+
+export const MAX_ATTACHMENT_SIZE: Record<AttachmentKind, number> = {
+  image: 10 * 1024 * 1024,
+  file: 15 * 1024 * 1024,
+  audio: 10 * 1024 * 1024
+};
+
+/**
+ * Read the kind of an attachment the server sent, treating anything unknown as a file
+ */
+export const toAttachmentKind = (type: string): AttachmentKind =>
+  type === 'image' || type === 'audio' ? type : 'file';
+
+const formatSize = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+/**
+ * Check a picked file before it is uploaded
+ * @param attachment - The picked file
+ * @returns A message explaining why it can't be sent, or null if it's fine
+ */
+export const validateAttachment = (attachment: LocalAttachment): string | null => {
+  const kind = ALLOWED_ATTACHMENT_TYPES[attachment.mimetype];
+  if (!kind) {
+    return 'Only JPEG, PNG, WebP, HEIC images and PDF documents can be sent.';
+  }
+
+  // Pickers don't always know the size; the server enforces the same limits
+  if (attachment.size !== undefined && attachment.size > MAX_ATTACHMENT_SIZE[kind]) {
+    const label = kind === 'image' ? 'Images' : kind === 'audio' ? 'Voice notes' : 'Documents';
+    return `${label} must be smaller than ${formatSize(MAX_ATTACHMENT_SIZE[kind])}.`;
+  }
+
+  return null;
+};
+
+/**
+ * Let the astrologer pick a photo from their library
+ * @returns The picked image, or null if they cancelled
+ */
+export const pickImage = async (): Promise<LocalAttachment | null> => {
+  const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error('Photo library permission is required to send images');
+  }
+
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    quality: 0.8
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  return {
+    type: 'image',
+    uri: asset.uri,
+    name: asset.fileName || asset.uri.split('/').pop() || 'image.jpg',
+    mimetype: asset.mimeType || 'image/jpeg',
+    size: asset.fileSize
+  };
+};
+
+/**
+ * Let the astrologer pick a PDF or image file
+ * @returns The picked document, or null if they cancelled
+ */
+export const pickDocument = async (): Promise<LocalAttachment | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/pdf', 'image/*'],
+    copyToCacheDirectory: true
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  const mimetype = asset.mimeType || 'application/octet-stream';
+  return {
+    type: ALLOWED_ATTACHMENT_TYPES[mimetype] || 'file',
+    uri: asset.uri,
+    name: asset.name,
+    mimetype,
+    size: asset.size
+  };
+};
+
+/**
+ * Upload a picked file so it can be attached to a message
+ * @param chatId - The chat the file will be sent in
+ * @param attachment - The picked file
+ * @param onProgress - Called with the fraction uploaded, from 0 to 1
+ * @returns The uploaded attachment
+ */
+export const uploadAttachment = async (
+  chatId: string,
+  attachment: LocalAttachment,
+  onProgress?: (progress: number) => void
+): Promise<MessageAttachment> => {
+  const error = validateAttachment(attachment);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const formData = new FormData();
+  // React Native's FormData takes a { uri, name, type } object for files
+  formData.append('file', { uri: attachment.uri, name: attachment.name, type: attachment.mimetype } as any);
+
+  try {
+    const response = await api.post(`/chats/${chatId}/attachments`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      onUploadProgress: event => {
+        if (onProgress && event.total) {
+          onProgress(event.loaded / event.total);
+        }
+      }
+    });
+
+    const uploaded = response.data?.data || response.data;
+    if (!uploaded?.url) {
+      throw new Error('Upload did not return a file URL');
+    }
+    if (isDev) console.log(`Uploaded attachment ${attachment.name} to ${uploaded.url}`);
+
+    return {
+      type: attachment.type,
+      url: uploaded.url,
+      mimetype: uploaded.mimetype || attachment.mimetype,
+      name: attachment.name,
+      size: uploaded.size ?? attachment.size,
+      duration: attachment.duration
+    };
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    throw error;
+  }
+};
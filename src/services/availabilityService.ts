@@ -0,0 +1,270 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { profileService } from './api';
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export interface TimeSlot {
+  start: string; // HH:mm
+  end: string;   // HH:mm
+}
+
+export interface ScheduleException {
+  date: string; // YYYY-MM-DD
+  note?: string;
+}
+
+export interface AvailabilitySchedule {
+  timezone: string;
+  slots: Record<Weekday, TimeSlot[]>;
+  exceptions: ScheduleException[];
+  autoToggle: boolean;
+  updatedAt?: string;
+}
+
+type ScheduleListener = (schedule: AvailabilitySchedule) => void;
+
+// AsyncStorage key for the locally cached schedule
+const SCHEDULE_STORAGE_KEY = 'availabilitySchedule';
+
+const listeners = new Set<ScheduleListener>();
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Get the timezone the device is set to
+ * @returns IANA timezone name (e.g., "Asia/Kolkata")
+ */
+export const getDeviceTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'Asia/Kolkata';
+  } catch (error) {
+    return 'Asia/Kolkata';
+  }
+};
+
+/**
+ * Create an empty schedule in the device timezone
+ * @returns A schedule with no slots or exceptions
+ */
+export const createEmptySchedule = (): AvailabilitySchedule => ({
+  timezone: getDeviceTimezone(),
+  slots: {
+    monday: [],
+    tuesday: [],
+    wednesday: [],
+    thursday: [],
+    friday: [],
+    saturday: [],
+    sunday: []
+  },
+  exceptions: [],
+  autoToggle: false
+});
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Check whether a string is a valid IANA timezone
+ * @param timezone - Timezone to check
+ * @returns True if the timezone is supported on this device
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Validate a schedule before saving
+ * @param schedule - The schedule to validate
+ * @returns List of problems, empty if the schedule is valid
+ */
+export const validateSchedule = (schedule: AvailabilitySchedule): string[] => {
+  const errors: string[] = [];
+
+  if (!isValidTimezone(schedule.timezone)) {
+    errors.push(`Unknown timezone "${schedule.timezone}"`);
+  }
+
+  WEEKDAYS.forEach(day => {
+    const label = day.charAt(0).toUpperCase() + day.slice(1);
+    const slots = schedule.slots[day] || [];
+
+    slots.forEach(slot => {
+      if (!TIME_PATTERN.test(slot.start) || !TIME_PATTERN.test(slot.end)) {
+        errors.push(`${label}: times must be in HH:MM format`);
+      } else if (toMinutes(slot.start) >= toMinutes(slot.end)) {
+        errors.push(`${label}: ${slot.start}-${slot.end} must end after it starts`);
+      }
+    });
+
+    const sorted = slots
+      .filter(slot => TIME_PATTERN.test(slot.start) && TIME_PATTERN.test(slot.end))
+      .sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+    for (let i = 1; i < sorted.length; i++) {
+      if (toMinutes(sorted[i].start) < toMinutes(sorted[i - 1].end)) {
+        errors.push(`${label}: ${sorted[i - 1].start}-${sorted[i - 1].end} overlaps ${sorted[i].start}-${sorted[i].end}`);
+      }
+    }
+  });
+
+  schedule.exceptions.forEach(exception => {
+    if (!DATE_PATTERN.test(exception.date) || isNaN(new Date(exception.date).getTime())) {
+      errors.push(`Exception date "${exception.date}" must be in YYYY-MM-DD format`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Get the weekday, date and minutes past midnight for a moment in a timezone
+ * @param date - The moment to convert
+ * @param timezone - IANA timezone name
+ */
+export const getZonedParts = (date: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'long',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+
+  return {
+    weekday: get('weekday').toLowerCase() as Weekday,
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: Number(get('hour')) * 60 + Number(get('minute'))
+  };
+};
+
+/**
+ * Find the moment a wall-clock time on a date happens in a timezone
+ * @param date - Date in the timezone, YYYY-MM-DD
+ * @param time - Time in the timezone, HH:mm
+ * @param timezone - IANA timezone name
+ */
+export const zonedTimeToDate = (date: string, time: string, timezone: string): Date => {
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + toMinutes(time) * 60 * 1000;
+  const offsetAt = (moment: number) => {
+    const zoned = getZonedParts(new Date(moment), timezone);
+    return Date.parse(`${zoned.date}T00:00:00Z`) + zoned.minutes * 60 * 1000 - moment;
+  };
+
+  // The offset can differ either side of a DST change, so check it again at the first guess
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+};
+
+/**
+ * Check whether the schedule has the astrologer available at a given moment
+ * @param schedule - The schedule to check
+ * @param date - The moment to check (defaults to now)
+ * @returns True if the moment falls inside a slot and not on an exception date
+ */
+export const isWithinSchedule = (schedule: AvailabilitySchedule, date: Date = new Date()): boolean => {
+  const zoned = getZonedParts(date, schedule.timezone);
+
+  if (schedule.exceptions.some(exception => exception.date === zoned.date)) {
+    return false;
+  }
+
+  return (schedule.slots[zoned.weekday] || []).some(slot =>
+    zoned.minutes >= toMinutes(slot.start) && zoned.minutes < toMinutes(slot.end)
+  );
+};
+
+/**
+ * Subscribe to schedule changes
+ * @param listener - Called with the schedule whenever it is loaded or saved
+ * @returns Function that removes the listener
+ */
+export const subscribeToSchedule = (listener: ScheduleListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const cacheSchedule = async (schedule: AvailabilitySchedule) => {
+  try {
+    await AsyncStorage.setItem(SCHEDULE_STORAGE_KEY, JSON.stringify(schedule));
+  } catch (error) {
+    console.error('Error caching availability schedule:', error);
+  }
+
+  listeners.forEach(listener => {
+    try {
+      listener(schedule);
+    } catch (error) {
+      console.error('Error in schedule listener:', error);
+    }
+  });
+};
+
+/**
+ * Get the availability schedule, preferring the astrologer profile over the local copy
+ * @returns The schedule, or an empty one if none has been saved
+ */
+export const getSchedule = async (): Promise<AvailabilitySchedule> => {
+  try {
+    const profile = await profileService.getProfile();
+    if (profile && profile.availabilitySchedule) {
+      const schedule = { ...createEmptySchedule(), ...profile.availabilitySchedule };
+      await cacheSchedule(schedule);
+      return schedule;
+    }
+  } catch (error) {
+    console.log('Could not load schedule from profile, using local copy');
+  }
+
+  return getCachedSchedule();
+};
+
+/**
+ * Get the locally cached schedule without going to the network
+ * @returns The cached schedule, or an empty one
+ */
+export const getCachedSchedule = async (): Promise<AvailabilitySchedule> => {
+  try {
+    const stored = await AsyncStorage.getItem(SCHEDULE_STORAGE_KEY);
+    if (stored) {
+      return { ...createEmptySchedule(), ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.error('Error reading cached availability schedule:', error);
+  }
+
+  return createEmptySchedule();
+};
+
+/**
+ * Save the schedule to the astrologer profile
+ * @param schedule - The schedule to save
+ * @returns The saved schedule
+ */
+export const saveSchedule = async (schedule: AvailabilitySchedule): Promise<AvailabilitySchedule> => {
+  const errors = validateSchedule(schedule);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  const saved = { ...schedule, updatedAt: new Date().toISOString() };
+  await profileService.updateProfile({ availabilitySchedule: saved });
+  await cacheSchedule(saved);
+  return saved;
+};
@@ -0,0 +1,178 @@
+import { enqueueMessage, OutboxMessage } from './messageOutbox';
+import { User, updateUserBirthDetails } from './userService';
+
+export interface BirthPlace {
+  city: string;
+  state?: string;
+  country: string;
+}
+
+// What the client fills in on the birth details form card
+export interface BirthDetails {
+  // YYYY-MM-DD
+  date: string;
+  // 24-hour HH:MM
+  time: string;
+  place: BirthPlace;
+}
+
+// Message types for the structured request and the client's answer
+export const BIRTH_DETAILS_REQUEST_TYPE = 'birth_details_request';
+export const BIRTH_DETAILS_RESPONSE_TYPE = 'birth_details';
+
+// Shown as plain text by clients that can't render the form card
+const REQUEST_FALLBACK_TEXT = 'Please share your date, time and place of birth so I can prepare your chart.';
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const EARLIEST_BIRTH_YEAR = 1900;
+const MAX_PLACE_LENGTH = 100;
+
+/**
+ * Check birth details before they are shown as confirmed or saved to the client
+ * @returns A list of human-readable errors (empty if valid)
+ */
+export const validateBirthDetails = (details: Partial<BirthDetails>): string[] => {
+  const errors: string[] = [];
+
+  const dateMatch = details.date ? DATE_PATTERN.exec(details.date) : null;
+  if (!details.date) {
+    errors.push('Date of birth is required');
+  } else if (!dateMatch) {
+    errors.push('Date of birth must be in YYYY-MM-DD format');
+  } else {
+    const [, year, month, day] = dateMatch.map(Number);
+    const date = new Date(year, month - 1, day);
+    // Date rolls invalid days over, e.g. 31 April becomes 1 May
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+      errors.push('Date of birth is not a real date');
+    } else if (year < EARLIEST_BIRTH_YEAR) {
+      errors.push(`Date of birth must be after ${EARLIEST_BIRTH_YEAR}`);
+    } else if (date.getTime() > Date.now()) {
+      errors.push('Date of birth cannot be in the future');
+    }
+  }
+
+  if (!details.time) {
+    errors.push('Time of birth is required');
+  } else if (!TIME_PATTERN.test(details.time)) {
+    errors.push('Time of birth must be in 24-hour HH:MM format');
+  }
+
+  const city = details.place?.city?.trim();
+  const country = details.place?.country?.trim();
+  if (!city) {
+    errors.push('City of birth is required');
+  }
+  if (!country) {
+    errors.push('Country of birth is required');
+  }
+  const placeLength = [city, details.place?.state?.trim(), country].filter(Boolean).join(', ').length;
+  if (placeLength > MAX_PLACE_LENGTH) {
+    errors.push(`Place of birth must be under ${MAX_PLACE_LENGTH} characters`);
+  }
+
+  return errors;
+};
+
+/**
+ * Read the client's answer out of a chat message
+ * @returns The details as sent, or null if the message isn't a birth details answer
+ */
+export const getBirthDetailsFromMessage = (message: {
+  messageType?: string;
+  birthDetails?: any;
+}): Partial<BirthDetails> | null => {
+  if (message.messageType !== BIRTH_DETAILS_RESPONSE_TYPE || !message.birthDetails) {
+    return null;
+  }
+
+  const { date, time, place } = message.birthDetails;
+  return {
+    date: typeof date === 'string' ? date.trim() : undefined,
+    time: typeof time === 'string' ? time.trim() : undefined,
+    place: place
+      ? {
+          city: typeof place.city === 'string' ? place.city.trim() : '',
+          state: typeof place.state === 'string' && place.state.trim() ? place.state.trim() : undefined,
+          country: typeof place.country === 'string' ? place.country.trim() : ''
+        }
+      : undefined
+  };
+};
+
+/**
+ * Get the birth details already saved on a client from an earlier session
+ * @returns The details, or null if any part is missing
+ */
+export const getBirthDetailsFromUser = (user: Partial<User> | null | undefined): BirthDetails | null => {
+  if (!user?.dateOfBirth || !user.timeOfBirth || !user.location?.city || !user.location.country) {
+    return null;
+  }
+
+  return {
+    // The server may send a full ISO timestamp
+    date: user.dateOfBirth.slice(0, 10),
+    time: user.timeOfBirth,
+    place: {
+      city: user.location.city,
+      state: user.location.state,
+      country: user.location.country
+    }
+  };
+};
+
+// Used to tell whether an answer has already been saved on the client
+export const isSameBirthDetails = (a: BirthDetails | null, b: Partial<BirthDetails> | null): boolean =>
+  !!a && !!b &&
+  a.date === b.date &&
+  a.time === b.time &&
+  a.place.city === b.place?.city &&
+  (a.place.state || '') === (b.place?.state || '') &&
+  a.place.country === b.place?.country;
+
+export const formatBirthDate = (date: string): string => {
+  const match = DATE_PATTERN.exec(date);
+  if (!match) return date;
+  const [, year, month, day] = match.map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+export const formatBirthPlace = (place?: Partial<BirthPlace>): string =>
+  [place?.city, place?.state, place?.country].filter(Boolean).join(', ');
+
+/**
+ * Ask the client for their birth details with a form card instead of free text
+ * @param chatId - The chat to send the request in
+ * @param bookingId - The booking the chat belongs to
+ * @returns The queued outbox entry
+ */
+export const requestBirthDetails = (chatId: string, bookingId?: string): Promise<OutboxMessage> =>
+  enqueueMessage({
+    chatId,
+    bookingId,
+    message: REQUEST_FALLBACK_TEXT,
+    messageType: BIRTH_DETAILS_REQUEST_TYPE
+  });
+
+/**
+ * Attach birth details to the client so they can be reused in later sessions
+ * @param userId - The ID of the client
+ * @param details - Details from the client's answer
+ * @returns The details as saved
+ */
+export const saveBirthDetailsToUser = async (userId: string, details: Partial<BirthDetails>): Promise<BirthDetails> => {
+  const errors = validateBirthDetails(details);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  const user = await updateUserBirthDetails(userId, {
+    dateOfBirth: details.date,
+    timeOfBirth: details.time,
+    location: details.place
+  });
+
+  return getBirthDetailsFromUser(user) || (details as BirthDetails);
+};
@@ -0,0 +1,193 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform, Vibration } from 'react-native';
+import { Audio } from 'expo-av';
+
+export type VibrationPatternName = 'short' | 'long' | 'pulse';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm
+  end: string;   // HH:mm
+}
+
+export interface AlertProfile {
+  soundEnabled: boolean;
+  vibrationEnabled: boolean;
+  vibrationPattern: VibrationPatternName;
+  repeatUntilAcknowledged: boolean;
+  fullScreenForCalls: boolean;
+  quietHours: QuietHours;
+}
+
+// Only log in development mode
+const isDev = __DEV__;
+
+// AsyncStorage key for the alert profile
+const ALERT_PROFILE_STORAGE_KEY = 'bookingAlertProfile';
+
+// Vibration patterns as wait/vibrate durations in milliseconds
+export const VIBRATION_PATTERNS: Record<VibrationPatternName, number[]> = {
+  short: [0, 400, 600],
+  long: [0, 1000, 1000],
+  pulse: [0, 200, 150, 200, 150, 200, 800]
+};
+
+export const DEFAULT_ALERT_PROFILE: AlertProfile = {
+  soundEnabled: true,
+  vibrationEnabled: true,
+  vibrationPattern: 'long',
+  repeatUntilAcknowledged: true,
+  fullScreenForCalls: true,
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00'
+  }
+};
+
+const RINGTONE = require('../../assets/sounds/booking-request.wav');
+
+let cachedProfile: AlertProfile | null = null;
+let activeSound: Audio.Sound | null = null;
+// Incremented on every start/stop so a slow sound load can tell it has been superseded
+let alertGeneration = 0;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Get the alert profile, falling back to the defaults
+ * @returns The saved alert profile
+ */
+export const getAlertProfile = async (): Promise<AlertProfile> => {
+  if (cachedProfile) return cachedProfile;
+
+  try {
+    const stored = await AsyncStorage.getItem(ALERT_PROFILE_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      cachedProfile = {
+        ...DEFAULT_ALERT_PROFILE,
+        ...parsed,
+        quietHours: { ...DEFAULT_ALERT_PROFILE.quietHours, ...parsed.quietHours }
+      };
+      return cachedProfile!;
+    }
+  } catch (error) {
+    console.error('Error loading alert profile:', error);
+  }
+
+  return DEFAULT_ALERT_PROFILE;
+};
+
+/**
+ * Save the alert profile
+ * @param profile - The profile to save
+ * @returns The saved profile
+ */
+export const saveAlertProfile = async (profile: AlertProfile): Promise<AlertProfile> => {
+  await AsyncStorage.setItem(ALERT_PROFILE_STORAGE_KEY, JSON.stringify(profile));
+  cachedProfile = profile;
+  return profile;
+};
+
+/**
+ * Check whether a moment falls inside the quiet hours window
+ * Windows that end earlier than they start run overnight (e.g., 22:00 to 07:00)
+ * @param quietHours - The quiet hours settings
+ * @param date - The moment to check (defaults to now)
+ * @returns True if alerts should be silent
+ */
+export const isWithinQuietHours = (quietHours: QuietHours, date: Date = new Date()): boolean => {
+  if (!quietHours.enabled) return false;
+
+  const now = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+/**
+ * Check whether a request should use the full-screen incoming call presentation
+ * @param profile - The alert profile
+ * @param consultationType - Type of the requested consultation
+ */
+export const usesCallPresentation = (profile: AlertProfile, consultationType: string): boolean => {
+  return profile.fullScreenForCalls && (consultationType === 'call' || consultationType === 'video');
+};
+
+const playRingtone = async (loop: boolean, generation: number) => {
+  try {
+    await Audio.setAudioModeAsync({
+      playsInSilentModeIOS: true,
+      shouldDuckAndroid: true
+    });
+
+    const { sound } = await Audio.Sound.createAsync(RINGTONE, { shouldPlay: false, isLooping: loop });
+
+    // The alert was stopped while the sound was loading
+    if (generation !== alertGeneration) {
+      await sound.unloadAsync();
+      return;
+    }
+
+    activeSound = sound;
+    await sound.playAsync();
+  } catch (error) {
+    console.error('Error playing booking request ringtone:', error);
+  }
+};
+
+/**
+ * Start alerting the astrologer about an incoming booking request
+ * Plays the ringtone and vibration from the alert profile, unless quiet hours are on
+ * @param profileOverride - Profile to use instead of the saved one (e.g., to preview changes)
+ */
+export const startBookingAlert = async (profileOverride?: AlertProfile): Promise<void> => {
+  await stopBookingAlert();
+  const generation = alertGeneration;
+  const profile = profileOverride || await getAlertProfile();
+
+  if (isWithinQuietHours(profile.quietHours)) {
+    if (isDev) console.log('[Alert] Quiet hours, not ringing for booking request');
+    return;
+  }
+
+  if (generation !== alertGeneration) return;
+
+  const repeat = profile.repeatUntilAcknowledged;
+
+  if (profile.vibrationEnabled && Platform.OS !== 'web') {
+    Vibration.vibrate(VIBRATION_PATTERNS[profile.vibrationPattern], repeat);
+  }
+
+  if (profile.soundEnabled) {
+    await playRingtone(repeat, generation);
+  }
+};
+
+/**
+ * Stop any ringing or vibration, e.g. once the request has been acknowledged
+ */
+export const stopBookingAlert = async (): Promise<void> => {
+  alertGeneration++;
+
+  if (Platform.OS !== 'web') {
+    Vibration.cancel();
+  }
+
+  const sound = activeSound;
+  activeSound = null;
+  if (!sound) return;
+
+  try {
+    await sound.stopAsync();
+    await sound.unloadAsync();
+  } catch (error) {
+    console.error('Error stopping booking request ringtone:', error);
+  }
+};
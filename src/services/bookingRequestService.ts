@@ -3,6 +3,7 @@ import axios from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { API_URL, APP_IDENTIFIER, LOCAL_IP, API_PORT, API_ENDPOINTS } from '../config';
 import { Platform } from 'react-native';
+import { BOOKING_REQUESTS } from '../config/index';
 
 export interface BookingRequest {
   _id: string;
@@ -17,6 +18,7 @@ export interface BookingRequest {
   amount: number;
   createdAt: string;
   updatedAt: string;
+  expiresAt?: string; // Response deadline, when the backend sets one
 }
 
 export interface BookingRequestResponse {
@@ -794,6 +796,28 @@ export const lookupAstrologerByMobile = async (mobileNumber: string): Promise<an
   }
 };
 
+/**
+ * Get the time by which the astrologer must respond to a booking request
+ * @param request - The booking request
+ * @returns Deadline as a timestamp in milliseconds
+ */
+export const getResponseDeadline = (request: BookingRequest): number => {
+  if (request.expiresAt) {
+    return new Date(request.expiresAt).getTime();
+  }
+  return new Date(request.createdAt).getTime() + BOOKING_REQUESTS.RESPONSE_TIMEOUT_SECONDS * 1000;
+};
+
+/**
+ * Check whether a pending booking request has passed its response deadline
+ * @param request - The booking request
+ * @param now - Current time in milliseconds (defaults to now)
+ * @returns True if the request is still pending and its deadline has passed
+ */
+export const isBookingRequestExpired = (request: BookingRequest, now: number = Date.now()): boolean => {
+  return request.status === 'pending' && getResponseDeadline(request) <= now;
+};
+
 export default {
   getMyBookingRequests,
   getFilteredBookingRequests,
@@ -803,5 +827,7 @@ export default {
   debugToken,
   debugDirectBookingFetch,
   lookupAstrologerByMobile,
-  getBookingRequestsByAstrologerId
+  getBookingRequestsByAstrologerId,
+  getResponseDeadline,
+  isBookingRequestExpired
 }; 
\ No newline at end of file
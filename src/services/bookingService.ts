@@ -13,6 +13,8 @@ export interface Booking {
   endTime?: string;
   duration?: number;
   notes?: string;
+  payoutStatus?: 'pending' | 'paid';
+  paidOutAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -96,6 +98,39 @@ const mockBookings: Booking[] = [
   }
 ];
 
+/**
+ * Get a display name for the client of a booking
+ * @param booking - The booking whose client name is needed
+ * @returns The client's name, or a short fallback built from their ID
+ */
+export const getBookingUserName = (booking: Booking): string => {
+  if (typeof booking.user === 'object' && booking.user !== null) {
+    if (booking.user.name) {
+      return booking.user.name;
+    }
+    return `User ${booking.user._id.substring(0, 4)}`;
+  }
+  
+  if (typeof booking.user === 'string') {
+    return `User ${booking.user.substring(0, 4)}`;
+  }
+  
+  return 'User';
+};
+
+/**
+ * Get the ID of the client of a booking, whether or not the user is populated
+ * @param booking - The booking whose client ID is needed
+ * @returns The client's user ID, if the booking has one
+ */
+export const getBookingUserId = (booking: Booking): string | undefined => {
+  if (typeof booking.user === 'object' && booking.user !== null) {
+    return booking.user._id;
+  }
+
+  return typeof booking.user === 'string' ? booking.user : undefined;
+};
+
 /**
  * Get a booking by its ID
  * @param bookingId - The ID of the booking to retrieve
@@ -0,0 +1,203 @@
+import { getCachedChatIds, getCachedMessages, getMessageTime, mergeMessages } from './messageCache';
+
+// A chat as returned by getAstrologerChats; only the fields search needs
+export interface SearchableChat {
+  _id: string;
+  booking?: {
+    _id?: string;
+    consultationType?: string;
+    createdAt?: string | Date;
+  } | string;
+  user?: {
+    _id?: string;
+    name?: string;
+  };
+  messages?: SearchableMessage[];
+  updatedAt?: string | Date;
+}
+
+export interface SearchableMessage {
+  _id?: string;
+  id?: string;
+  message?: string;
+  content?: string;
+  timestamp?: string | number | Date;
+  createdAt?: string | number | Date;
+  senderType?: string;
+}
+
+export interface ChatSearchFilters {
+  // Inclusive range, compared against each message's time
+  from?: Date;
+  to?: Date;
+  consultationType?: string;
+}
+
+// A piece of snippet text, highlighted if it matched the query
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface ChatSearchMatch {
+  chatId: string;
+  bookingId?: string;
+  messageId: string;
+  senderType?: string;
+  time: number;
+  snippet: HighlightSegment[];
+}
+
+// Results for one client, across all of their consultations
+export interface ChatSearchGroup {
+  userId: string;
+  userName: string;
+  // Set when the client's name matched, so the group is shown even without message matches
+  nameMatch?: HighlightSegment[];
+  // The client's most recent chat, opened when the group itself is tapped
+  latestChatId: string;
+  latestBookingId?: string;
+  consultationTypes: string[];
+  matches: ChatSearchMatch[];
+}
+
+// Characters of context kept on each side of the first match
+const SNIPPET_CONTEXT_LENGTH = 40;
+
+// Results per client, newest first; the rest are summarised as a count
+export const MAX_MATCHES_PER_CLIENT = 20;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split a search query into lowercase terms
+ */
+export const getSearchTerms = (query: string): string[] =>
+  [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+
+/**
+ * Split text into highlighted and plain segments for every term it contains
+ */
+export const highlightTerms = (text: string, terms: string[]): HighlightSegment[] => {
+  if (terms.length === 0) return [{ text, highlight: false }];
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, highlight: terms.includes(part.toLowerCase()) }));
+};
+
+/**
+ * Cut a long message down to the text around its first match
+ */
+export const buildSnippet = (text: string, terms: string[]): HighlightSegment[] => {
+  const lower = text.toLowerCase();
+  const firstIndex = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index >= 0));
+  const start = Math.max(0, firstIndex - SNIPPET_CONTEXT_LENGTH);
+  const end = Math.min(text.length, firstIndex + SNIPPET_CONTEXT_LENGTH * 2);
+
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+  return highlightTerms(excerpt, terms);
+};
+
+const matchesAllTerms = (text: string, terms: string[]) => {
+  const lower = text.toLowerCase();
+  return terms.every(term => lower.includes(term));
+};
+
+const getBooking = (chat: SearchableChat) => (typeof chat.booking === 'object' ? chat.booking : undefined);
+
+const isInDateRange = (time: number, filters: ChatSearchFilters) =>
+  (!filters.from || time >= filters.from.getTime()) && (!filters.to || time <= filters.to.getTime());
+
+/**
+ * Chats to search when the chat list can't be loaded, e.g. offline
+ * Only the IDs are known, so results show without client names or consultation types
+ */
+export const getCachedSearchableChats = async (): Promise<SearchableChat[]> =>
+  (await getCachedChatIds()).map(chatId => ({ _id: chatId }));
+
+/**
+ * Search the chat list and every chat's cached messages
+ * Messages match when they contain all of the query's words, in any order
+ * @param chats - Chats from the chat list
+ * @param query - Text typed by the astrologer
+ * @param filters - Date range and consultation type
+ * @returns Matches grouped by client, most recent activity first
+ */
+export const searchChats = async (
+  chats: SearchableChat[],
+  query: string,
+  filters: ChatSearchFilters = {}
+): Promise<ChatSearchGroup[]> => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [];
+
+  const groups = new Map<string, ChatSearchGroup & { latestTime: number }>();
+
+  const chatsToSearch = chats.filter(chat =>
+    !filters.consultationType || getBooking(chat)?.consultationType === filters.consultationType
+  );
+
+  for (const chat of chatsToSearch) {
+    const booking = getBooking(chat);
+    const cached = await getCachedMessages<SearchableMessage>(chat._id);
+    const messages = mergeMessages(chat.messages || [], cached?.messages || []);
+    const chatTime = new Date(chat.updatedAt || booking?.createdAt || 0).getTime() || 0;
+
+    const matches: ChatSearchMatch[] = [];
+    messages.forEach(message => {
+      const text = message.message || message.content || '';
+      const time = getMessageTime(message);
+      const messageId = message._id || message.id;
+      if (!messageId || !text || !isInDateRange(time, filters) || !matchesAllTerms(text, terms)) return;
+
+      matches.push({
+        chatId: chat._id,
+        bookingId: booking?._id,
+        messageId,
+        senderType: message.senderType,
+        time,
+        snippet: buildSnippet(text, terms)
+      });
+    });
+
+    const userName = chat.user?.name || 'Client';
+    // A name match only counts if the chat itself falls in the date range
+    const nameMatches = matchesAllTerms(userName, terms) && isInDateRange(chatTime, filters);
+    if (matches.length === 0 && !nameMatches) continue;
+
+    const userId = chat.user?._id || chat._id;
+    const group = groups.get(userId) || {
+      userId,
+      userName,
+      latestChatId: chat._id,
+      latestBookingId: booking?._id,
+      latestTime: chatTime,
+      consultationTypes: [],
+      matches: []
+    };
+
+    if (nameMatches) group.nameMatch = highlightTerms(userName, terms);
+    if (chatTime > group.latestTime) {
+      group.latestChatId = chat._id;
+      group.latestBookingId = booking?._id;
+      group.latestTime = chatTime;
+    }
+    if (booking?.consultationType && !group.consultationTypes.includes(booking.consultationType)) {
+      group.consultationTypes.push(booking.consultationType);
+    }
+    group.matches.push(...matches);
+    groups.set(userId, group);
+  }
+
+  return [...groups.values()]
+    .map(({ latestTime, ...group }) => ({
+      ...group,
+      matches: group.matches.sort((a, b) => b.time - a.time),
+      sortTime: Math.max(latestTime, ...group.matches.map(match => match.time))
+    }))
+    .sort((a, b) => b.sortTime - a.sortTime)
+    .map(({ sortTime, ...group }) => group);
+};
@@ -6,6 +6,7 @@ import { Platform } from 'react-native';
 import apiInstance from './api';
 import * as socketService from './socketService';
 import { v4 as uuidv4 } from 'uuid';
+import { MessageAttachment } from './attachmentService';
 
 // Constants
 const APP_IDENTIFIER = 'astrologer-app';
@@ -325,6 +326,15 @@ const logChatOperation = async (operation: string, chatId?: string, bookingId?:
   }
 };
 
+// Cursor for paging through a chat's messages; timestamps are ISO strings
+export interface MessageCursor {
+  // Only messages sent before this time (loading older history)
+  before?: string;
+  // Only messages sent after this time (catching up from the cache)
+  after?: string;
+  limit?: number;
+}
+
 export const chatService = {
   // Get all chats for the authenticated astrologer
   getAstrologerChats: async (): Promise<any[]> => {
@@ -376,11 +386,14 @@ export const chatService = {
     }
   },
 
-  // Get messages for a chat
-  getMessages: async (chatId: string, bookingId?: string): Promise<any[]> => {
+  // Get messages for a chat, optionally one page at a time
+  getMessages: async (chatId: string, bookingId?: string, cursor?: MessageCursor): Promise<any[]> => {
     try {
       console.log(`\n📱 ASTROLOGER APP - GET MESSAGES 📱`);
       console.log(`Fetching messages for chat ${chatId}...`);
+      if (cursor) {
+        console.log(`📄 Cursor: ${JSON.stringify(cursor)}`);
+      }
       
       // Check if this is a booking ID rather than a chat ID
       if (bookingId || (!chatId.match(/^[0-9a-fA-F]{24}$/) && chatId.length > 8)) {
@@ -464,7 +477,7 @@ export const chatService = {
           console.log(`🔑 Token: ${token.substring(0, 15)}...`);
           console.log(`🔧 Headers: X-Astrologer-ID, X-App-Identifier, Authorization`);
           
-          response = await api.get(endpoint);
+          response = await api.get(endpoint, { params: cursor });
           
           if (response && response.data) {
             console.log(`✅ CHAT RESPONSE: GET ${API_URL}${endpoint}`);
@@ -593,7 +606,16 @@ export const chatService = {
   },
 
   // Send a message to a chat
-  sendMessage: async (chatId: string, message: string, messageType: string = 'text', bookingId?: string): Promise<any> => {
+  // temporaryId lets the server echo the message back so the sender can match it to the local copy
+  // Attachments must already be uploaded (see attachmentService)
+  sendMessage: async (
+    chatId: string,
+    message: string,
+    messageType: string = 'text',
+    bookingId?: string,
+    temporaryId?: string,
+    attachments?: MessageAttachment[]
+  ): Promise<any> => {
     try {
       console.log('\n📱 ASTROLOGER APP - SEND CHAT MESSAGE 📱');
       console.log(`💬 Chat ID: ${chatId}`);
@@ -663,7 +685,9 @@ export const chatService = {
         messageType: messageType || 'text',
         senderType: 'astrologer',
         astrologerId: profile._id,
-        senderId: profile._id
+        senderId: profile._id,
+        ...(temporaryId ? { temporaryId } : {}),
+        ...(attachments && attachments.length > 0 ? { attachments } : {})
       };
       
       console.log(`👤 Astrologer ID: ${profile._id}`);
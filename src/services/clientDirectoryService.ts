@@ -0,0 +1,115 @@
+import { User, getMyUsers } from './userService';
+import { Booking, getBookingUserId, getMyBookings } from './bookingService';
+
+export type ClientSortKey = 'recent' | 'spend';
+
+// A client together with everything the astrologer has done with them
+export interface ClientSummary {
+  user: User;
+  // Newest first
+  bookings: Booking[];
+  consultationCount: number;
+  // Start of the most recent consultation that took place, if any
+  lastConsultation?: string;
+  // Sum of completed consultations, in rupees
+  lifetimeSpend: number;
+}
+
+// Bookings that actually happened, as opposed to requests or cancellations
+const HELD_STATUSES: Booking['status'][] = ['active', 'completed'];
+
+const getBookingTime = (booking: Booking) => new Date(booking.startTime || booking.createdAt).getTime() || 0;
+
+/**
+ * Sort bookings newest first
+ */
+export const sortBookingsByTime = (bookings: Booking[]): Booking[] =>
+  [...bookings].sort((a, b) => getBookingTime(b) - getBookingTime(a));
+
+/**
+ * Summarise one client's consultations
+ * @param user - The client
+ * @param bookings - That client's bookings, in any order
+ */
+export const buildClientSummary = (user: User, bookings: Booking[]): ClientSummary => {
+  const sorted = sortBookingsByTime(bookings);
+  const held = sorted.filter(booking => HELD_STATUSES.includes(booking.status));
+  const lastHeld = held[0];
+
+  return {
+    user,
+    bookings: sorted,
+    consultationCount: held.length,
+    lastConsultation: lastHeld ? lastHeld.startTime || lastHeld.createdAt : undefined,
+    lifetimeSpend: held
+      .filter(booking => booking.status === 'completed')
+      .reduce((total, booking) => total + (booking.amount || 0), 0)
+  };
+};
+
+/**
+ * Match clients by name, mobile number, email or city
+ * @param clients - Clients to filter
+ * @param query - Text typed by the astrologer
+ */
+export const filterClients = (clients: ClientSummary[], query: string): ClientSummary[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return clients;
+
+  return clients.filter(({ user }) => {
+    const searchable = [user.name, user.mobileNumber, user.email, user.location?.city]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    return terms.every(term => searchable.includes(term));
+  });
+};
+
+/**
+ * Sort clients by their most recent consultation or by how much they have spent
+ * Clients without any consultation go last either way
+ */
+export const sortClients = (clients: ClientSummary[], sortKey: ClientSortKey): ClientSummary[] => {
+  const lastTime = (client: ClientSummary) =>
+    client.lastConsultation ? new Date(client.lastConsultation).getTime() : 0;
+
+  return [...clients].sort((a, b) =>
+    sortKey === 'spend'
+      ? b.lifetimeSpend - a.lifetimeSpend || lastTime(b) - lastTime(a)
+      : lastTime(b) - lastTime(a) || b.lifetimeSpend - a.lifetimeSpend
+  );
+};
+
+/**
+ * Get everyone the astrologer has consulted, with their booking history
+ * The list still loads without bookings if they can't be fetched
+ * @returns One summary per client
+ */
+export const getClientDirectory = async (): Promise<ClientSummary[]> => {
+  const [users, bookings] = await Promise.all([
+    getMyUsers(),
+    getMyBookings().catch(error => {
+      console.error('Error fetching bookings for client directory:', error);
+      return [] as Booking[];
+    })
+  ]);
+
+  const bookingsByUser = new Map<string, Booking[]>();
+  bookings.forEach(booking => {
+    const userId = getBookingUserId(booking);
+    if (!userId) return;
+    bookingsByUser.set(userId, [...(bookingsByUser.get(userId) || []), booking]);
+  });
+
+  return users.map(user => buildClientSummary(user, bookingsByUser.get(user._id) || []));
+};
+
+/**
+ * Get one client's bookings with the astrologer
+ * @param userId - The client's user ID
+ * @returns Bookings newest first
+ */
+export const getClientBookings = async (userId: string): Promise<Booking[]> => {
+  const bookings = await getMyBookings();
+  return sortBookingsByTime(bookings.filter(booking => getBookingUserId(booking) === userId));
+};
@@ -0,0 +1,248 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { v4 as uuidv4 } from 'uuid';
+import api from './api';
+
+export type ClientNoteCategory = 'prediction' | 'remedy' | 'followUp' | 'general';
+
+export interface ClientNote {
+  id: string;
+  userId: string;
+  // Consultation the note was written in, if any
+  bookingId?: string;
+  category: ClientNoteCategory;
+  text: string;
+  createdAt: string;
+  updatedAt: string;
+  // Deleted notes are kept as tombstones so a deletion made offline isn't undone by the next sync
+  deleted?: boolean;
+  // Changed on this device and not yet accepted by the server
+  pending?: boolean;
+}
+
+type ClientNotesListener = (userId: string, notes: ClientNote[]) => void;
+
+// Only log in development mode
+const isDev = __DEV__;
+
+// AsyncStorage key prefix, one entry per client
+const NOTES_KEY_PREFIX = 'clientNotes:';
+
+const MAX_NOTE_LENGTH = 2000;
+
+export const NOTE_CATEGORIES: { key: ClientNoteCategory; label: string; icon: string }[] = [
+  { key: 'prediction', label: 'Prediction', icon: 'sparkles-outline' },
+  { key: 'remedy', label: 'Remedy', icon: 'leaf-outline' },
+  { key: 'followUp', label: 'Follow-up', icon: 'alarm-outline' },
+  { key: 'general', label: 'Note', icon: 'document-text-outline' }
+];
+
+const listeners = new Set<ClientNotesListener>();
+
+const notifyListeners = (userId: string, notes: ClientNote[]) => {
+  const visible = getVisibleNotes(notes);
+  listeners.forEach(listener => {
+    try {
+      listener(userId, visible);
+    } catch (error) {
+      console.error('Error in client notes listener:', error);
+    }
+  });
+};
+
+const getNotesKey = (userId: string) => `${NOTES_KEY_PREFIX}${userId}`;
+
+// Newest first, without tombstones
+const getVisibleNotes = (notes: ClientNote[]) =>
+  notes
+    .filter(note => !note.deleted)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+const readNotes = async (userId: string): Promise<ClientNote[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(getNotesKey(userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading client notes:', error);
+    return [];
+  }
+};
+
+const writeNotes = async (userId: string, notes: ClientNote[]) => {
+  try {
+    await AsyncStorage.setItem(getNotesKey(userId), JSON.stringify(notes));
+  } catch (error) {
+    console.error('Error saving client notes:', error);
+  }
+  notifyListeners(userId, notes);
+};
+
+/**
+ * Combine the device's notes with the server's, one copy of each note
+ * The most recently updated copy of a note wins, and a deletion counts as an update, so
+ * edits made offline to different notes never overwrite each other
+ * @param local - Notes on this device
+ * @param remote - Notes from the server
+ */
+export const mergeNotes = (local: ClientNote[], remote: ClientNote[]): ClientNote[] => {
+  const byId = new Map<string, ClientNote>();
+
+  remote.forEach(note => byId.set(note.id, { ...note, pending: false }));
+  local.forEach(note => {
+    const existing = byId.get(note.id);
+    const isNewer = !existing || new Date(note.updatedAt).getTime() > new Date(existing.updatedAt).getTime();
+    // Only unsynced local changes can be newer than what the server has
+    if (isNewer && (note.pending || !existing)) {
+      byId.set(note.id, note);
+    }
+  });
+
+  return [...byId.values()];
+};
+
+/**
+ * Check a note before it is saved
+ * @returns A human-readable error, or null if the note is fine
+ */
+export const validateNote = (text: string): string | null => {
+  if (!text.trim()) return 'Note cannot be empty';
+  if (text.length > MAX_NOTE_LENGTH) return `Notes must be under ${MAX_NOTE_LENGTH} characters`;
+  return null;
+};
+
+/**
+ * Get a client's notes from the device, without going to the network
+ * @param userId - The client's user ID
+ * @returns Notes newest first
+ */
+export const getCachedNotes = async (userId: string): Promise<ClientNote[]> =>
+  getVisibleNotes(await readNotes(userId));
+
+/**
+ * Send unsynced changes to the server and pull everything it has for the client
+ * Safe to call while offline; changes stay pending until a sync succeeds
+ * @param userId - The client's user ID
+ * @returns Notes newest first
+ */
+export const syncClientNotes = async (userId: string): Promise<ClientNote[]> => {
+  const local = await readNotes(userId);
+  const pending = local.filter(note => note.pending);
+
+  try {
+    const response = pending.length > 0
+      ? await api.put(`/users/${userId}/notes`, { notes: pending.map(({ pending: _pending, ...note }) => note) })
+      : await api.get(`/users/${userId}/notes`);
+    const remote: ClientNote[] = response.data?.data || [];
+
+    // Re-read in case a note was written while the request was in flight
+    const merged = mergeNotes(await readNotes(userId), remote);
+    // Anything the server now has is no longer pending
+    const synced = merged.map(note =>
+      pending.some(sent => sent.id === note.id && sent.updatedAt === note.updatedAt) ? { ...note, pending: false } : note
+    );
+    await writeNotes(userId, synced);
+    if (isDev) console.log(`[Notes] Synced ${pending.length} change(s) for client ${userId}`);
+    return getVisibleNotes(synced);
+  } catch (error) {
+    if (isDev) console.log('Could not sync client notes, keeping local copy:', error);
+    return getVisibleNotes(local);
+  }
+};
+
+const saveChange = async (userId: string, update: (notes: ClientNote[]) => ClientNote[]) => {
+  await writeNotes(userId, update(await readNotes(userId)));
+  // Sync in the background; a failure leaves the change pending for next time
+  syncClientNotes(userId);
+};
+
+/**
+ * Write a new note for a client
+ * @param userId - The client's user ID
+ * @param text - The note
+ * @param category - What kind of note it is
+ * @param bookingId - The consultation it was written in, if any
+ * @returns The saved note
+ */
+export const addNote = async (
+  userId: string,
+  text: string,
+  category: ClientNoteCategory = 'general',
+  bookingId?: string
+): Promise<ClientNote> => {
+  const error = validateNote(text);
+  if (error) throw new Error(error);
+
+  const now = new Date().toISOString();
+  const note: ClientNote = {
+    id: uuidv4(),
+    userId,
+    bookingId,
+    category,
+    text: text.trim(),
+    createdAt: now,
+    updatedAt: now,
+    pending: true
+  };
+
+  await saveChange(userId, notes => [...notes, note]);
+  return note;
+};
+
+/**
+ * Change the text or category of a note
+ * @param userId - The client's user ID
+ * @param noteId - The note to change
+ * @param changes - New text and/or category
+ */
+export const updateNote = async (
+  userId: string,
+  noteId: string,
+  changes: Partial<Pick<ClientNote, 'text' | 'category'>>
+): Promise<void> => {
+  if (changes.text !== undefined) {
+    const error = validateNote(changes.text);
+    if (error) throw new Error(error);
+  }
+
+  const updatedAt = new Date().toISOString();
+  await saveChange(userId, notes => notes.map(note =>
+    note.id === noteId
+      ? { ...note, ...changes, text: (changes.text ?? note.text).trim(), updatedAt, pending: true }
+      : note
+  ));
+};
+
+/**
+ * Delete a note
+ * @param userId - The client's user ID
+ * @param noteId - The note to delete
+ */
+export const deleteNote = async (userId: string, noteId: string): Promise<void> => {
+  const updatedAt = new Date().toISOString();
+  await saveChange(userId, notes => notes.map(note =>
+    note.id === noteId ? { ...note, deleted: true, updatedAt, pending: true } : note
+  ));
+};
+
+/**
+ * Listen for changes to any client's notes
+ * @param listener - Called with the client's ID and their notes, newest first
+ * @returns Function that removes the listener
+ */
+export const subscribeToClientNotes = (listener: ClientNotesListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Remove every client's notes from the device, e.g. on logout
+ */
+export const clearClientNotes = async (): Promise<void> => {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(NOTES_KEY_PREFIX)));
+  } catch (error) {
+    console.error('Error clearing client notes:', error);
+  }
+};
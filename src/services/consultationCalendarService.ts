@@ -0,0 +1,249 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  isSameDay,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { Booking } from './bookingService';
+import { AvailabilitySchedule, TimeSlot, WEEKDAYS, getZonedParts, zonedTimeToDate } from './availabilityService';
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+// A booking placed on the calendar
+export interface CalendarEntry {
+  booking: Booking;
+  start: Date;
+  end: Date;
+  // IDs of other bookings this one clashes with
+  overlapsWith: string[];
+}
+
+// A stretch of working time, already converted from the schedule's timezone
+export interface WorkingPeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface FreeGap {
+  start: Date;
+  end: Date;
+  minutes: number;
+}
+
+// Bookings that will take place and so take up time
+const SCHEDULED_STATUSES: Booking['status'][] = ['confirmed', 'active'];
+
+// Same default the consultation list uses when a booking has no duration
+const DEFAULT_DURATION_MINUTES = 30;
+
+// Used for free gaps until the astrologer has set up an availability schedule
+const DEFAULT_WORKING_HOURS: TimeSlot = { start: '09:00', end: '21:00' };
+
+// Shorter gaps aren't worth showing
+const MIN_GAP_MINUTES = 15;
+
+// How early a consultation can be started without asking first
+const START_WINDOW_MINUTES = 10;
+
+const MINUTE_MS = 60 * 1000;
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+const atTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+/**
+ * Get the first and last moment shown by a calendar view
+ * Weeks run Monday to Sunday
+ * @param view - Day, week or month
+ * @param anchor - Any date inside the period
+ */
+export const getCalendarRange = (view: CalendarView, anchor: Date): { start: Date; end: Date } => {
+  switch (view) {
+    case 'day':
+      return { start: startOfDay(anchor), end: endOfDay(anchor) };
+    case 'week':
+      return { start: startOfWeek(anchor, WEEK_OPTIONS), end: endOfWeek(anchor, WEEK_OPTIONS) };
+    default:
+      return { start: startOfMonth(anchor), end: endOfMonth(anchor) };
+  }
+};
+
+/**
+ * Move a calendar view one period backwards or forwards
+ * @param view - Day, week or month
+ * @param anchor - The date currently shown
+ * @param step - -1 for the previous period, 1 for the next
+ */
+export const shiftCalendarAnchor = (view: CalendarView, anchor: Date, step: number): Date => {
+  switch (view) {
+    case 'day':
+      return addDays(anchor, step);
+    case 'week':
+      return addWeeks(anchor, step);
+    default:
+      return addMonths(anchor, step);
+  }
+};
+
+/**
+ * Every day in a range, in order
+ */
+export const getDaysInRange = (start: Date, end: Date): Date[] => {
+  const days: Date[] = [];
+  for (let day = startOfDay(start); day <= end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+/**
+ * Place confirmed bookings on the calendar and find the ones that clash
+ * Bookings without a start time can't be placed and are left out
+ * @param bookings - Bookings in any status and order
+ * @returns Entries ordered by start time
+ */
+export const getCalendarEntries = (bookings: Booking[]): CalendarEntry[] => {
+  const entries: CalendarEntry[] = bookings
+    .filter(booking => SCHEDULED_STATUSES.includes(booking.status) && booking.startTime)
+    .map(booking => {
+      const start = new Date(booking.startTime!);
+      return {
+        booking,
+        start,
+        end: new Date(start.getTime() + (booking.duration || DEFAULT_DURATION_MINUTES) * MINUTE_MS),
+        overlapsWith: []
+      };
+    })
+    .filter(entry => !isNaN(entry.start.getTime()))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  entries.forEach((entry, index) => {
+    // Sorted by start, so only later entries that start before this one ends can clash
+    for (let next = index + 1; next < entries.length && entries[next].start < entry.end; next++) {
+      entry.overlapsWith.push(entries[next].booking._id);
+      entries[next].overlapsWith.push(entry.booking._id);
+    }
+  });
+
+  return entries;
+};
+
+/**
+ * Entries that start within a range
+ */
+export const getEntriesInRange = (entries: CalendarEntry[], start: Date, end: Date): CalendarEntry[] =>
+  entries.filter(entry => entry.start >= start && entry.start <= end);
+
+/**
+ * Check whether a calendar entry can be joined now without asking first
+ * @param entry - The entry to open
+ * @param now - The current time
+ * @returns True for sessions in progress and ones due to start within the start window
+ */
+export const isInStartWindow = (entry: CalendarEntry, now: Date = new Date()): boolean => {
+  if (entry.booking.status === 'active') return true;
+
+  const opensAt = entry.start.getTime() - START_WINDOW_MINUTES * MINUTE_MS;
+  return now.getTime() >= opensAt && now < entry.end;
+};
+
+/**
+ * Get the astrologer's working hours on a day
+ * Slot times are read in the schedule's timezone, so a day here can take in parts of two schedule days
+ * @param schedule - The availability schedule, if loaded
+ * @param day - The day to look up, in the device's timezone
+ * @returns Working periods within the day; none on days off and exception dates
+ */
+export const getWorkingHours = (schedule: AvailabilitySchedule | null, day: Date): WorkingPeriod[] => {
+  const hasSchedule = !!schedule && WEEKDAYS.some(weekday => schedule.slots[weekday]?.length > 0);
+  if (!hasSchedule) {
+    return [{ start: atTime(day, DEFAULT_WORKING_HOURS.start), end: atTime(day, DEFAULT_WORKING_HOURS.end) }];
+  }
+
+  const { timezone, slots, exceptions } = schedule!;
+  const dayStart = startOfDay(day);
+  const dayEnd = startOfDay(addDays(day, 1));
+  const scheduleDates = [...new Set([
+    getZonedParts(dayStart, timezone).date,
+    getZonedParts(new Date(dayEnd.getTime() - 1), timezone).date
+  ])];
+
+  return scheduleDates
+    .filter(date => !exceptions.some(exception => exception.date === date))
+    .flatMap(date => {
+      // getUTCDay() counts from Sunday, WEEKDAYS from Monday
+      const weekday = WEEKDAYS[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7];
+      return (slots[weekday] || []).map(slot => ({
+        start: zonedTimeToDate(date, slot.start, timezone),
+        end: zonedTimeToDate(date, slot.end, timezone)
+      }));
+    })
+    .map(period => ({
+      start: period.start < dayStart ? dayStart : period.start,
+      end: period.end > dayEnd ? dayEnd : period.end
+    }))
+    .filter(period => period.start < period.end)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * Find the free time left in a day's working hours
+ * Time that has already passed isn't counted as free
+ * @param day - The day to check
+ * @param entries - Calendar entries; only the ones on this day are used
+ * @param schedule - The availability schedule, if loaded
+ * @param now - The current time
+ */
+export const getFreeGaps = (
+  day: Date,
+  entries: CalendarEntry[],
+  schedule: AvailabilitySchedule | null,
+  now: Date = new Date()
+): FreeGap[] => {
+  const busy = entries.filter(entry => isSameDay(entry.start, day));
+  const gaps: FreeGap[] = [];
+
+  getWorkingHours(schedule, day).forEach(period => {
+    let cursor = Math.max(period.start.getTime(), now.getTime());
+    const slotEnd = period.end.getTime();
+
+    const addGap = (until: number) => {
+      const minutes = Math.floor((until - cursor) / MINUTE_MS);
+      if (minutes >= MIN_GAP_MINUTES) {
+        gaps.push({ start: new Date(cursor), end: new Date(until), minutes });
+      }
+    };
+
+    busy.forEach(entry => {
+      const start = entry.start.getTime();
+      const end = entry.end.getTime();
+      if (end <= cursor || start >= slotEnd) return;
+      addGap(Math.min(start, slotEnd));
+      cursor = Math.max(cursor, end);
+    });
+    if (cursor < slotEnd) addGap(slotEnd);
+  });
+
+  return gaps.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * Format a number of minutes as e.g. "1h 30m"
+ */
+export const formatGapLength = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
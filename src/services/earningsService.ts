@@ -0,0 +1,155 @@
+import { Booking, getMyBookings, getBookingUserName } from './bookingService';
+
+export type EarningsPeriod = 'day' | 'week' | 'month';
+export type PayoutStatus = 'pending' | 'paid';
+
+export interface LedgerEntry {
+  bookingId: string;
+  clientName: string;
+  consultationType: Booking['consultationType'];
+  amount: number;
+  duration: number;
+  earnedAt: string;
+  payoutStatus: PayoutStatus;
+}
+
+export interface EarningsSummary {
+  period: EarningsPeriod;
+  periodStart: string;
+  total: number;
+  pending: number;
+  paid: number;
+  consultationCount: number;
+  byType: Record<Booking['consultationType'], number>;
+  entries: LedgerEntry[];
+}
+
+/**
+ * Convert a booking into a ledger entry
+ * Only completed bookings have earned money, so anything else is skipped
+ * @param booking - The booking to convert
+ * @returns The ledger entry, or null if the booking has not earned anything
+ */
+export const toLedgerEntry = (booking: Booking): LedgerEntry | null => {
+  if (booking.status !== 'completed') {
+    return null;
+  }
+
+  return {
+    bookingId: booking._id,
+    clientName: getBookingUserName(booking),
+    consultationType: booking.consultationType,
+    amount: booking.amount || 0,
+    duration: booking.duration || 0,
+    earnedAt: booking.endTime || booking.startTime || booking.updatedAt || booking.createdAt,
+    payoutStatus: booking.payoutStatus === 'paid' ? 'paid' : 'pending'
+  };
+};
+
+/**
+ * Build the earnings ledger from a list of bookings, newest first
+ * @param bookings - Bookings to include in the ledger
+ * @returns Array of ledger entries
+ */
+export const buildLedger = (bookings: Booking[]): LedgerEntry[] => {
+  return bookings
+    .map(toLedgerEntry)
+    .filter((entry): entry is LedgerEntry => entry !== null)
+    .sort((a, b) => new Date(b.earnedAt).getTime() - new Date(a.earnedAt).getTime());
+};
+
+/**
+ * Get the start of the given period, in local time
+ * Weeks start on Monday
+ * @param period - The period to compute the start of
+ * @param now - Reference date (defaults to the current time)
+ * @returns Date at the start of the period
+ */
+export const getPeriodStart = (period: EarningsPeriod, now: Date = new Date()): Date => {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  if (period === 'week') {
+    const daysSinceMonday = (start.getDay() + 6) % 7;
+    start.setDate(start.getDate() - daysSinceMonday);
+  } else if (period === 'month') {
+    start.setDate(1);
+  }
+
+  return start;
+};
+
+/**
+ * Summarize ledger entries for a period
+ * @param ledger - Ledger entries to summarize
+ * @param period - The period to summarize (day, week or month)
+ * @param now - Reference date (defaults to the current time)
+ * @returns Totals, type breakdown and the entries that make them up
+ */
+export const summarizeEarnings = (
+  ledger: LedgerEntry[],
+  period: EarningsPeriod,
+  now: Date = new Date()
+): EarningsSummary => {
+  const periodStart = getPeriodStart(period, now);
+  const entries = ledger.filter(entry => {
+    const earnedAt = new Date(entry.earnedAt).getTime();
+    return earnedAt >= periodStart.getTime() && earnedAt <= now.getTime();
+  });
+
+  const summary: EarningsSummary = {
+    period,
+    periodStart: periodStart.toISOString(),
+    total: 0,
+    pending: 0,
+    paid: 0,
+    consultationCount: entries.length,
+    byType: { chat: 0, call: 0, video: 0 },
+    entries
+  };
+
+  entries.forEach(entry => {
+    summary.total += entry.amount;
+    summary.byType[entry.consultationType] += entry.amount;
+
+    if (entry.payoutStatus === 'paid') {
+      summary.paid += entry.amount;
+    } else {
+      summary.pending += entry.amount;
+    }
+  });
+
+  return summary;
+};
+
+/**
+ * Get the earnings ledger for the logged-in astrologer
+ * @returns Array of ledger entries, newest first
+ */
+export const getEarningsLedger = async (): Promise<LedgerEntry[]> => {
+  try {
+    const bookings = await getMyBookings();
+    return buildLedger(bookings);
+  } catch (error) {
+    console.error('Error building earnings ledger:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the earnings summary for a period for the logged-in astrologer
+ * @param period - The period to summarize (day, week or month)
+ * @returns The earnings summary
+ */
+export const getEarningsSummary = async (period: EarningsPeriod): Promise<EarningsSummary> => {
+  const ledger = await getEarningsLedger();
+  return summarizeEarnings(ledger, period);
+};
+
+/**
+ * Format an amount in rupees for display
+ * @param amount - Amount to format
+ * @returns Formatted amount (e.g., "₹1,200")
+ */
+export const formatAmount = (amount: number): string => {
+  return `₹${Math.round(amount).toLocaleString('en-IN')}`;
+};
@@ -0,0 +1,268 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { v4 as uuidv4 } from 'uuid';
+import { enqueueMessage, OutboxMessage } from './messageOutbox';
+import { cancelScheduledNotification, scheduleNotification } from './notificationService';
+import { DEFAULT_TEMPLATES, TemplateContext, fillTemplate, getCachedTemplates } from './templateService';
+
+export interface FollowUp {
+  id: string;
+  userId: string;
+  userName: string;
+  // The consultation the follow-up was promised in, and its chat
+  bookingId?: string;
+  chatId?: string;
+  consultationType?: string;
+  bookingDate?: string;
+  dueAt: string;
+  note?: string;
+  createdAt: string;
+  completedAt?: string;
+  // Local reminder scheduled for dueAt, if notifications are allowed
+  notificationId?: string;
+}
+
+export type NewFollowUp = Pick<
+  FollowUp,
+  'userId' | 'userName' | 'bookingId' | 'chatId' | 'consultationType' | 'bookingDate' | 'dueAt' | 'note'
+>;
+
+type FollowUpListener = (followUps: FollowUp[]) => void;
+
+// Only log in development mode
+const isDev = __DEV__;
+
+// AsyncStorage key for the astrologer's follow-ups
+const FOLLOW_UPS_STORAGE_KEY = 'followUps';
+
+// Reminders go off at this hour on the day they are due
+export const FOLLOW_UP_REMINDER_HOUR = 10;
+
+export const FOLLOW_UP_PRESETS: { days: number; label: string }[] = [
+  { days: 3, label: 'In 3 days' },
+  { days: 7, label: 'In 1 week' },
+  { days: 14, label: 'In 2 weeks' },
+  { days: 30, label: 'In 1 month' }
+];
+
+// Template sent as the check-in; the astrologer can reword it in their template library
+const CHECK_IN_TEMPLATE_ID = 'default-check-in';
+
+const MAX_NOTE_LENGTH = 500;
+
+let followUps: FollowUp[] | null = null;
+const listeners = new Set<FollowUpListener>();
+
+const notifyListeners = () => {
+  const current = followUps || [];
+  listeners.forEach(listener => {
+    try {
+      listener(current);
+    } catch (error) {
+      console.error('Error in follow-up listener:', error);
+    }
+  });
+};
+
+const loadFollowUps = async (): Promise<FollowUp[]> => {
+  if (followUps) return followUps;
+
+  try {
+    const stored = await AsyncStorage.getItem(FOLLOW_UPS_STORAGE_KEY);
+    followUps = stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading follow-ups:', error);
+    followUps = [];
+  }
+  return followUps!;
+};
+
+const saveFollowUps = async (updated: FollowUp[]) => {
+  followUps = updated;
+  notifyListeners();
+
+  try {
+    await AsyncStorage.setItem(FOLLOW_UPS_STORAGE_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.error('Error saving follow-ups:', error);
+  }
+};
+
+/**
+ * Get the reminder time for a follow-up due a number of days from now
+ * @param days - Days from today
+ * @param now - The current time
+ */
+export const getFollowUpDueDate = (days: number, now: Date = new Date()): Date => {
+  const due = new Date(now);
+  due.setDate(due.getDate() + days);
+  due.setHours(FOLLOW_UP_REMINDER_HOUR, 0, 0, 0);
+  return due;
+};
+
+/**
+ * Check a follow-up before it is scheduled
+ * @returns A human-readable error, or null if it is fine
+ */
+export const validateFollowUp = (followUp: Pick<NewFollowUp, 'dueAt' | 'note'>, now: Date = new Date()): string | null => {
+  const due = new Date(followUp.dueAt);
+  if (isNaN(due.getTime())) return 'Choose when to follow up';
+  if (due.getTime() <= now.getTime()) return 'Follow-ups must be in the future';
+  if (followUp.note && followUp.note.length > MAX_NOTE_LENGTH) {
+    return `Notes must be under ${MAX_NOTE_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * Follow-ups still open, soonest first
+ */
+export const getOpenFollowUps = (list: FollowUp[]): FollowUp[] =>
+  list
+    .filter(followUp => !followUp.completedAt)
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+
+/**
+ * Open follow-ups due by the end of today, including overdue ones
+ * @param list - All follow-ups
+ * @param now - The current time
+ */
+export const getFollowUpsDueToday = (list: FollowUp[], now: Date = new Date()): FollowUp[] => {
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+  return getOpenFollowUps(list).filter(followUp => new Date(followUp.dueAt).getTime() <= endOfToday.getTime());
+};
+
+/**
+ * Get every follow-up saved on the device
+ */
+export const getFollowUps = async (): Promise<FollowUp[]> => loadFollowUps();
+
+/**
+ * Schedule a follow-up with a client and a local reminder for when it is due
+ * @param input - The client, consultation and due time
+ * @returns The saved follow-up
+ */
+export const scheduleFollowUp = async (input: NewFollowUp): Promise<FollowUp> => {
+  const error = validateFollowUp(input);
+  if (error) throw new Error(error);
+
+  const note = input.note?.trim() || undefined;
+  const notificationId = await scheduleNotification({
+    category: 'followUps',
+    title: `Follow up with ${input.userName}`,
+    body: note || 'Check in on how things have been since your consultation',
+    target: { screen: 'FollowUps' },
+    date: new Date(input.dueAt)
+  });
+
+  const followUp: FollowUp = {
+    ...input,
+    id: uuidv4(),
+    note,
+    createdAt: new Date().toISOString(),
+    notificationId: notificationId || undefined
+  };
+
+  await saveFollowUps([...(await loadFollowUps()), followUp]);
+  if (isDev) console.log(`[FollowUps] Scheduled follow-up ${followUp.id} for ${followUp.dueAt}`);
+  return followUp;
+};
+
+/**
+ * Mark a follow-up as done and cancel its reminder if it hasn't gone off
+ * @param id - The follow-up to complete
+ */
+export const completeFollowUp = async (id: string): Promise<void> => {
+  const list = await loadFollowUps();
+  const followUp = list.find(item => item.id === id);
+  if (!followUp) return;
+
+  if (followUp.notificationId) await cancelScheduledNotification(followUp.notificationId);
+  await saveFollowUps(list.map(item =>
+    item.id === id ? { ...item, completedAt: new Date().toISOString(), notificationId: undefined } : item
+  ));
+};
+
+/**
+ * Remove a follow-up and its reminder
+ * @param id - The follow-up to remove
+ */
+export const deleteFollowUp = async (id: string): Promise<void> => {
+  const list = await loadFollowUps();
+  const followUp = list.find(item => item.id === id);
+  if (!followUp) return;
+
+  if (followUp.notificationId) await cancelScheduledNotification(followUp.notificationId);
+  await saveFollowUps(list.filter(item => item.id !== id));
+};
+
+/**
+ * Fill the check-in template for a follow-up
+ * Placeholders the follow-up has no value for, e.g. a missing booking date, are left in
+ * @param followUp - The follow-up to write the message for
+ * @returns Text for the astrologer to review before sending
+ */
+export const getCheckInMessage = async (followUp: FollowUp): Promise<string> => {
+  const templates = await getCachedTemplates();
+  const template = templates.find(item => item.id === CHECK_IN_TEMPLATE_ID)
+    || DEFAULT_TEMPLATES.find(item => item.id === CHECK_IN_TEMPLATE_ID)!;
+
+  const context: TemplateContext = {
+    userName: followUp.userName,
+    consultationType: followUp.consultationType,
+    bookingDate: followUp.bookingDate
+  };
+  return fillTemplate(template.body, context);
+};
+
+/**
+ * Send the check-in message in the follow-up's chat and mark it as done
+ * @param followUp - The follow-up to act on
+ * @param message - The text to send
+ * @returns The queued outbox entry
+ */
+export const sendCheckIn = async (followUp: FollowUp, message: string): Promise<OutboxMessage> => {
+  if (!followUp.chatId) {
+    throw new Error('This follow-up has no chat to send the message in');
+  }
+
+  const entry = await enqueueMessage({
+    chatId: followUp.chatId,
+    bookingId: followUp.bookingId,
+    message
+  });
+  await completeFollowUp(followUp.id);
+  return entry;
+};
+
+/**
+ * Listen for changes to the follow-up list
+ * @param listener - Called with every follow-up whenever one changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToFollowUps = (listener: FollowUpListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Remove all follow-ups and their reminders from the device, e.g. on logout
+ */
+export const clearFollowUps = async (): Promise<void> => {
+  const list = await loadFollowUps();
+  await Promise.all(
+    list
+      .filter(followUp => followUp.notificationId)
+      .map(followUp => cancelScheduledNotification(followUp.notificationId!))
+  );
+
+  followUps = [];
+  notifyListeners();
+  try {
+    await AsyncStorage.removeItem(FOLLOW_UPS_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing follow-ups:', error);
+  }
+};
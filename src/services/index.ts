@@ -1,18 +1,54 @@
 import api, { profileService } from './api';
 import { chatService } from './chatService';
 import * as socketService from './socketService';
+import { socketManager } from './socketManager';
 import * as agoraService from './agoraService';
 import * as bookingService from './bookingService';
 import * as userService from './userService';
 import * as bookingRequestService from './bookingRequestService';
+import * as earningsService from './earningsService';
+import * as presenceService from './presenceService';
+import * as availabilityService from './availabilityService';
+import * as bookingAlertService from './bookingAlertService';
+import * as notificationService from './notificationService';
+import * as messageOutbox from './messageOutbox';
+import * as messageCache from './messageCache';
+import * as attachmentService from './attachmentService';
+import * as voiceNoteService from './voiceNoteService';
+import * as templateService from './templateService';
+import * as birthDetailsService from './birthDetailsService';
+import * as sessionMeterService from './sessionMeterService';
+import * as chatSearchService from './chatSearchService';
+import * as clientNotesService from './clientNotesService';
+import * as clientDirectoryService from './clientDirectoryService';
+import * as followUpService from './followUpService';
+import * as consultationCalendarService from './consultationCalendarService';
 
 export {
   api,
   profileService,
   chatService,
   socketService,
+  socketManager,
   agoraService,
   bookingService,
   userService,
-  bookingRequestService
+  bookingRequestService,
+  earningsService,
+  presenceService,
+  availabilityService,
+  bookingAlertService,
+  notificationService,
+  messageOutbox,
+  messageCache,
+  attachmentService,
+  voiceNoteService,
+  templateService,
+  birthDetailsService,
+  sessionMeterService,
+  chatSearchService,
+  clientNotesService,
+  clientDirectoryService,
+  followUpService,
+  consultationCalendarService
 }; 
\ No newline at end of file
@@ -0,0 +1,118 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Anything with an ID and a time can be cached; screens keep their own message shapes
+export interface CacheableMessage {
+  _id?: string;
+  id?: string;
+  temporaryId?: string;
+  timestamp?: Date | string | number;
+  createdAt?: Date | string | number;
+}
+
+export interface CachedChat<T extends CacheableMessage> {
+  messages: T[];
+  // Whether the server has messages older than the first cached one
+  hasMore: boolean;
+  updatedAt: number;
+}
+
+// AsyncStorage key prefix, one entry per chat
+const CACHE_KEY_PREFIX = 'chatMessages:';
+
+// Only the most recent messages are kept on the device; older ones are paged in from the server
+const MAX_CACHED_MESSAGES = 200;
+
+const getCacheKey = (chatId: string) => `${CACHE_KEY_PREFIX}${chatId}`;
+
+/**
+ * Get the time a message was sent, in milliseconds
+ */
+export const getMessageTime = (message: CacheableMessage): number => {
+  const time = new Date((message.timestamp ?? message.createdAt ?? 0) as any).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+const getMessageKey = (message: CacheableMessage) =>
+  message._id || message.id || message.temporaryId || `${getMessageTime(message)}`;
+
+/**
+ * Combine two lists of messages, oldest first, keeping one copy of each
+ * Messages in the second list replace matching ones in the first, since they are newer
+ * @param existing - Messages already shown
+ * @param incoming - Messages just received
+ */
+export const mergeMessages = <T extends CacheableMessage>(existing: T[], incoming: T[]): T[] => {
+  const byKey = new Map<string, T>();
+  [...existing, ...incoming].forEach(message => byKey.set(getMessageKey(message), message));
+  return [...byKey.values()].sort((a, b) => getMessageTime(a) - getMessageTime(b));
+};
+
+/**
+ * Get the messages saved for a chat
+ * @param chatId - The chat ID
+ * @returns The cached chat, or null if nothing has been saved
+ */
+export const getCachedMessages = async <T extends CacheableMessage>(chatId: string): Promise<CachedChat<T> | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(getCacheKey(chatId));
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading message cache:', error);
+    return null;
+  }
+};
+
+/**
+ * Save the most recent messages of a chat
+ * @param chatId - The chat ID
+ * @param messages - Messages oldest first
+ * @param hasMore - Whether the server has older messages than these
+ */
+export const saveCachedMessages = async <T extends CacheableMessage>(
+  chatId: string,
+  messages: T[],
+  hasMore: boolean
+): Promise<void> => {
+  // Messages still being sent live in the outbox, not here
+  const persisted = messages.filter(message => message._id || message.id);
+  const saved = persisted.slice(-MAX_CACHED_MESSAGES);
+  const cached: CachedChat<T> = {
+    messages: saved,
+    // Trimming drops older messages, which then have to come from the server again
+    hasMore: hasMore || saved.length < persisted.length,
+    updatedAt: Date.now()
+  };
+
+  try {
+    await AsyncStorage.setItem(getCacheKey(chatId), JSON.stringify(cached));
+  } catch (error) {
+    console.error('Error saving message cache:', error);
+  }
+};
+
+/**
+ * Get the IDs of every chat with messages saved on the device
+ */
+export const getCachedChatIds = async (): Promise<string[]> => {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    return keys
+      .filter(key => key.startsWith(CACHE_KEY_PREFIX))
+      .map(key => key.slice(CACHE_KEY_PREFIX.length));
+  } catch (error) {
+    console.error('Error listing cached chats:', error);
+    return [];
+  }
+};
+
+/**
+ * Remove every cached chat, e.g. on logout
+ */
+export const clearMessageCache = async (): Promise<void> => {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(CACHE_KEY_PREFIX)));
+  } catch (error) {
+    console.error('Error clearing message cache:', error);
+  }
+};
@@ -0,0 +1,406 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { v4 as uuidv4 } from 'uuid';
+import { chatService } from './chatService';
+import { socketManager } from './socketManager';
+import { SOCKET_EVENTS, SocketChatMessage } from './socketEvents';
+import { LocalAttachment, MessageAttachment, uploadAttachment, validateAttachment } from './attachmentService';
+
+// sending is transient: anything still sending when the app restarts goes back to queued
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface OutboxMessage {
+  temporaryId: string;
+  chatId: string;
+  bookingId?: string;
+  message: string;
+  messageType: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: string;
+  // ID the server gave the message once it was accepted
+  serverId?: string;
+  lastError?: string;
+  // File picked on the device, uploaded as part of sending
+  attachment?: LocalAttachment;
+  // Kept once uploaded so a retry doesn't upload the file again
+  uploadedAttachment?: MessageAttachment;
+  // Fraction of the attachment uploaded, from 0 to 1
+  uploadProgress?: number;
+}
+
+export interface NewOutboxMessage {
+  chatId: string;
+  bookingId?: string;
+  message: string;
+  messageType?: string;
+  attachment?: LocalAttachment;
+}
+
+type OutboxListener = (messages: OutboxMessage[]) => void;
+
+// Only log in development mode
+const isDev = __DEV__;
+
+// AsyncStorage key for the persisted outbox
+const OUTBOX_STORAGE_KEY = 'messageOutbox';
+
+// Automatic attempts before a message needs a tap to retry
+const MAX_SEND_ATTEMPTS = 5;
+
+// Exponential backoff between attempts
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+// Confirmed messages are kept this long so their ticks can still update
+const CONFIRMED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Later states never move back to earlier ones, e.g. a late "sent" after "read"
+const STATUS_ORDER: OutboxStatus[] = ['queued', 'sending', 'sent', 'delivered', 'read'];
+
+let outbox: OutboxMessage[] = [];
+let loaded: Promise<void> | null = null;
+let isProcessing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let removeSocketListeners: (() => void)[] = [];
+const listeners = new Set<OutboxListener>();
+
+const notifyListeners = () => {
+  const snapshot = [...outbox];
+  listeners.forEach(listener => {
+    try {
+      listener(snapshot);
+    } catch (error) {
+      console.error('Error in outbox listener:', error);
+    }
+  });
+};
+
+const persist = async () => {
+  try {
+    await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(outbox));
+  } catch (error) {
+    console.error('Error saving message outbox:', error);
+  }
+};
+
+const isConfirmed = (entry: OutboxMessage) =>
+  entry.status === 'sent' || entry.status === 'delivered' || entry.status === 'read';
+
+const loadOutbox = (): Promise<void> => {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+        const entries: OutboxMessage[] = stored ? JSON.parse(stored) : [];
+        const cutoff = Date.now() - CONFIRMED_RETENTION_MS;
+
+        outbox = entries
+          .filter(entry => !(isConfirmed(entry) && new Date(entry.createdAt).getTime() < cutoff))
+          .map(entry => (entry.status === 'sending' ? { ...entry, status: 'queued' } : entry));
+      } catch (error) {
+        console.error('Error loading message outbox:', error);
+        outbox = [];
+      }
+    })();
+  }
+  return loaded;
+};
+
+const updateEntry = (temporaryId: string, changes: Partial<OutboxMessage>) => {
+  outbox = outbox.map(entry => (entry.temporaryId === temporaryId ? { ...entry, ...changes } : entry));
+};
+
+/**
+ * Move matching messages forward to a delivery state
+ * @returns True if anything changed
+ */
+const advanceStatus = (
+  matches: (entry: OutboxMessage) => boolean,
+  status: 'sent' | 'delivered' | 'read',
+  serverId?: string
+): boolean => {
+  let changed = false;
+
+  outbox = outbox.map(entry => {
+    if (!matches(entry)) return entry;
+
+    const isAhead = entry.status !== 'failed' &&
+      STATUS_ORDER.indexOf(entry.status) >= STATUS_ORDER.indexOf(status);
+    const needsServerId = !!serverId && !entry.serverId;
+    if (isAhead && !needsServerId) return entry;
+
+    changed = true;
+    return {
+      ...entry,
+      status: isAhead ? entry.status : status,
+      serverId: entry.serverId || serverId,
+      lastError: undefined
+    };
+  });
+
+  return changed;
+};
+
+/**
+ * How long to wait before the next attempt
+ * @param attempts - Attempts made so far
+ * @returns Delay in milliseconds, doubling from 2 seconds up to a minute
+ */
+export const getBackoffDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1), RETRY_MAX_DELAY_MS);
+
+const scheduleNextAttempt = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const queued = outbox.filter(entry => entry.status === 'queued');
+  if (queued.length === 0) return;
+
+  const nextAttemptAt = Math.min(...queued.map(entry => entry.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processOutbox();
+  }, Math.max(0, nextAttemptAt - Date.now()));
+};
+
+const sendEntry = async (entry: OutboxMessage) => {
+  updateEntry(entry.temporaryId, { status: 'sending' });
+  notifyListeners();
+
+  try {
+    let uploaded = entry.uploadedAttachment;
+    if (entry.attachment && !uploaded) {
+      uploaded = await uploadAttachment(entry.chatId, entry.attachment, progress => {
+        updateEntry(entry.temporaryId, { uploadProgress: progress });
+        notifyListeners();
+      });
+      updateEntry(entry.temporaryId, { uploadedAttachment: uploaded, uploadProgress: 1 });
+      await persist();
+    }
+
+    const response = await chatService.sendMessage(
+      entry.chatId,
+      entry.message,
+      entry.messageType,
+      entry.bookingId,
+      entry.temporaryId,
+      uploaded ? [uploaded] : undefined
+    );
+    const serverId = response?.data?._id || response?.message?._id || response?._id;
+
+    // The server may already have echoed it back over the socket
+    const current = outbox.find(item => item.temporaryId === entry.temporaryId);
+    if (current && current.status === 'sending') {
+      updateEntry(entry.temporaryId, { status: 'sent', serverId: current.serverId || serverId, lastError: undefined });
+    }
+    if (isDev) console.log(`[Outbox] Sent message ${entry.temporaryId}`);
+  } catch (error: any) {
+    const attempts = entry.attempts + 1;
+    const failed = attempts >= MAX_SEND_ATTEMPTS;
+
+    updateEntry(entry.temporaryId, {
+      status: failed ? 'failed' : 'queued',
+      attempts,
+      nextAttemptAt: Date.now() + getBackoffDelay(attempts),
+      lastError: error?.message || 'Failed to send message'
+    });
+    if (isDev) console.log(`[Outbox] Attempt ${attempts} for ${entry.temporaryId} failed${failed ? ', giving up' : ''}`);
+  }
+
+  notifyListeners();
+  await persist();
+};
+
+/**
+ * Send every queued message that is due, one at a time in the order they were written
+ */
+export const processOutbox = async (): Promise<void> => {
+  await loadOutbox();
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    let due = outbox.find(entry => entry.status === 'queued' && entry.nextAttemptAt <= Date.now());
+    while (due) {
+      await sendEntry(due);
+      due = outbox.find(entry => entry.status === 'queued' && entry.nextAttemptAt <= Date.now());
+    }
+  } finally {
+    isProcessing = false;
+    scheduleNextAttempt();
+  }
+};
+
+/**
+ * Queue a message for sending; it is saved before the first attempt so it survives the app being killed
+ * @param input - The message to send
+ * @returns The queued outbox entry
+ */
+export const enqueueMessage = async (input: NewOutboxMessage): Promise<OutboxMessage> => {
+  const attachmentError = input.attachment ? validateAttachment(input.attachment) : null;
+  if (attachmentError) {
+    throw new Error(attachmentError);
+  }
+
+  await loadOutbox();
+
+  const entry: OutboxMessage = {
+    temporaryId: `temp-${uuidv4()}`,
+    chatId: input.chatId,
+    bookingId: input.bookingId,
+    message: input.message,
+    messageType: input.messageType || (input.attachment ? input.attachment.type : 'text'),
+    attachment: input.attachment,
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    createdAt: new Date().toISOString()
+  };
+
+  outbox = [...outbox, entry];
+  notifyListeners();
+  await persist();
+
+  processOutbox();
+  return entry;
+};
+
+/**
+ * Try a failed message again straight away (tap to retry)
+ * @param temporaryId - The message's temporary ID
+ */
+export const retryMessage = async (temporaryId: string): Promise<void> => {
+  await loadOutbox();
+  updateEntry(temporaryId, { status: 'queued', attempts: 0, nextAttemptAt: Date.now(), lastError: undefined });
+  notifyListeners();
+  await persist();
+  processOutbox();
+};
+
+/**
+ * Drop a message that should not be sent after all
+ * @param temporaryId - The message's temporary ID
+ */
+export const discardMessage = async (temporaryId: string): Promise<void> => {
+  await loadOutbox();
+  outbox = outbox.filter(entry => entry.temporaryId !== temporaryId);
+  notifyListeners();
+  await persist();
+};
+
+/**
+ * Get the outbox entries for one chat, oldest first
+ */
+export const getOutboxMessages = async (chatId: string): Promise<OutboxMessage[]> => {
+  await loadOutbox();
+  return outbox.filter(entry => entry.chatId === chatId);
+};
+
+/**
+ * Listen for changes to the outbox
+ * @param listener - Called with every entry whenever one changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Record that the server has a message, matched by temporary or server ID
+ * Called when the server echoes a sent message back, so it isn't shown twice
+ * @param message - The message as the server sent it
+ */
+export const reconcileServerMessage = async (message: SocketChatMessage): Promise<void> => {
+  await loadOutbox();
+  const serverId = message._id || message.id;
+  const changed = advanceStatus(
+    entry => (!!message.temporaryId && entry.temporaryId === message.temporaryId) ||
+      (!!serverId && entry.serverId === serverId),
+    message.read ? 'read' : 'sent',
+    serverId
+  );
+
+  if (changed) {
+    notifyListeners();
+    await persist();
+  }
+};
+
+const handleStatusUpdate = async (
+  matches: (entry: OutboxMessage) => boolean,
+  status: 'sent' | 'delivered' | 'read',
+  serverId?: string
+) => {
+  await loadOutbox();
+  if (advanceStatus(matches, status, serverId)) {
+    notifyListeners();
+    await persist();
+  }
+};
+
+/**
+ * Load the saved outbox, resume sending, and follow delivery updates from the server
+ * Safe to call more than once
+ */
+export const startOutbox = () => {
+  if (removeSocketListeners.length > 0) return;
+
+  removeSocketListeners = [
+    socketManager.on(SOCKET_EVENTS.CHAT_MESSAGE_SENT, data => {
+      if (!data.temporaryId) return;
+      handleStatusUpdate(entry => entry.temporaryId === data.temporaryId, 'sent', data.messageId);
+    }),
+    socketManager.on(SOCKET_EVENTS.CHAT_MESSAGE_DELIVERED, data => {
+      handleStatusUpdate(
+        entry => entry.temporaryId === data.temporaryId || entry.serverId === data.messageId,
+        'delivered',
+        data.messageId
+      );
+    }),
+    socketManager.on(SOCKET_EVENTS.CHAT_MESSAGES_READ, data => {
+      // Without message IDs, everything already sent in the chat has been read
+      handleStatusUpdate(
+        entry => entry.chatId === data.chatId && isConfirmed(entry) &&
+          (!data.messageIds || (!!entry.serverId && data.messageIds.includes(entry.serverId))),
+        'read'
+      );
+    }),
+    socketManager.on(SOCKET_EVENTS.CHAT_NEW_MESSAGE, data => {
+      reconcileServerMessage(data.message);
+    }),
+    socketManager.on(SOCKET_EVENTS.NEW_MESSAGE, message => {
+      reconcileServerMessage(message);
+    }),
+    // Don't wait out the backoff once the connection is back
+    socketManager.onStateChange(state => {
+      if (state !== 'connected') return;
+      outbox = outbox.map(entry => (entry.status === 'queued' ? { ...entry, nextAttemptAt: Date.now() } : entry));
+      processOutbox();
+    })
+  ];
+
+  processOutbox();
+};
+
+/**
+ * Stop sending and forget all queued messages, e.g. on logout
+ */
+export const clearOutbox = async (): Promise<void> => {
+  removeSocketListeners.forEach(remove => remove());
+  removeSocketListeners = [];
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  outbox = [];
+  loaded = Promise.resolve();
+  notifyListeners();
+  await AsyncStorage.removeItem(OUTBOX_STORAGE_KEY);
+};
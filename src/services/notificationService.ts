@@ -0,0 +1,415 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { MainStackParamList } from '../navigation/types';
+
+export type NotificationCategory = 'bookingRequests' | 'chatMessages' | 'followUps';
+
+export type NotificationSettings = Record<NotificationCategory, boolean>;
+
+// Where tapping a notification should take the astrologer
+export type NotificationTarget =
+  | { screen: 'BookingRequests' }
+  | { screen: 'FollowUps' }
+  | { screen: 'Chat'; params: MainStackParamList['Chat'] };
+
+export interface LocalNotification {
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  target: NotificationTarget;
+  // Deliver at this time instead of straight away
+  date?: Date;
+}
+
+// Schedules notifications on the device; swapped for a fake one in tests and debugging
+export interface NotificationScheduler {
+  requestPermission: () => Promise<boolean>;
+  schedule: (notification: LocalNotification) => Promise<string>;
+  cancel: (id: string) => Promise<void>;
+  // Listen for taps; returns a function that removes the listener
+  onTap: (listener: (target: NotificationTarget) => void) => () => void;
+  // Target of the notification that launched the app, if any
+  getLaunchTarget: () => Promise<NotificationTarget | null>;
+}
+
+type TapListener = (target: NotificationTarget) => void;
+
+// Only log in development mode
+const isDev = __DEV__;
+
+// AsyncStorage key for the per-category notification settings
+const SETTINGS_STORAGE_KEY = 'notificationSettings';
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  bookingRequests: true,
+  chatMessages: true,
+  followUps: true
+};
+
+// Android channel per category, so each can be tuned in system settings too
+const ANDROID_CHANNELS: Record<NotificationCategory, { id: string; name: string }> = {
+  bookingRequests: { id: 'booking-requests', name: 'Booking requests' },
+  chatMessages: { id: 'chat-messages', name: 'Chat messages' },
+  followUps: { id: 'follow-ups', name: 'Follow-up reminders' }
+};
+
+const isNotificationTarget = (data: any): data is NotificationTarget => {
+  if (!data || typeof data !== 'object') return false;
+  if (data.screen === 'BookingRequests' || data.screen === 'FollowUps') return true;
+  return data.screen === 'Chat' && !!data.params && typeof data.params.bookingId === 'string';
+};
+
+/**
+ * Scheduler backed by expo-notifications
+ */
+export const createExpoNotificationScheduler = (): NotificationScheduler => {
+  let channelsReady = false;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowAlert: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false
+    })
+  });
+
+  const ensureChannels = async () => {
+    if (channelsReady || Platform.OS !== 'android') return;
+
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNELS.bookingRequests.id, {
+      name: ANDROID_CHANNELS.bookingRequests.name,
+      importance: Notifications.AndroidImportance.MAX,
+      vibrationPattern: [0, 500, 250, 500],
+      lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC
+    });
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNELS.chatMessages.id, {
+      name: ANDROID_CHANNELS.chatMessages.name,
+      importance: Notifications.AndroidImportance.HIGH
+    });
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNELS.followUps.id, {
+      name: ANDROID_CHANNELS.followUps.name,
+      importance: Notifications.AndroidImportance.DEFAULT
+    });
+    channelsReady = true;
+  };
+
+  return {
+    requestPermission: async () => {
+      await ensureChannels();
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted) return true;
+
+      const requested = await Notifications.requestPermissionsAsync();
+      return requested.granted;
+    },
+
+    schedule: async (notification) => {
+      await ensureChannels();
+      return Notifications.scheduleNotificationAsync({
+        content: {
+          title: notification.title,
+          body: notification.body,
+          data: notification.target as Record<string, any>,
+          sound: true
+        },
+        trigger: notification.date
+          ? {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: notification.date,
+            channelId: ANDROID_CHANNELS[notification.category].id
+          }
+          : Platform.OS === 'android'
+            ? { channelId: ANDROID_CHANNELS[notification.category].id }
+            : null
+      });
+    },
+
+    cancel: async (id) => {
+      await Notifications.cancelScheduledNotificationAsync(id);
+    },
+
+    onTap: (listener) => {
+      const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+        const data = response.notification.request.content.data;
+        if (isNotificationTarget(data)) {
+          listener(data);
+        }
+      });
+      return () => subscription.remove();
+    },
+
+    getLaunchTarget: async () => {
+      const response = await Notifications.getLastNotificationResponseAsync();
+      const data = response?.notification.request.content.data;
+      return isNotificationTarget(data) ? data : null;
+    }
+  };
+};
+
+export interface FakeNotificationScheduler extends NotificationScheduler {
+  // Notifications scheduled so far, oldest first
+  scheduled: (LocalNotification & { id: string })[];
+  // Simulate the astrologer tapping a scheduled notification
+  tap: (id: string) => void;
+  // Simulate the app being launched from a notification
+  setLaunchTarget: (target: NotificationTarget | null) => void;
+  reset: () => void;
+}
+
+/**
+ * In-memory scheduler that records notifications instead of showing them
+ * @param permissionGranted - Whether requestPermission should succeed
+ */
+export const createFakeNotificationScheduler = (permissionGranted: boolean = true): FakeNotificationScheduler => {
+  const tapListeners = new Set<TapListener>();
+  let launchTarget: NotificationTarget | null = null;
+  let nextId = 1;
+
+  const fake: FakeNotificationScheduler = {
+    scheduled: [],
+
+    requestPermission: async () => permissionGranted,
+
+    schedule: async (notification) => {
+      const id = `fake-${nextId++}`;
+      fake.scheduled.push({ ...notification, id });
+      return id;
+    },
+
+    cancel: async (id) => {
+      fake.scheduled = fake.scheduled.filter(item => item.id !== id);
+    },
+
+    onTap: (listener) => {
+      tapListeners.add(listener);
+      return () => {
+        tapListeners.delete(listener);
+      };
+    },
+
+    getLaunchTarget: async () => launchTarget,
+
+    tap: (id) => {
+      const notification = fake.scheduled.find(item => item.id === id);
+      if (!notification) {
+        throw new Error(`No scheduled notification with id ${id}`);
+      }
+      tapListeners.forEach(listener => listener(notification.target));
+    },
+
+    setLaunchTarget: (target) => {
+      launchTarget = target;
+    },
+
+    reset: () => {
+      fake.scheduled = [];
+      launchTarget = null;
+    }
+  };
+
+  return fake;
+};
+
+let scheduler: NotificationScheduler | null = null;
+let cachedSettings: NotificationSettings | null = null;
+let permissionGranted: boolean | null = null;
+
+// Created lazily so nothing touches the native module until notifications are needed
+const getScheduler = (): NotificationScheduler => {
+  if (!scheduler) {
+    scheduler = createExpoNotificationScheduler();
+  }
+  return scheduler;
+};
+
+/**
+ * Replace the scheduler, e.g. with a fake one for testing
+ * @param newScheduler - The scheduler to use from now on
+ */
+export const setNotificationScheduler = (newScheduler: NotificationScheduler) => {
+  scheduler = newScheduler;
+  permissionGranted = null;
+};
+
+/**
+ * Get the per-category notification settings
+ * @returns The saved settings, or the defaults
+ */
+export const getNotificationSettings = async (): Promise<NotificationSettings> => {
+  if (cachedSettings) return cachedSettings;
+
+  try {
+    const stored = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      cachedSettings = { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(stored) };
+      return cachedSettings!;
+    }
+  } catch (error) {
+    console.error('Error loading notification settings:', error);
+  }
+
+  return DEFAULT_NOTIFICATION_SETTINGS;
+};
+
+/**
+ * Turn notifications for one category on or off
+ * @param category - The category to change
+ * @param enabled - Whether to show notifications for it
+ * @returns The updated settings
+ */
+export const setNotificationCategoryEnabled = async (
+  category: NotificationCategory,
+  enabled: boolean
+): Promise<NotificationSettings> => {
+  const settings = { ...(await getNotificationSettings()), [category]: enabled };
+  await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  cachedSettings = settings;
+
+  // Ask for permission when a category is switched on
+  if (enabled) {
+    await requestNotificationPermission();
+  }
+
+  return settings;
+};
+
+/**
+ * Ask the OS for permission to show notifications
+ * @returns True if notifications can be shown
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  try {
+    permissionGranted = await getScheduler().requestPermission();
+  } catch (error) {
+    console.error('Error requesting notification permission:', error);
+    permissionGranted = false;
+  }
+  return permissionGranted;
+};
+
+/**
+ * Show a notification if the app is not in the foreground and its category is enabled
+ * In the foreground the in-app popup and chat screens take care of alerting
+ * @param notification - The notification to show
+ * @returns The scheduled notification ID, or null if it was not shown
+ */
+export const notify = async (notification: LocalNotification): Promise<string | null> => {
+  if (AppState.currentState === 'active') return null;
+
+  const settings = await getNotificationSettings();
+  if (!settings[notification.category]) return null;
+
+  if (permissionGranted === null) {
+    await requestNotificationPermission();
+  }
+  if (!permissionGranted) return null;
+
+  try {
+    const id = await getScheduler().schedule(notification);
+    if (isDev) console.log(`[Notifications] Scheduled ${notification.category} notification: ${id}`);
+    return id;
+  } catch (error) {
+    console.error('Error scheduling notification:', error);
+    return null;
+  }
+};
+
+/**
+ * Schedule a reminder for later, whether or not the app is open when it is due
+ * @param notification - The reminder, with the time to deliver it
+ * @returns The scheduled notification ID, or null if it could not be scheduled
+ */
+export const scheduleNotification = async (
+  notification: LocalNotification & { date: Date }
+): Promise<string | null> => {
+  const settings = await getNotificationSettings();
+  if (!settings[notification.category]) return null;
+
+  if (permissionGranted === null) {
+    await requestNotificationPermission();
+  }
+  if (!permissionGranted) return null;
+
+  try {
+    const id = await getScheduler().schedule(notification);
+    if (isDev) console.log(`[Notifications] Scheduled ${notification.category} notification ${id} for ${notification.date.toISOString()}`);
+    return id;
+  } catch (error) {
+    console.error('Error scheduling notification:', error);
+    return null;
+  }
+};
+
+/**
+ * Cancel a notification scheduled for later
+ * @param id - The ID returned when it was scheduled
+ */
+export const cancelScheduledNotification = async (id: string): Promise<void> => {
+  try {
+    await getScheduler().cancel(id);
+  } catch (error) {
+    console.error('Error cancelling scheduled notification:', error);
+  }
+};
+
+/**
+ * Notify about a new booking request received over the socket
+ * @param bookingData - The socket event payload
+ */
+export const notifyBookingRequest = (bookingData: any) => {
+  const userName = bookingData?.userId?.name || bookingData?.userName || 'A user';
+  const type = bookingData?.consultationType === 'video'
+    ? 'video call'
+    : bookingData?.consultationType === 'call' ? 'voice call' : 'chat';
+
+  return notify({
+    category: 'bookingRequests',
+    title: 'New booking request',
+    body: `${userName} wants a ${type} consultation`,
+    target: { screen: 'BookingRequests' }
+  });
+};
+
+/**
+ * Notify about a new chat message received over the socket
+ * @param data - The socket event payload
+ */
+export const notifyChatMessage = (data: any) => {
+  const message = data?.message;
+  if (!message || message.senderType === 'astrologer') return Promise.resolve(null);
+
+  const bookingId = data.bookingId || message.bookingId;
+  if (!bookingId) return Promise.resolve(null);
+
+  const text = typeof message.content === 'string' ? message.content : message.message;
+  const senderName = typeof message.sender === 'object' && message.sender?.name ? message.sender.name : 'New message';
+
+  return notify({
+    category: 'chatMessages',
+    title: senderName,
+    body: typeof text === 'string' && text ? text : 'Sent you a message',
+    target: { screen: 'Chat', params: { bookingId, chatId: data.chatId || message.chatId } }
+  });
+};
+
+/**
+ * Listen for notification taps
+ * @param listener - Called with the tapped notification's target
+ * @returns Function that removes the listener
+ */
+export const onNotificationTap = (listener: TapListener): (() => void) => {
+  return getScheduler().onTap(listener);
+};
+
+/**
+ * Get the target of the notification that launched the app, if any
+ */
+export const getLaunchNotificationTarget = async (): Promise<NotificationTarget | null> => {
+  try {
+    return await getScheduler().getLaunchTarget();
+  } catch (error) {
+    console.error('Error reading launch notification:', error);
+    return null;
+  }
+};
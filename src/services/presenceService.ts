@@ -0,0 +1,196 @@
+import api from './api';
+
+export type PresenceStatus = 'online' | 'busy' | 'offline';
+
+type PresenceListener = (status: PresenceStatus) => void;
+
+// Only log in development mode
+const isDev = __DEV__;
+
+let currentStatus: PresenceStatus = 'offline';
+// Status to go back to once every chat or call session has ended
+let statusToRestore: PresenceStatus | null = null;
+// Chats and calls currently keeping the astrologer busy, e.g. "chat:<id>" or "call:<bookingId>"
+const activeSessions = new Set<string>();
+const listeners = new Set<PresenceListener>();
+
+const notifyListeners = () => {
+  listeners.forEach(listener => {
+    try {
+      listener(currentStatus);
+    } catch (error) {
+      console.error('Error in presence listener:', error);
+    }
+  });
+};
+
+const applyStatus = (status: PresenceStatus) => {
+  if (currentStatus === status) return;
+  currentStatus = status;
+  if (isDev) console.log(`[Presence] Status changed to: ${status}`);
+  notifyListeners();
+};
+
+/**
+ * Send a presence status to the backend
+ * Falls back to the legacy online toggle when the status endpoint is not available
+ * @param status - The status to send
+ */
+const sendStatus = async (status: PresenceStatus): Promise<void> => {
+  try {
+    const response = await api.put('/astrologers/status', { status });
+    if (response.data && response.data.success) {
+      return;
+    }
+    throw new Error(response.data?.message || 'Failed to update status');
+  } catch (error) {
+    if (isDev) console.log('Status endpoint failed, falling back to online toggle');
+
+    // The legacy endpoint only knows online/offline, so busy counts as online
+    const wantOnline = status !== 'offline';
+    const profile = await api.get('/astrologers/profile');
+    if (profile.data?.data?.isOnline === wantOnline) return;
+
+    const response = await api.post('/astrologers/toggle-online-status', {});
+    if (!response.data || !response.data.success) {
+      throw new Error('Failed to update status');
+    }
+  }
+};
+
+/**
+ * Get the current presence status
+ * @returns The current status
+ */
+export const getPresenceStatus = (): PresenceStatus => currentStatus;
+
+/**
+ * Subscribe to presence status changes
+ * @param listener - Called with the new status whenever it changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToPresence = (listener: PresenceListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Load the current status from the astrologer profile
+ * @returns The loaded status
+ */
+export const loadPresenceStatus = async (): Promise<PresenceStatus> => {
+  try {
+    const response = await api.get('/astrologers/profile');
+
+    if (response.data && response.data.success) {
+      const profile = response.data.data;
+      const status: PresenceStatus = profile.availabilityStatus ||
+        (profile.isOnline ? 'online' : 'offline');
+
+      // A chat or call in progress takes precedence over what the server remembers
+      if (activeSessions.size > 0) {
+        statusToRestore = status === 'busy' ? 'online' : status;
+      } else {
+        applyStatus(status === 'busy' ? 'online' : status);
+      }
+    }
+  } catch (error) {
+    console.error('Error loading presence status:', error);
+  }
+
+  return currentStatus;
+};
+
+/**
+ * Set the presence status chosen by the astrologer
+ * While a chat or call is in progress, going online is remembered and applied once it ends
+ * @param status - The status to switch to
+ * @returns The resulting status
+ */
+export const setPresenceStatus = async (status: PresenceStatus): Promise<PresenceStatus> => {
+  if (activeSessions.size > 0 && status === 'online') {
+    statusToRestore = 'online';
+    return currentStatus;
+  }
+
+  await sendStatus(status);
+  applyStatus(status);
+  return currentStatus;
+};
+
+/**
+ * Ask the backend to take an online astrologer offline if the app doesn't check back in time
+ * Timers don't run while the app is in the background, so only the server can do this
+ * @param timeoutMs - How long from now to wait before going offline
+ */
+export const scheduleAwayTimeout = async (timeoutMs: number): Promise<void> => {
+  if (currentStatus !== 'online') return;
+
+  try {
+    await api.put('/astrologers/status/away-timeout', { offlineAfterSeconds: Math.round(timeoutMs / 1000) });
+  } catch (error) {
+    // Older backends don't support this; the app checks again when it returns
+    if (isDev) console.log('Could not schedule away timeout:', error);
+  }
+};
+
+/**
+ * Cancel a pending away timeout once the app is back in the foreground
+ */
+export const cancelAwayTimeout = async (): Promise<void> => {
+  try {
+    await api.delete('/astrologers/status/away-timeout');
+  } catch (error) {
+    if (isDev) console.log('Could not cancel away timeout:', error);
+  }
+};
+
+/**
+ * Mark the start of a chat or call, switching to busy for its duration
+ * @param sessionId - Unique key for the session, e.g. "call:<bookingId>"
+ */
+export const beginBusySession = async (sessionId: string): Promise<void> => {
+  if (activeSessions.has(sessionId)) return;
+  activeSessions.add(sessionId);
+
+  if (activeSessions.size > 1 || currentStatus === 'busy') return;
+
+  statusToRestore = currentStatus;
+  applyStatus('busy');
+
+  try {
+    await sendStatus('busy');
+  } catch (error) {
+    console.error('Error switching to busy:', error);
+  }
+};
+
+/**
+ * Mark the end of a chat or call, restoring the previous status after the last one ends
+ * @param sessionId - The key the session was started with
+ */
+export const endBusySession = async (sessionId: string): Promise<void> => {
+  if (!activeSessions.delete(sessionId)) return;
+  if (activeSessions.size > 0 || currentStatus !== 'busy') return;
+
+  const restored = statusToRestore || 'online';
+  statusToRestore = null;
+  applyStatus(restored);
+
+  try {
+    await sendStatus(restored);
+  } catch (error) {
+    console.error('Error restoring presence status:', error);
+  }
+};
+
+/**
+ * Reset presence on logout
+ */
+export const resetPresence = () => {
+  activeSessions.clear();
+  statusToRestore = null;
+  applyStatus('offline');
+};
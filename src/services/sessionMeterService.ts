@@ -0,0 +1,196 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { enqueueMessage } from './messageOutbox';
+import { Booking, completeBooking, startBooking } from './bookingService';
+
+// The parts of a booking the meter needs; chats carry a trimmed-down booking
+export interface SessionBooking {
+  status?: string;
+  amount?: number;
+  // Scheduled start
+  startTime?: string;
+  // When the session was actually started, from startSession
+  startedAt?: string;
+  // Purchased minutes
+  duration?: number;
+}
+
+export interface SessionMeter {
+  elapsedMs: number;
+  totalMs: number;
+  remainingMs: number;
+  // Fraction of the purchased time used, from 0 to 1
+  progress: number;
+  // Amount earned so far, billed per started minute and capped at the booking amount
+  billedAmount: number;
+  isOver: boolean;
+}
+
+// Message types posted into the chat so the client sees them too
+export const SESSION_WARNING_TYPE = 'session_warning';
+export const SESSION_ENDED_TYPE = 'session_ended';
+
+// Both parties are warned when this many minutes are left
+export const SESSION_WARNING_MINUTES = [5, 1];
+
+// AsyncStorage key prefix for warnings already sent, per booking
+const SENT_WARNINGS_KEY_PREFIX = 'sessionWarnings:';
+
+// AsyncStorage key prefix for when each session was started
+const STARTED_AT_KEY_PREFIX = 'sessionStartedAt:';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Work out where a session is from when it was started
+ * Derived rather than counted so the meter stays right after the app was in the background
+ * Only active bookings are metered; a confirmed booking's start time is just when it is scheduled
+ * @param booking - The booking being consulted on
+ * @param now - Current time in milliseconds
+ * @returns The meter, or null if the session isn't active or has no purchased duration
+ */
+export const getSessionMeter = (booking: SessionBooking | null | undefined, now: number = Date.now()): SessionMeter | null => {
+  if (booking?.status !== 'active' || !booking.duration) return null;
+
+  // Sessions started on another device have no local start, so use what the server has
+  const start = booking.startedAt || booking.startTime;
+  if (!start) return null;
+
+  const startedAt = new Date(start).getTime();
+  if (isNaN(startedAt)) return null;
+
+  const totalMs = booking.duration * MINUTE_MS;
+  const elapsedMs = Math.min(Math.max(0, now - startedAt), totalMs);
+  const amount = booking.amount || 0;
+  const startedMinutes = Math.ceil(elapsedMs / MINUTE_MS);
+
+  return {
+    elapsedMs,
+    totalMs,
+    remainingMs: totalMs - elapsedMs,
+    progress: elapsedMs / totalMs,
+    billedAmount: Math.min(amount, Math.round((startedMinutes * amount) / booking.duration)),
+    isOver: elapsedMs >= totalMs
+  };
+};
+
+export const formatSessionTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  const clock = `${mins.toString().padStart(hours > 0 ? 2 : 1, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${clock}` : clock;
+};
+
+/**
+ * Find the warning that should go out now, if any
+ * Only the tightest threshold is returned, so resuming late sends one warning rather than several
+ * @param remainingMs - Time left in the session
+ * @param sent - Thresholds already warned about
+ * @returns Minutes left to warn about, or null
+ */
+export const getDueWarning = (remainingMs: number, sent: number[]): number | null => {
+  if (remainingMs <= 0) return null;
+
+  const due = SESSION_WARNING_MINUTES
+    .filter(minutes => remainingMs <= minutes * MINUTE_MS)
+    .sort((a, b) => a - b)[0];
+
+  if (due === undefined || sent.some(minutes => minutes <= due)) return null;
+  return due;
+};
+
+/**
+ * Get the warnings already sent for a booking, so reopening the chat doesn't repeat them
+ */
+export const getSentWarnings = async (bookingId: string): Promise<number[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(`${SENT_WARNINGS_KEY_PREFIX}${bookingId}`);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading sent session warnings:', error);
+    return [];
+  }
+};
+
+/**
+ * Warn both parties that the session is about to run out
+ * @param chatId - The consultation chat
+ * @param bookingId - The booking being consulted on
+ * @param minutes - Minutes left
+ * @returns False if this warning was already sent
+ */
+export const sendSessionWarning = async (chatId: string, bookingId: string, minutes: number): Promise<boolean> => {
+  const sent = await getSentWarnings(bookingId);
+  if (sent.includes(minutes)) return false;
+
+  try {
+    await AsyncStorage.setItem(`${SENT_WARNINGS_KEY_PREFIX}${bookingId}`, JSON.stringify([...sent, minutes]));
+  } catch (error) {
+    console.error('Error saving sent session warnings:', error);
+  }
+
+  await enqueueMessage({
+    chatId,
+    bookingId,
+    message: `${minutes} minute${minutes === 1 ? '' : 's'} left in this consultation.`,
+    messageType: SESSION_WARNING_TYPE
+  });
+  return true;
+};
+
+/**
+ * Get when a session was started on this device, so reopening the chat keeps the meter running from it
+ * @param bookingId - The booking being consulted on
+ * @returns The start time, or null if it wasn't started here
+ */
+export const getSessionStartedAt = async (bookingId: string): Promise<string | null> => {
+  try {
+    return await AsyncStorage.getItem(`${STARTED_AT_KEY_PREFIX}${bookingId}`);
+  } catch (error) {
+    console.error('Error reading session start time:', error);
+    return null;
+  }
+};
+
+/**
+ * Start the paid session; the meter runs from when the server confirmed the start
+ * @param bookingId - The booking to start
+ * @returns The updated booking, with the time it was started
+ */
+export const startSession = async (bookingId: string): Promise<Booking & { startedAt: string }> => {
+  const booking = await startBooking(bookingId);
+  const startedAt = new Date().toISOString();
+
+  try {
+    await AsyncStorage.setItem(`${STARTED_AT_KEY_PREFIX}${bookingId}`, startedAt);
+  } catch (error) {
+    console.error('Error saving session start time:', error);
+  }
+
+  return { ...booking, startedAt };
+};
+
+/**
+ * End the session once the purchased time is used up and let the client know
+ * @param chatId - The consultation chat
+ * @param bookingId - The booking to complete
+ * @returns The updated booking
+ */
+export const endSession = async (chatId: string, bookingId: string): Promise<Booking> => {
+  const booking = await completeBooking(bookingId);
+
+  try {
+    await AsyncStorage.multiRemove([`${SENT_WARNINGS_KEY_PREFIX}${bookingId}`, `${STARTED_AT_KEY_PREFIX}${bookingId}`]);
+  } catch (error) {
+    console.error('Error clearing session state:', error);
+  }
+
+  await enqueueMessage({
+    chatId,
+    bookingId,
+    message: 'The consultation time is over. Thank you!',
+    messageType: SESSION_ENDED_TYPE
+  });
+  return booking;
+};
@@ -0,0 +1,287 @@
+/**
+ * Contract for the events exchanged with the socket server
+ * Incoming payloads are checked at runtime before they reach any handler, since the
+ * server is a separate deployment and its payloads can't be trusted to match these types
+ */
+
+// Bump when event names or payload shapes change; sent to the server in the handshake
+export const SOCKET_EVENT_SCHEMA_VERSION = 1;
+
+export const SOCKET_EVENTS = {
+  // Server to client
+  WELCOME: 'welcome',
+  NEW_BOOKING_REQUEST: 'new-booking-request',
+  CHAT_JOINED: 'chat:joined',
+  CHAT_ERROR: 'chat:error',
+  CHAT_NEW_MESSAGE: 'chat:newMessage',
+  CHAT_MESSAGE: 'chat:message',
+  CHAT_MESSAGE_SENT: 'chat:messageSent',
+  CHAT_MESSAGE_DELIVERED: 'chat:messageDelivered',
+  CHAT_TYPING: 'chat:typing',
+  CHAT_MESSAGES_READ: 'chat:messagesRead',
+  CHAT_STATUS_CHANGE: 'chat:status_change',
+  CHAT_ASTROLOGER_JOINED: 'chat:astrologer_joined',
+  NEW_MESSAGE: 'new_message',
+  ROOM_CHECK_RESPONSE: 'room_check_response',
+  TEST_RESPONSE: 'test-response',
+  TEST_NOTIFICATION: 'test-notification',
+
+  // Client to server
+  TEST_CONNECTION: 'test-connection',
+  BOOKING_NOTIFICATION_RECEIVED: 'booking-notification-received',
+  CHAT_JOIN: 'chat:join',
+  CHAT_SEND_MESSAGE: 'chat:sendMessage',
+  CHAT_MARK_READ: 'chat:markRead',
+  CHECK_ROOM: 'check_room',
+  REQUEST_TEST_NOTIFICATION: 'request-test-notification'
+} as const;
+
+export type SenderType = 'user' | 'astrologer' | 'system';
+
+// A chat message as the server sends it
+export interface SocketChatMessage {
+  _id?: string;
+  id?: string;
+  temporaryId?: string;
+  chatId?: string;
+  bookingId?: string;
+  message?: string;
+  content?: string;
+  messageType?: string;
+  senderType?: SenderType;
+  sender?: string | { _id?: string; name?: string };
+  timestamp?: string | number;
+  createdAt?: string;
+  read?: boolean;
+  status?: string;
+  attachments?: { type: string; url: string; mimetype: string; name?: string; size?: number; duration?: number }[];
+  // Filled in by the client when answering a birth details request
+  birthDetails?: { date?: string; time?: string; place?: { city?: string; state?: string; country?: string } };
+}
+
+export interface BookingRequestEvent {
+  _id: string;
+  status?: string;
+  consultationType?: string;
+  amount?: number;
+  userId?: string | { _id?: string; name?: string; mobileNumber?: string };
+  userName?: string;
+  notes?: string;
+  createdAt?: string;
+  expiresAt?: string;
+  [key: string]: any;
+}
+
+export interface ChatJoinedEvent {
+  chatId?: string;
+  bookingId?: string;
+  [key: string]: any;
+}
+
+export interface ChatErrorEvent {
+  message?: string;
+  code?: string;
+  messageId?: string;
+}
+
+export interface ChatNewMessageEvent {
+  chatId?: string;
+  bookingId?: string;
+  message: SocketChatMessage;
+}
+
+export interface ChatMessageSentEvent {
+  chatId: string;
+  messageId?: string;
+  temporaryId?: string;
+}
+
+export interface ChatMessageDeliveredEvent {
+  chatId: string;
+  messageId: string;
+  temporaryId?: string;
+}
+
+export interface ChatTypingEvent {
+  chatId: string;
+  userId?: string;
+  isTyping: boolean;
+}
+
+export interface ChatMessagesReadEvent {
+  chatId: string;
+  messageIds?: string[];
+  readBy?: string;
+  readAt?: string;
+}
+
+export interface ChatStatusChangeEvent {
+  chatId: string;
+  status: string;
+}
+
+export interface ChatAstrologerJoinedEvent {
+  chatId: string;
+  astrologerId?: string;
+}
+
+export interface RoomCheckResponseEvent {
+  inRoom: boolean;
+  roomId: string;
+}
+
+// Payload of every event the server sends, by event name
+export interface IncomingEventPayloads {
+  [SOCKET_EVENTS.WELCOME]: unknown;
+  [SOCKET_EVENTS.NEW_BOOKING_REQUEST]: BookingRequestEvent;
+  [SOCKET_EVENTS.CHAT_JOINED]: ChatJoinedEvent;
+  [SOCKET_EVENTS.CHAT_ERROR]: ChatErrorEvent;
+  [SOCKET_EVENTS.CHAT_NEW_MESSAGE]: ChatNewMessageEvent;
+  [SOCKET_EVENTS.CHAT_MESSAGE]: ChatNewMessageEvent;
+  [SOCKET_EVENTS.CHAT_MESSAGE_SENT]: ChatMessageSentEvent;
+  [SOCKET_EVENTS.CHAT_MESSAGE_DELIVERED]: ChatMessageDeliveredEvent;
+  [SOCKET_EVENTS.CHAT_TYPING]: ChatTypingEvent;
+  [SOCKET_EVENTS.CHAT_MESSAGES_READ]: ChatMessagesReadEvent;
+  [SOCKET_EVENTS.CHAT_STATUS_CHANGE]: ChatStatusChangeEvent;
+  [SOCKET_EVENTS.CHAT_ASTROLOGER_JOINED]: ChatAstrologerJoinedEvent;
+  [SOCKET_EVENTS.NEW_MESSAGE]: SocketChatMessage;
+  [SOCKET_EVENTS.ROOM_CHECK_RESPONSE]: RoomCheckResponseEvent;
+  [SOCKET_EVENTS.TEST_RESPONSE]: unknown;
+  [SOCKET_EVENTS.TEST_NOTIFICATION]: unknown;
+}
+
+export interface ChatJoinPayload {
+  chatId?: string;
+  bookingId?: string;
+  astrologerId: string;
+  userType: 'astrologer';
+  timestamp?: number;
+}
+
+export interface ChatSendMessagePayload {
+  chatId: string;
+  bookingId?: string;
+  message: string;
+  astrologerId?: string;
+  senderType: 'astrologer';
+  timestamp?: number;
+}
+
+export interface ChatTypingPayload {
+  chatId: string;
+  bookingId?: string;
+  isTyping: boolean;
+}
+
+export interface ChatMarkReadPayload {
+  chatId: string;
+  // Without IDs, everything the client sent in the chat is marked read
+  messageIds?: string[];
+}
+
+// Payload of every event the app sends, by event name
+export interface OutgoingEventPayloads {
+  [SOCKET_EVENTS.TEST_CONNECTION]: { clientTime: string };
+  [SOCKET_EVENTS.BOOKING_NOTIFICATION_RECEIVED]: { bookingId: string; receivedAt: string; clientInfo: Record<string, string> };
+  [SOCKET_EVENTS.CHAT_JOIN]: ChatJoinPayload;
+  [SOCKET_EVENTS.CHAT_SEND_MESSAGE]: ChatSendMessagePayload;
+  [SOCKET_EVENTS.CHAT_TYPING]: ChatTypingPayload;
+  [SOCKET_EVENTS.CHAT_MARK_READ]: ChatMarkReadPayload;
+  [SOCKET_EVENTS.CHECK_ROOM]: { roomId: string };
+  [SOCKET_EVENTS.REQUEST_TEST_NOTIFICATION]: Record<string, any>;
+}
+
+export type IncomingEvent = keyof IncomingEventPayloads;
+export type OutgoingEvent = keyof OutgoingEventPayloads;
+
+type Validator<T> = (payload: unknown) => payload is T;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) =>
+  value === undefined || value === null || check(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isSenderType = (value: unknown): value is SenderType =>
+  value === 'user' || value === 'astrologer' || value === 'system';
+
+const isChatMessage = (value: unknown): value is SocketChatMessage =>
+  isObject(value) &&
+  (isNonEmptyString(value._id) || isNonEmptyString(value.id) || isNonEmptyString(value.temporaryId)) &&
+  isOptional(value.message, isString) &&
+  isOptional(value.content, isString) &&
+  isOptional(value.senderType, isSenderType) &&
+  isOptional(value.sender, sender => isString(sender) || isObject(sender)) &&
+  isOptional(value.timestamp, timestamp => isString(timestamp) || typeof timestamp === 'number') &&
+  isOptional(value.attachments, attachments =>
+    Array.isArray(attachments) && attachments.every(item => isObject(item) && isNonEmptyString(item.url))) &&
+  isOptional(value.birthDetails, isObject);
+
+const isNewMessageEvent = (value: unknown): value is ChatNewMessageEvent =>
+  isObject(value) &&
+  isChatMessage(value.message) &&
+  isOptional(value.chatId, isString) &&
+  isOptional(value.bookingId, isString);
+
+const hasChatId = (value: unknown): value is Record<string, unknown> & { chatId: string } =>
+  isObject(value) && isNonEmptyString(value.chatId);
+
+const anyPayload = (_payload: unknown): _payload is unknown => true;
+
+const INCOMING_EVENT_VALIDATORS: { [E in IncomingEvent]: Validator<IncomingEventPayloads[E]> } = {
+  [SOCKET_EVENTS.WELCOME]: anyPayload,
+  [SOCKET_EVENTS.NEW_BOOKING_REQUEST]: (value): value is BookingRequestEvent =>
+    isObject(value) && isNonEmptyString(value._id) && isOptional(value.consultationType, isString),
+  [SOCKET_EVENTS.CHAT_JOINED]: (value): value is ChatJoinedEvent => isObject(value),
+  [SOCKET_EVENTS.CHAT_ERROR]: (value): value is ChatErrorEvent =>
+    isObject(value) && isOptional(value.message, isString),
+  [SOCKET_EVENTS.CHAT_NEW_MESSAGE]: isNewMessageEvent,
+  [SOCKET_EVENTS.CHAT_MESSAGE]: isNewMessageEvent,
+  [SOCKET_EVENTS.CHAT_MESSAGE_SENT]: (value): value is ChatMessageSentEvent =>
+    hasChatId(value) && isOptional(value.messageId, isString),
+  [SOCKET_EVENTS.CHAT_MESSAGE_DELIVERED]: (value): value is ChatMessageDeliveredEvent =>
+    hasChatId(value) && isNonEmptyString(value.messageId) && isOptional(value.temporaryId, isString),
+  [SOCKET_EVENTS.CHAT_TYPING]: (value): value is ChatTypingEvent =>
+    hasChatId(value) && isBoolean(value.isTyping),
+  [SOCKET_EVENTS.CHAT_MESSAGES_READ]: (value): value is ChatMessagesReadEvent =>
+    hasChatId(value) &&
+    isOptional(value.messageIds, ids => Array.isArray(ids) && ids.every(isString)),
+  [SOCKET_EVENTS.CHAT_STATUS_CHANGE]: (value): value is ChatStatusChangeEvent =>
+    hasChatId(value) && isNonEmptyString(value.status),
+  [SOCKET_EVENTS.CHAT_ASTROLOGER_JOINED]: (value): value is ChatAstrologerJoinedEvent => hasChatId(value),
+  [SOCKET_EVENTS.NEW_MESSAGE]: isChatMessage,
+  [SOCKET_EVENTS.ROOM_CHECK_RESPONSE]: (value): value is RoomCheckResponseEvent =>
+    isObject(value) && isBoolean(value.inRoom) && isString(value.roomId),
+  [SOCKET_EVENTS.TEST_RESPONSE]: anyPayload,
+  [SOCKET_EVENTS.TEST_NOTIFICATION]: anyPayload
+};
+
+/**
+ * Check whether an event name is part of the incoming contract
+ */
+export const isIncomingEvent = (event: string): event is IncomingEvent =>
+  Object.prototype.hasOwnProperty.call(INCOMING_EVENT_VALIDATORS, event);
+
+/**
+ * Check an incoming payload against the contract, logging it if it doesn't match
+ * @param event - The event name
+ * @param payload - The payload as received from the server
+ * @returns True if the payload can be handed to listeners
+ */
+export const validateIncomingEvent = <E extends IncomingEvent>(
+  event: E,
+  payload: unknown
+): payload is IncomingEventPayloads[E] => {
+  if (INCOMING_EVENT_VALIDATORS[event](payload)) {
+    return true;
+  }
+
+  console.warn(`[SOCKET] Dropping malformed ${event} event (schema v${SOCKET_EVENT_SCHEMA_VERSION}):`, payload);
+  return false;
+};
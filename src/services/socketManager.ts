@@ -0,0 +1,521 @@
+import { io, Socket, ManagerOptions, SocketOptions } from 'socket.io-client';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { jwtDecode } from 'jwt-decode';
+import { SOCKET_URL, APP_IDENTIFIER } from '../config';
+import {
+  SOCKET_EVENTS,
+  SOCKET_EVENT_SCHEMA_VERSION,
+  ChatJoinPayload,
+  IncomingEvent,
+  IncomingEventPayloads,
+  OutgoingEvent,
+  OutgoingEventPayloads,
+  isIncomingEvent,
+  validateIncomingEvent
+} from './socketEvents';
+
+export type ConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+export type ServerToClientEvents = {
+  [E in IncomingEvent]: (payload: IncomingEventPayloads[E]) => void;
+};
+
+export type ClientToServerEvents = {
+  [E in OutgoingEvent]: (payload: OutgoingEventPayloads[E]) => void;
+};
+
+// Lifecycle events socket.io emits on the socket itself
+export interface ReservedSocketEvents {
+  'connect': () => void;
+  'disconnect': (reason: string) => void;
+  'connect_error': (error: Error) => void;
+}
+
+export type SocketEvents = ServerToClientEvents & ReservedSocketEvents;
+
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export type SocketFactory = (url: string, options: Partial<ManagerOptions & SocketOptions>) => AppSocket;
+
+type StateListener = (state: ConnectionState) => void;
+
+interface JoinedRoom {
+  payload: ChatJoinPayload;
+  timestamp: number;
+  success: boolean;
+}
+
+// For easier debugging
+const isDev = __DEV__;
+
+// Reconnection policy, applied by socket.io for both the first connection and later drops
+export const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+const RECONNECT_DELAY_MAX_MS = 10000;
+
+// How long connect() waits before giving up on the current attempt
+const CONNECT_TIMEOUT_MS = 10000;
+
+// How long a room join result is trusted before joining again
+const JOIN_ROOM_CACHE_TTL = 30000;
+
+// Make sure we have a clean socket URL without any trailing slashes or /api
+const getSocketBaseUrl = (): string => {
+  let url = SOCKET_URL.endsWith('/') ? SOCKET_URL.slice(0, -1) : SOCKET_URL;
+  if (url.endsWith('/api')) {
+    url = url.slice(0, -4);
+  }
+  return url;
+};
+
+const log = (message: string, ...args: any[]) => {
+  if (isDev) console.log(`[SOCKET] ${message}`, ...args);
+};
+
+const logError = (message: string, ...args: any[]) => {
+  console.error(`[SOCKET ERROR] ${message}`, ...args);
+};
+
+const decodeJwt = (token: string): any => {
+  try {
+    return jwtDecode(token);
+  } catch (error) {
+    logError('Error decoding JWT token:', error);
+    return null;
+  }
+};
+
+/**
+ * Get the logged-in astrologer's ID
+ * Checks the stored profile, then the stored ID, then userData, then the auth token,
+ * and keeps 'astrologerId' in storage in sync with whichever one is found
+ * @returns The astrologer ID, or null if none could be found
+ */
+export const getAstrologerId = async (): Promise<string | null> => {
+  try {
+    const astrologerProfileString = await AsyncStorage.getItem('astrologerProfile');
+    if (astrologerProfileString) {
+      const profile = JSON.parse(astrologerProfileString);
+      if (profile && profile._id) {
+        await AsyncStorage.setItem('astrologerId', profile._id);
+
+        try {
+          const userDataStr = await AsyncStorage.getItem('userData');
+          if (userDataStr) {
+            const userData = JSON.parse(userDataStr);
+            if (userData) {
+              userData.astrologerId = profile._id;
+              await AsyncStorage.setItem('userData', JSON.stringify(userData));
+            }
+          }
+        } catch (userDataError) {
+          logError('Error updating userData with astrologerId:', userDataError);
+        }
+
+        return profile._id;
+      }
+    }
+
+    const directId = await AsyncStorage.getItem('astrologerId');
+    if (directId) {
+      return directId;
+    }
+
+    const userDataStr = await AsyncStorage.getItem('userData');
+    if (userDataStr) {
+      const userData = JSON.parse(userDataStr);
+      if (userData && userData._id) {
+        await AsyncStorage.setItem('astrologerId', userData._id);
+        return userData._id;
+      }
+
+      if (userData && userData.astrologerId) {
+        return userData.astrologerId;
+      }
+
+      if (userData && userData.id) {
+        await AsyncStorage.setItem('astrologerId', userData.id);
+        userData.astrologerId = userData.id;
+        await AsyncStorage.setItem('userData', JSON.stringify(userData));
+        return userData.id;
+      }
+    }
+
+    const token = await AsyncStorage.getItem('token');
+    if (token) {
+      const decoded = decodeJwt(token);
+      const tokenId = decoded?._id || decoded?.id;
+      if (tokenId) {
+        await AsyncStorage.setItem('astrologerId', tokenId);
+        return tokenId;
+      }
+    }
+
+    return null;
+  } catch (error) {
+    logError('Error getting valid astrologer ID:', error);
+    return null;
+  }
+};
+
+/**
+ * Get the auth token, syncing it from the legacy 'authToken' key if needed
+ */
+const getAuthToken = async (): Promise<string | null> => {
+  const token = await AsyncStorage.getItem('token');
+  if (token) return token;
+
+  const alternateToken = await AsyncStorage.getItem('authToken');
+  if (alternateToken) {
+    log('Found token with key "authToken" instead of "token"');
+    await AsyncStorage.setItem('token', alternateToken);
+  }
+  return alternateToken;
+};
+
+/**
+ * Build the auth data sent with every connection attempt
+ * The backend identifies the app as an astrologer from this even if the token does not say so
+ */
+const buildAuthData = async (token: string, astrologerId: string) => {
+  const authData: Record<string, string> = {
+    token,
+    userType: 'astrologer',
+    appIdentifier: APP_IDENTIFIER,
+    astrologerId
+  };
+
+  try {
+    const userDataString = await AsyncStorage.getItem('userData');
+    if (userDataString) {
+      const userData = JSON.parse(userDataString);
+      if (userData.mobileNumber || userData.mobile) {
+        authData.mobileNumber = userData.mobileNumber || userData.mobile;
+      }
+      if (userData.email) {
+        authData.email = userData.email;
+      }
+      if (userData.id || userData._id) {
+        authData.userId = userData.id || userData._id;
+      }
+    }
+  } catch (error) {
+    logError('Error getting user data from storage:', error);
+  }
+
+  return authData;
+};
+
+const defaultSocketFactory: SocketFactory = (url, options) => io(url, options);
+
+/**
+ * Owns the app's single socket.io connection
+ * Screens and contexts subscribe to typed events through it instead of holding the socket,
+ * so handlers survive reconnects and one screen can't remove another's listeners
+ */
+export class SocketConnectionManager {
+  private socket: AppSocket | null = null;
+  private state: ConnectionState = 'idle';
+  private hasConnected = false;
+  private connectPromise: Promise<AppSocket | null> | null = null;
+  private stateListeners = new Set<StateListener>();
+  // Handlers subscribed through on(), mapped to the validating wrapper attached to the socket
+  private eventHandlers = new Map<keyof SocketEvents, Map<Function, (...args: any[]) => void>>();
+  private joinedRooms = new Map<string, JoinedRoom>();
+
+  constructor(
+    private url: string = getSocketBaseUrl(),
+    private createSocket: SocketFactory = defaultSocketFactory
+  ) {}
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  getSocket(): AppSocket | null {
+    return this.socket;
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  isConnected(): boolean {
+    return !!this.socket && this.socket.connected;
+  }
+
+  /**
+   * Listen for connection state changes
+   * @param listener - Called with each new state
+   * @returns Function that removes the listener
+   */
+  onStateChange(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for a socket event, now and on any socket created later
+   * Server events with a malformed payload are logged and never reach the handler
+   * @param event - The event name
+   * @param handler - Called with the event payload
+   * @returns Function that removes the handler
+   */
+  on<E extends keyof SocketEvents>(event: E, handler: SocketEvents[E]): () => void {
+    const callHandler = handler as (...args: any[]) => void;
+    const listener = (...args: any[]) => {
+      if (isIncomingEvent(event) && !validateIncomingEvent(event, args[0])) return;
+
+      try {
+        callHandler(...args);
+      } catch (error) {
+        logError(`Error in ${event} handler:`, error);
+      }
+    };
+
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, new Map());
+    }
+    this.eventHandlers.get(event)!.set(handler, listener);
+    // socket.io can only type the listener against the full event union, not a generic event
+    const eventName: keyof SocketEvents = event;
+    this.socket?.on(eventName, listener);
+
+    return () => {
+      this.eventHandlers.get(event)?.delete(handler);
+      this.socket?.off(eventName, listener);
+    };
+  }
+
+  /**
+   * Listen for the next occurrence of a socket event only
+   * @returns Function that removes the handler if it has not fired yet
+   */
+  once<E extends keyof SocketEvents>(event: E, handler: SocketEvents[E]): () => void {
+    const remove = this.on(event, ((...args: any[]) => {
+      remove();
+      (handler as (...args: any[]) => void)(...args);
+    }) as SocketEvents[E]);
+    return remove;
+  }
+
+  /**
+   * Send an event to the server
+   * @returns False if there is no connected socket to send it on
+   */
+  emit<E extends OutgoingEvent>(event: E, ...args: Parameters<ClientToServerEvents[E]>): boolean {
+    if (!this.socket?.connected) {
+      log(`Not connected, dropping outgoing ${event} event`);
+      return false;
+    }
+    this.socket.emit(event, ...args);
+    return true;
+  }
+
+  /**
+   * Connect to the socket server, or return the existing connection
+   * Concurrent callers share the same attempt
+   * @returns The connected socket, or null if it could not connect in time
+   *          (socket.io keeps retrying in the background until the attempts run out)
+   */
+  connect(): Promise<AppSocket | null> {
+    if (this.socket?.connected) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.connectPromise) {
+      this.connectPromise = this.openConnection().finally(() => {
+        this.connectPromise = null;
+      });
+    }
+    return this.connectPromise;
+  }
+
+  /**
+   * Close the connection and forget joined rooms, e.g. on logout
+   */
+  disconnect() {
+    const socket = this.socket;
+    this.socket = null;
+    this.hasConnected = false;
+    this.joinedRooms.clear();
+
+    if (socket) {
+      socket.io.removeAllListeners();
+      socket.removeAllListeners();
+      socket.disconnect();
+      log('Socket disconnected');
+    }
+    this.setState('idle');
+  }
+
+  /**
+   * Get the cached result of joining a room, if it is recent enough to trust
+   */
+  getCachedRoomJoin(chatId: string, bookingId: string): JoinedRoom | null {
+    const room = this.joinedRooms.get(`${chatId}:${bookingId}`);
+    if (!room || Date.now() - room.timestamp >= JOIN_ROOM_CACHE_TTL) return null;
+    return room;
+  }
+
+  /**
+   * Remember the result of joining a room; successful joins are repeated after a reconnect
+   */
+  rememberRoomJoin(payload: ChatJoinPayload, success: boolean) {
+    const key = `${payload.chatId || ''}:${payload.bookingId || ''}`;
+    this.joinedRooms.set(key, { payload, timestamp: Date.now(), success });
+  }
+
+  private setState(state: ConnectionState) {
+    if (this.state === state) return;
+    this.state = state;
+    log(`Connection state changed: ${state}`);
+
+    this.stateListeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        logError('Error in connection state listener:', error);
+      }
+    });
+  }
+
+  private async openConnection(): Promise<AppSocket | null> {
+    // A socket that is still retrying on its own just needs waiting for
+    if (!this.socket) {
+      const token = await getAuthToken();
+      if (!token) {
+        logError('No auth token available for socket connection');
+        return null;
+      }
+
+      const astrologerId = await getAstrologerId();
+      if (!astrologerId) {
+        logError('Could not determine astrologer ID for socket connection');
+        return null;
+      }
+
+      this.setState('connecting');
+      this.socket = this.createSocket(this.url, {
+        // Read auth again on every attempt so reconnects pick up a refreshed token
+        auth: (callback: (data: object) => void) => {
+          getAuthToken()
+            .then(latestToken => buildAuthData(latestToken || token, astrologerId))
+            .then(callback);
+        },
+        transports: ['websocket', 'polling'],
+        tryAllTransports: true,
+        forceNew: true,
+        reconnection: true,
+        reconnectionAttempts: MAX_RECONNECT_ATTEMPTS,
+        reconnectionDelay: RECONNECT_DELAY_MS,
+        reconnectionDelayMax: RECONNECT_DELAY_MAX_MS,
+        timeout: 20000,
+        query: {
+          appType: 'astrologer-app',
+          appVersion: '1.0.0',
+          platform: Platform.OS,
+          astrologerId,
+          userType: 'astrologer',
+          eventSchemaVersion: String(SOCKET_EVENT_SCHEMA_VERSION)
+        }
+      });
+      this.attachLifecycleHandlers(this.socket);
+    } else if (this.state === 'failed') {
+      // socket.io gave up; start a fresh round of attempts on the same socket
+      this.setState(this.hasConnected ? 'reconnecting' : 'connecting');
+      this.socket.connect();
+    }
+
+    return this.waitForConnection(this.socket);
+  }
+
+  private waitForConnection(socket: AppSocket): Promise<AppSocket | null> {
+    if (socket.connected) return Promise.resolve(socket);
+
+    return new Promise(resolve => {
+      let timeoutId: ReturnType<typeof setTimeout>;
+
+      const finish = (result: AppSocket | null) => {
+        clearTimeout(timeoutId);
+        removeStateListener();
+        resolve(result);
+      };
+
+      const removeStateListener = this.onStateChange(state => {
+        if (state === 'connected') finish(socket);
+        else if (state === 'failed' || state === 'idle') finish(null);
+      });
+
+      timeoutId = setTimeout(() => {
+        log(`Socket not connected after ${CONNECT_TIMEOUT_MS}ms`);
+        finish(null);
+      }, CONNECT_TIMEOUT_MS);
+    });
+  }
+
+  private attachLifecycleHandlers(socket: AppSocket) {
+    socket.on('connect', () => {
+      log(`Socket connected, ID: ${socket.id}`);
+      const isReconnect = this.hasConnected;
+      this.hasConnected = true;
+      this.setState('connected');
+
+      socket.emit(SOCKET_EVENTS.TEST_CONNECTION, { clientTime: new Date().toISOString() });
+
+      // The server forgets room membership with the old connection
+      if (isReconnect) {
+        this.rejoinRooms(socket);
+      }
+    });
+
+    socket.on('disconnect', (reason) => {
+      log(`Socket disconnected: ${reason}`);
+      if (reason === 'io client disconnect') return;
+
+      if (reason === 'io server disconnect') {
+        // The server closed the connection on purpose; socket.io won't retry by itself
+        this.setState('failed');
+      } else {
+        this.setState('reconnecting');
+      }
+    });
+
+    socket.on('connect_error', (error) => {
+      logError(`Socket connect error: ${error.message}`);
+    });
+
+    socket.io.on('reconnect_attempt', (attempt) => {
+      log(`Reconnect attempt ${attempt}/${MAX_RECONNECT_ATTEMPTS}`);
+      this.setState(this.hasConnected ? 'reconnecting' : 'connecting');
+    });
+
+    socket.io.on('reconnect_failed', () => {
+      logError(`Failed to connect after ${MAX_RECONNECT_ATTEMPTS} attempts`);
+      this.setState('failed');
+    });
+
+    // Re-attach everything subscribed through on()
+    this.eventHandlers.forEach((listeners, event) => {
+      listeners.forEach(listener => socket.on(event, listener));
+    });
+  }
+
+  private rejoinRooms(socket: AppSocket) {
+    this.joinedRooms.forEach((room, key) => {
+      if (!room.success) {
+        this.joinedRooms.delete(key);
+        return;
+      }
+      log(`Rejoining chat room ${key}`);
+      socket.emit(SOCKET_EVENTS.CHAT_JOIN, { ...room.payload, timestamp: Date.now() });
+      room.timestamp = Date.now();
+    });
+  }
+}
+
+export const socketManager = new SocketConnectionManager();
+
+export default socketManager;
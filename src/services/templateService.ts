@@ -0,0 +1,241 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { v4 as uuidv4 } from 'uuid';
+import { profileService } from './api';
+
+export interface MessageTemplate {
+  id: string;
+  title: string;
+  body: string;
+}
+
+// Values available to placeholders, taken from the chat's user and booking
+export interface TemplateContext {
+  userName?: string;
+  consultationType?: string;
+  bookingDate?: string | Date;
+  amount?: number;
+}
+
+type TemplateListener = (templates: MessageTemplate[]) => void;
+
+// AsyncStorage key for the locally cached template library
+const TEMPLATES_STORAGE_KEY = 'messageTemplates';
+
+const MAX_TEMPLATES = 50;
+const MAX_TEMPLATE_LENGTH = 1000;
+
+// Placeholders astrologers can put in a template, written as {{key}}
+export const TEMPLATE_PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: 'name', label: 'Client name' },
+  { key: 'consultationType', label: 'Consultation type' },
+  { key: 'bookingDate', label: 'Booking date' },
+  { key: 'amount', label: 'Amount' }
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Starting library for astrologers who haven't set up their own
+export const DEFAULT_TEMPLATES: MessageTemplate[] = [
+  {
+    id: 'default-greeting',
+    title: 'Greeting',
+    body: 'Namaste {{name}}, thank you for booking this {{consultationType}} consultation. How can I help you today?'
+  },
+  {
+    id: 'default-birth-details',
+    title: 'Ask for birth details',
+    body: 'To prepare your chart, please share your date of birth, exact time of birth and place of birth.'
+  },
+  {
+    id: 'default-check-in',
+    title: 'Follow-up check-in',
+    body: 'Namaste {{name}}, it has been a while since our {{consultationType}} consultation on {{bookingDate}}. How have things been since then?'
+  },
+  {
+    id: 'default-closing',
+    title: 'Closing',
+    body: 'Thank you {{name}}. I wish you all the best. Feel free to reach out again if you have more questions.'
+  }
+];
+
+const listeners = new Set<TemplateListener>();
+
+const notifyListeners = (templates: MessageTemplate[]) => {
+  listeners.forEach(listener => {
+    try {
+      listener(templates);
+    } catch (error) {
+      console.error('Error in template listener:', error);
+    }
+  });
+};
+
+const cacheTemplates = async (templates: MessageTemplate[]) => {
+  try {
+    await AsyncStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error('Error caching message templates:', error);
+  }
+  notifyListeners(templates);
+};
+
+const formatPlaceholderValue = (key: string, context: TemplateContext): string | undefined => {
+  switch (key) {
+    case 'name':
+      return context.userName;
+    case 'consultationType':
+      return context.consultationType;
+    case 'bookingDate':
+      return context.bookingDate
+        ? new Date(context.bookingDate).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' })
+        : undefined;
+    case 'amount':
+      return context.amount !== undefined ? `₹${context.amount}` : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Fill a template's placeholders for one chat
+ * Placeholders without a value are left in so the astrologer can see and edit them
+ * @param body - Template text containing {{placeholders}}
+ * @param context - Values from the chat
+ * @returns Text ready to put in the message input
+ */
+export const fillTemplate = (body: string, context: TemplateContext): string =>
+  body.replace(PLACEHOLDER_PATTERN, (match, key) => formatPlaceholderValue(key, context) || match);
+
+/**
+ * Find placeholders still left in a filled template
+ * @param text - Text returned by fillTemplate, possibly edited since
+ * @returns The placeholders as written, e.g. "{{bookingDate}}"
+ */
+export const getUnfilledPlaceholders = (text: string): string[] => text.match(PLACEHOLDER_PATTERN) || [];
+
+/**
+ * Build a placeholder context from a chat as returned by the server
+ */
+export const buildTemplateContext = (chat: any): TemplateContext => ({
+  userName: chat?.user?.name,
+  consultationType: chat?.booking?.consultationType,
+  bookingDate: chat?.booking?.startTime || chat?.booking?.createdAt,
+  amount: chat?.booking?.amount
+});
+
+/**
+ * Create a new template with a fresh ID
+ */
+export const createTemplate = (title: string, body: string): MessageTemplate => ({
+  id: uuidv4(),
+  title: title.trim(),
+  body: body.trim()
+});
+
+/**
+ * Check a template library for problems
+ * @returns A list of human-readable errors (empty if valid)
+ */
+export const validateTemplates = (templates: MessageTemplate[]): string[] => {
+  const errors: string[] = [];
+
+  if (templates.length > MAX_TEMPLATES) {
+    errors.push(`You can save up to ${MAX_TEMPLATES} templates`);
+  }
+
+  templates.forEach((template, index) => {
+    const label = template.title.trim() || `Template ${index + 1}`;
+    if (!template.title.trim()) {
+      errors.push(`${label}: title is required`);
+    }
+    if (!template.body.trim()) {
+      errors.push(`${label}: message is required`);
+    } else if (template.body.length > MAX_TEMPLATE_LENGTH) {
+      errors.push(`${label}: message must be under ${MAX_TEMPLATE_LENGTH} characters`);
+    }
+
+    const unknown = [...template.body.matchAll(PLACEHOLDER_PATTERN)]
+      .map(match => match[1])
+      .filter(key => !TEMPLATE_PLACEHOLDERS.some(placeholder => placeholder.key === key));
+    if (unknown.length > 0) {
+      errors.push(`${label}: unknown placeholder ${unknown.map(key => `{{${key}}}`).join(', ')}`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Get the locally cached templates without going to the network
+ * @returns The cached library, or the defaults
+ */
+export const getCachedTemplates = async (): Promise<MessageTemplate[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(TEMPLATES_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error('Error reading cached message templates:', error);
+  }
+
+  return DEFAULT_TEMPLATES;
+};
+
+/**
+ * Get the template library, preferring the astrologer profile so it follows them across devices
+ * @returns The templates in the astrologer's order
+ */
+export const getTemplates = async (): Promise<MessageTemplate[]> => {
+  try {
+    const profile = await profileService.getProfile();
+    if (profile && Array.isArray(profile.messageTemplates)) {
+      await cacheTemplates(profile.messageTemplates);
+      return profile.messageTemplates;
+    }
+  } catch (error) {
+    console.log('Could not load templates from profile, using local copy');
+  }
+
+  return getCachedTemplates();
+};
+
+/**
+ * Save the template library to the astrologer profile
+ * @param templates - The templates, in the order they should be shown
+ * @returns The saved templates
+ */
+export const saveTemplates = async (templates: MessageTemplate[]): Promise<MessageTemplate[]> => {
+  const errors = validateTemplates(templates);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  const saved = templates.map(template => ({ ...template, title: template.title.trim(), body: template.body.trim() }));
+  await profileService.updateProfile({ messageTemplates: saved });
+  await cacheTemplates(saved);
+  return saved;
+};
+
+/**
+ * Listen for changes to the template library
+ * @param listener - Called with the templates whenever they are saved or refreshed
+ * @returns Function that removes the listener
+ */
+export const subscribeToTemplates = (listener: TemplateListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Forget the local copy of the library, e.g. on logout
+ */
+export const clearCachedTemplates = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(TEMPLATES_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing cached message templates:', error);
+  }
+};
@@ -7,6 +7,8 @@ export interface User {
   mobileNumber: string;
   profilePicture?: string;
   dateOfBirth?: string;
+  // 24-hour HH:MM, local to the place of birth
+  timeOfBirth?: string;
   gender?: 'male' | 'female' | 'other';
   location?: {
     city?: string;
@@ -63,4 +65,29 @@ export const getMyUsers = async (): Promise<User[]> => {
     console.error('Error fetching astrologer users:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Save a client's birth details so they can be reused in later consultations
+ * @param userId - The ID of the client
+ * @param details - Date (YYYY-MM-DD), time (HH:MM) and place of birth
+ * @returns The updated user
+ */
+export const updateUserBirthDetails = async (
+  userId: string,
+  details: Pick<User, 'dateOfBirth' | 'timeOfBirth' | 'location'>
+): Promise<User> => {
+  try {
+    const response = await api.put<UserResponse>(`/users/${userId}/birth-details`, details);
+    
+    if (response.data && response.data.success) {
+      return response.data.data;
+    } else {
+      console.error('Unexpected API response structure:', response.data);
+      throw new Error(response.data.message || 'Failed to save birth details');
+    }
+  } catch (error) {
+    console.error(`Error saving birth details for user ${userId}:`, error);
+    throw error;
+  }
+};
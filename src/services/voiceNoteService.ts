@@ -0,0 +1,124 @@
+import { Audio } from 'expo-av';
+import { LocalAttachment } from './attachmentService';
+
+// Voice notes stop recording automatically at this length
+export const MAX_VOICE_NOTE_DURATION_MS = 2 * 60 * 1000;
+
+// How often the recorder reports duration and level
+const STATUS_INTERVAL_MS = 100;
+
+// Quietest level the meter reports, in dB
+const METERING_FLOOR_DB = -60;
+
+export interface VoiceRecordingStatus {
+  durationMillis: number;
+  // Input level from 0 (silent) to 1 (loudest), for drawing the waveform
+  level: number;
+}
+
+let recording: Audio.Recording | null = null;
+
+/**
+ * Format a length in milliseconds as m:ss
+ */
+export const formatDuration = (millis: number) => {
+  const totalSeconds = Math.floor(millis / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const resetAudioMode = async () => {
+  try {
+    await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true });
+  } catch (error) {
+    console.error('Error resetting audio mode:', error);
+  }
+};
+
+const toLevel = (metering?: number) => {
+  if (metering === undefined) return 0;
+  return Math.max(0, Math.min(1, (metering - METERING_FLOOR_DB) / -METERING_FLOOR_DB));
+};
+
+/**
+ * Start recording a voice note from the microphone
+ * @param onStatus - Called as the recording progresses
+ * @param onLimitReached - Called when the note hits the maximum length; the caller should stop it
+ */
+export const startVoiceRecording = async (
+  onStatus: (status: VoiceRecordingStatus) => void,
+  onLimitReached: () => void
+): Promise<void> => {
+  if (recording) {
+    await cancelVoiceRecording();
+  }
+
+  const permission = await Audio.requestPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error('Microphone permission is required to record voice notes');
+  }
+
+  await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+
+  let limitReached = false;
+  const result = await Audio.Recording.createAsync(
+    { ...Audio.RecordingOptionsPresets.HIGH_QUALITY, isMeteringEnabled: true },
+    status => {
+      if (!status.isRecording) return;
+      onStatus({ durationMillis: status.durationMillis, level: toLevel(status.metering) });
+
+      if (!limitReached && status.durationMillis >= MAX_VOICE_NOTE_DURATION_MS) {
+        limitReached = true;
+        onLimitReached();
+      }
+    },
+    STATUS_INTERVAL_MS
+  );
+  recording = result.recording;
+};
+
+/**
+ * Stop recording and return the voice note, ready to be queued for sending
+ * @returns The recorded note, or null if nothing was recorded
+ */
+export const stopVoiceRecording = async (): Promise<LocalAttachment | null> => {
+  const current = recording;
+  if (!current) return null;
+  recording = null;
+
+  try {
+    const status = await current.stopAndUnloadAsync();
+    const uri = current.getURI();
+    if (!uri) return null;
+
+    return {
+      type: 'audio',
+      uri,
+      name: `voice-note-${Date.now()}.m4a`,
+      mimetype: 'audio/m4a',
+      duration: Math.min(status.durationMillis, MAX_VOICE_NOTE_DURATION_MS)
+    };
+  } catch (error) {
+    console.error('Error stopping voice recording:', error);
+    throw error;
+  } finally {
+    await resetAudioMode();
+  }
+};
+
+/**
+ * Stop recording and throw the note away
+ */
+export const cancelVoiceRecording = async (): Promise<void> => {
+  const current = recording;
+  if (!current) return;
+  recording = null;
+
+  try {
+    await current.stopAndUnloadAsync();
+  } catch (error) {
+    // Already stopped, e.g. the recorder was interrupted
+    console.error('Error cancelling voice recording:', error);
+  } finally {
+    await resetAudioMode();
+  }
+};
@@ -2,14 +2,21 @@ import { NavigatorScreenParams } from '@react-navigation/native';
 
 export type RootStackParamList = {
   Home: undefined;
-  Chat: { chatId: string; bookingId?: string };
+  // The chat screen can find the chat from the booking when there's no chat ID
+  Chat: { chatId?: string; bookingId?: string; messageId?: string };
   Chats: undefined;
+  ChatSearch: undefined;
+  Clients: undefined;
+  ClientDetail: { userId: string; userName?: string };
+  FollowUps: undefined;
+  ConsultationCalendar: undefined;
   Profile: undefined;
   Settings: undefined;
   Bookings: undefined;
+  BookingRequestsTab: undefined;
   Consultations: undefined;
-  VideoCall: { bookingId: string };
-  Call: { bookingId: string };
+  VoiceCallSession: { bookingId: string; userData?: { name: string; id?: string } };
+  VideoCallSession: { bookingId: string; userData?: { name: string; id?: string } };
 };
 
 declare global {
@@ -79,6 +79,21 @@ export class RtcEngine {
     return Promise.resolve();
   }
 
+  public async disableVideo(): Promise<void> {
+    console.log('[Agora] Video disabled');
+    return Promise.resolve();
+  }
+
+  public async enableAudio(): Promise<void> {
+    console.log('[Agora] Audio enabled');
+    return Promise.resolve();
+  }
+
+  public async setEnableSpeakerphone(enabled: boolean): Promise<void> {
+    console.log(`[Agora] Speakerphone ${enabled ? 'enabled' : 'disabled'}`);
+    return Promise.resolve();
+  }
+
   public async enableLocalVideo(enabled: boolean): Promise<void> {
     console.log(`[Agora] Local video ${enabled ? 'enabled' : 'disabled'}`);
     return Promise.resolve();
@@ -102,6 +117,11 @@ export class RtcEngine {
     return Promise.resolve();
   }
 
+  public async renewToken(token: string): Promise<void> {
+    console.log(`[Agora] Token renewed for channel: ${this.channelName}`);
+    return Promise.resolve();
+  }
+
   public async leaveChannel(): Promise<void> {
     console.log(`[Agora] Leaving channel: ${this.channelName}`);
     this.channelName = null;